@@ -3,8 +3,12 @@ pragma solidity ^0.8.6;
 
 import "@gnosis.pm/zodiac/contracts/guard/BaseGuard.sol";
 import "@gnosis.pm/zodiac/contracts/factory/FactoryFriendly.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 contract ScopeGuard is FactoryFriendly, BaseGuard {
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
     event SetTargetAllowed(address target, bool allowed);
     event SetTargetScoped(address target, bool scoped);
     event SetFallbackAllowedOnTarget(address target, bool allowed);
@@ -15,6 +19,74 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         bytes4 functionSig,
         bool allowed
     );
+    event SetTargetDenyList(address target, bool denyList);
+    event SetFunctionDeniedOnTarget(
+        address target,
+        bytes4 functionSig,
+        bool denied
+    );
+    event SetMultiSend(address multiSend);
+    event SetSenderRestricted(address sender, bool restricted);
+    event SetExecutorAllowed(address executor, bool allowed);
+    event SetTargetAllowedForSender(
+        address sender,
+        address target,
+        bool allowed
+    );
+    event SetTargetScopedForSender(address sender, address target, bool scoped);
+    event SetFunctionAllowedForSender(
+        address sender,
+        address target,
+        bytes4 functionSig,
+        bool allowed
+    );
+    event SetMaxValueOnTarget(address target, uint256 maxValue);
+    event SetMaxValueOnFunction(
+        address target,
+        bytes4 functionSig,
+        uint256 maxValue
+    );
+    event SetAllowance(
+        address target,
+        AllowanceKind kind,
+        uint256 amount,
+        uint64 period
+    );
+    event ResetAllowance(address avatar, address target, AllowanceKind kind);
+    event SetParameterCondition(
+        address target,
+        bytes4 functionSig,
+        uint256 index,
+        ParameterType paramType,
+        Comparison comparison,
+        bytes32[] compValues
+    );
+    event RemoveParameterCondition(
+        address target,
+        bytes4 functionSig,
+        uint256 index
+    );
+    event SetDelay(uint256 delay);
+    event ChangeQueued(
+        bytes32 indexed id,
+        uint256 nonce,
+        bytes data,
+        uint256 eta
+    );
+    event ChangeExecuted(bytes32 indexed id);
+    event ChangeCancelled(bytes32 indexed id);
+    event SetGuardian(address guardian);
+    event SetRecoveryTarget(address target, bool allowed);
+    event Paused(address account);
+    event Unpaused(address account);
+    event SetRefundRule(
+        address gasToken,
+        uint256 maxGasPrice,
+        uint256 maxBaseGas
+    );
+    event SetRefundReceiverAllowed(address receiver, bool allowed);
+    event AddGuard(address guard);
+    event RemoveGuard(address guard);
     event ScopeGuardSetup(address indexed initiator, address indexed owner);
 
     constructor(address _owner) {
@@ -22,6 +94,27 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         setUp(initializeParams);
     }
 
+    // Delay in seconds between queueing a change and executing it. Without a
+    // delay, the owner calls the setters directly.
+    uint256 public delay;
+    uint256 public changeNonce;
+    // Id of a queued change => timestamp from which it can be executed.
+    mapping(bytes32 => uint256) public changeEta;
+
+    /// @dev Restricts setters to the owner while there is no delay, and to queued changes once there is one.
+    modifier onlyOwnerOrQueued() {
+        checkOwnerOrQueued();
+        _;
+    }
+
+    // Kept out of the modifier so that it is not inlined in every setter.
+    function checkOwnerOrQueued() internal view {
+        if (msg.sender != address(this)) {
+            require(owner() == msg.sender, "Ownable: caller is not the owner");
+            require(delay == 0, "Changes have to be queued");
+        }
+    }
+
     /// @dev Initialize function, will be triggered when a new proxy is deployed
     /// @param initializeParams Parameters of initialization encoded
     function setUp(bytes memory initializeParams) public override {
@@ -33,33 +126,343 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         emit ScopeGuardSetup(msg.sender, _owner);
     }
 
+    enum ParameterType {
+        Static,
+        Dynamic
+    }
+
+    enum Comparison {
+        EqualTo,
+        GreaterThan,
+        LessThan,
+        OneOf
+    }
+
+    enum AllowanceKind {
+        // Value sent to the target.
+        Value,
+        // Tokens moved by ERC20 transfer and transferFrom calls to the target.
+        Token
+    }
+
+    struct Allowance {
+        // Maximum spent per period, no allowance if 0.
+        uint256 amount;
+        // Length of a period in seconds, the allowance never resets if 0.
+        uint64 period;
+    }
+
+    struct Spending {
+        uint256 spent;
+        uint64 periodStart;
+    }
+
+    // Spending recorded by checkTransaction, committed by checkAfterExecution.
+    struct PendingSpend {
+        address target;
+        uint256 value;
+        uint256 tokens;
+    }
+
+    struct Parameter {
+        ParameterType paramType;
+        Comparison comparison;
+        bytes32[] compValues;
+    }
+
+    // Limits on the gas refunds paid by the avatar in a gas token.
+    struct RefundRule {
+        // Refunds in the gas token are not allowed if 0.
+        uint256 maxGasPrice;
+        uint256 maxBaseGas;
+    }
+
+    // Value of a flag of a target, for batch setters.
+    struct TargetFlag {
+        address target;
+        bool value;
+    }
+
     struct Target {
         bool allowed;
         bool scoped;
         bool delegateCallAllowed;
         bool fallbackAllowed;
         bool valueAllowed;
+        // Every function but the denied ones can be called if set, on top
+        // of the allowed functions if the target is also scoped.
+        bool denyList;
+        // Maximum value per transaction, no maximum if 0.
+        uint256 maxValue;
         mapping(bytes4 => bool) allowedFunctions;
+        mapping(bytes4 => bool) deniedFunctions;
+        mapping(bytes4 => uint256) maxValueOnFunction;
+        // Bitmap of the calldata words with a condition, per function.
+        mapping(bytes4 => uint256) scopedParameters;
+        mapping(bytes4 => mapping(uint256 => Parameter)) parameters;
     }
 
     mapping(address => Target) public allowedTargets;
+    // The allowed addresses in allowedTargets and the allowed function
+    // signatures of each, for listing.
+    EnumerableSet.AddressSet internal allowedTargetSet;
+    mapping(address => EnumerableSet.Bytes32Set) internal allowedFunctionSets;
+
+    // Narrows the permissions of the targets for a sender, on top of the
+    // permissions that apply to everyone.
+    struct SenderTarget {
+        bool allowed;
+        bool scoped;
+        mapping(bytes4 => bool) allowedFunctions;
+    }
+
+    mapping(address => bool) public restrictedSenders;
+    mapping(address => mapping(address => SenderTarget)) internal senderTargets;
+    // Once a sender is restricted, only restricted senders and the allowed
+    // executors can execute transactions, so that a restricted sender cannot
+    // have its transactions submitted by another account.
+    uint256 public restrictedSenderCount;
+    mapping(address => bool) public allowedExecutors;
+
+    bytes4 internal constant TRANSFER = 0xa9059cbb;
+    bytes4 internal constant TRANSFER_FROM = 0x23b872dd;
+
+    mapping(address => mapping(AllowanceKind => Allowance)) internal allowances;
+    // Avatar => target => kind => spending, so that only the avatar itself
+    // can spend its allowances.
+    mapping(address => mapping(address => mapping(AllowanceKind => Spending)))
+        internal spendings;
+    // A transaction batched through MultiSend can hold several spends.
+    mapping(address => PendingSpend[]) internal pendingSpends;
+
+    bytes4 internal constant MULTI_SEND = 0x8d80ff0a;
+
+    // Delegate calls to this address are checked as the MultiSend
+    // transactions they batch, instead of as a delegate call.
+    address public multiSend;
+
+    // Account that can pause the guard, besides the owner.
+    address public guardian;
+    // While paused, only transactions to recovery targets go through.
+    bool public paused;
+    mapping(address => bool) public recoveryTargets;
+
+    // Gas token, zero address for ETH => limits on refunds paid in it.
+    mapping(address => RefundRule) public refundRules;
+    // Zero address to refund whoever executes the transaction.
+    mapping(address => bool) public refundReceivers;
+
+    // Guards checking every transaction after this one, in order.
+    address[] internal guards;
+
+    /// @dev Sets the delay between queueing a change and executing it.
+    /// @notice Only callable by owner, through a queued change while there is a delay.
+    /// @param _delay Delay in seconds, 0 to let the owner call the setters directly.
+    function setDelay(uint256 _delay) public onlyOwnerOrQueued {
+        delay = _delay;
+        emit SetDelay(delay);
+    }
+
+    /// @dev Queues a call to one of the setters of the guard, to be executed once the delay has passed.
+    /// @notice Only callable by owner.
+    /// @param data Calldata of the setter call.
+    /// @return id Id of the queued change.
+    function queueChange(bytes calldata data)
+        public
+        onlyOwner
+        returns (bytes32 id)
+    {
+        uint256 nonce = changeNonce++;
+        id = keccak256(abi.encode(data, nonce));
+        uint256 eta = block.timestamp + delay;
+        changeEta[id] = eta;
+        emit ChangeQueued(id, nonce, data, eta);
+    }
+
+    /// @dev Executes a queued change once the delay has passed.
+    /// @notice Only callable by owner.
+    /// @param data Calldata of the setter call, as queued.
+    /// @param nonce Nonce the change was queued with.
+    function executeChange(bytes calldata data, uint256 nonce)
+        public
+        onlyOwner
+    {
+        bytes32 id = keccak256(abi.encode(data, nonce));
+        uint256 eta = changeEta[id];
+        require(eta != 0, "Change is not queued");
+        require(block.timestamp >= eta, "Change is not due yet");
+        delete changeEta[id];
+        forward(address(this), data);
+        emit ChangeExecuted(id);
+    }
+
+    /// @dev Cancels a queued change.
+    /// @notice Only callable by owner.
+    /// @param id Id of the queued change.
+    function cancelChange(bytes32 id) public onlyOwner {
+        require(changeEta[id] != 0, "Change is not queued");
+        delete changeEta[id];
+        emit ChangeCancelled(id);
+    }
+
+    /// @dev Adds a guard to be called after this one by checkTransaction and checkAfterExecution.
+    /// @notice Only callable by owner. The added guard sees this guard as the caller, not the avatar.
+    /// @param guard Address of a contract implementing the guard interface through ERC165.
+    function addGuard(address guard) public onlyOwnerOrQueued {
+        require(guard != address(this), "Cannot add the guard to itself");
+        for (uint256 i = 0; i < guards.length; i++) {
+            require(guards[i] != guard, "Guard already added");
+        }
+        require(supportsGuard(guard), "Guard does not implement IGuard");
+        guards.push(guard);
+        emit AddGuard(guard);
+    }
+
+    /// @dev Returns whether a contract reports supporting the guard interface through ERC165.
+    function supportsGuard(address guard) internal view returns (bool) {
+        if (guard.code.length == 0) {
+            return false;
+        }
+        try IERC165(guard).supportsInterface(type(IGuard).interfaceId) returns (
+            bool supported
+        ) {
+            return supported;
+        } catch {
+            return false;
+        }
+    }
+
+    /// @dev Removes a guard, keeping the order of the others.
+    /// @notice Only callable by owner.
+    /// @param guard Address of the guard to be removed.
+    function removeGuard(address guard) public onlyOwnerOrQueued {
+        uint256 i = 0;
+        while (i < guards.length && guards[i] != guard) {
+            i++;
+        }
+        require(i < guards.length, "Guard not added");
+        for (; i < guards.length - 1; i++) {
+            guards[i] = guards[i + 1];
+        }
+        guards.pop();
+        emit RemoveGuard(guard);
+    }
+
+    /// @dev Returns the guards called after this one, in order.
+    function getGuards() public view returns (address[] memory) {
+        return guards;
+    }
+
+    /// @dev Sets the account that can pause the guard.
+    /// @notice Only callable by owner.
+    /// @param _guardian Address of the guardian, zero address for none.
+    function setGuardian(address _guardian) public onlyOwnerOrQueued {
+        guardian = _guardian;
+        emit SetGuardian(guardian);
+    }
+
+    /// @dev Set whether or not transactions to an address go through while the guard is paused.
+    /// @notice Only callable by owner. Transactions to a recovery target still have to pass the other checks.
+    /// @param target Address to be added to/removed from the recovery targets.
+    /// @param allow Bool to add (true) or remove (false) target.
+    function setRecoveryTarget(address target, bool allow)
+        public
+        onlyOwnerOrQueued
+    {
+        recoveryTargets[target] = allow;
+        emit SetRecoveryTarget(target, recoveryTargets[target]);
+    }
+
+    /// @dev Pauses the guard, blocking every transaction but those to recovery targets.
+    /// @notice Only callable by the guardian or owner, without delay.
+    function pause() public {
+        require(
+            msg.sender == guardian || msg.sender == owner(),
+            "Caller is not the guardian or owner"
+        );
+        require(!paused, "Guard is paused");
+        paused = true;
+        emit Paused(msg.sender);
+    }
+
+    /// @dev Unpauses the guard.
+    /// @notice Only callable by owner, without delay as it only restores the permissions in place.
+    function unpause() public onlyOwner {
+        require(paused, "Guard is not paused");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /// @dev Sets the limits on the gas refunds paid in a gas token, by transactions with a gas price.
+    /// @notice Only callable by owner.
+    /// @param gasToken Token the refunds are paid in, zero address for ETH.
+    /// @param maxGasPrice Maximum gas price, 0 to disallow refunds in gasToken.
+    /// @param maxBaseGas Maximum base gas, which is refunded on top of the gas used.
+    function setRefundRule(
+        address gasToken,
+        uint256 maxGasPrice,
+        uint256 maxBaseGas
+    ) public onlyOwnerOrQueued {
+        refundRules[gasToken] = RefundRule(maxGasPrice, maxBaseGas);
+        emit SetRefundRule(gasToken, maxGasPrice, maxBaseGas);
+    }
+
+    /// @dev Set whether or not gas refunds can be paid to an address.
+    /// @notice Only callable by owner.
+    /// @param receiver Address to be allowed/disallowed, zero address for whoever executes the transaction.
+    /// @param allow Bool to allow (true) or disallow (false) refunds to receiver.
+    function setRefundReceiverAllowed(address receiver, bool allow)
+        public
+        onlyOwnerOrQueued
+    {
+        refundReceivers[receiver] = allow;
+        emit SetRefundReceiverAllowed(receiver, refundReceivers[receiver]);
+    }
 
     /// @dev Set whether or not calls can be made to an address.
     /// @notice Only callable by owner.
     /// @param target Address to be allowed/disallowed.
     /// @param allow Bool to allow (true) or disallow (false) calls to target.
-    function setTargetAllowed(address target, bool allow) public onlyOwner {
+    function setTargetAllowed(address target, bool allow)
+        public
+        onlyOwnerOrQueued
+    {
         allowedTargets[target].allowed = allow;
+        if (allow) {
+            allowedTargetSet.add(target);
+        } else {
+            allowedTargetSet.remove(target);
+        }
         emit SetTargetAllowed(target, allowedTargets[target].allowed);
     }
 
+    /// @dev Set whether or not calls can be made to each of a list of addresses.
+    /// @notice Only callable by owner. Emits SetTargetAllowed for each target.
+    /// @param targets Addresses to be allowed/disallowed, with true to allow and false to disallow calls to them.
+    function setTargetsAllowed(TargetFlag[] calldata targets)
+        public
+        onlyOwnerOrQueued
+    {
+        for (uint256 i = 0; i < targets.length; i++) {
+            setTargetAllowed(targets[i].target, targets[i].value);
+        }
+    }
+
+    /// @dev Sets the MultiSend contract whose batched transactions are checked one by one.
+    /// @notice Only callable by owner. Delegate calls to it no longer need to be allowed and each of the transactions they batch has to be allowed instead.
+    /// @param _multiSend Address of a MultiSend or MultiSendCallOnly contract, zero address to check delegate calls to it as any other.
+    function setMultiSend(address _multiSend) public onlyOwnerOrQueued {
+        multiSend = _multiSend;
+        emit SetMultiSend(multiSend);
+    }
+
     /// @dev Set whether or not delegate calls can be made to a target.
     /// @notice Only callable by owner.
     /// @param target Address to which delegate calls should be allowed/disallowed.
     /// @param allow Bool to allow (true) or disallow (false) delegate calls to target.
     function setDelegateCallAllowedOnTarget(address target, bool allow)
         public
-        onlyOwner
+        onlyOwnerOrQueued
     {
         allowedTargets[target].delegateCallAllowed = allow;
         emit SetDelegateCallAllowedOnTarget(
@@ -72,18 +475,30 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
     /// @notice Only callable by owner.
     /// @param target Address to be scoped/unscoped.
     /// @param scoped Bool to scope (true) or unscope (false) function calls on target.
-    function setScoped(address target, bool scoped) public onlyOwner {
+    function setScoped(address target, bool scoped) public onlyOwnerOrQueued {
         allowedTargets[target].scoped = scoped;
         emit SetTargetScoped(target, allowedTargets[target].scoped);
     }
 
+    /// @dev Sets whether or not calls to each of a list of addresses should be scoped to specific function signatures.
+    /// @notice Only callable by owner. Emits SetTargetScoped for each target.
+    /// @param targets Addresses to be scoped/unscoped, with true to scope and false to unscope function calls on them.
+    function setTargetsScoped(TargetFlag[] calldata targets)
+        public
+        onlyOwnerOrQueued
+    {
+        for (uint256 i = 0; i < targets.length; i++) {
+            setScoped(targets[i].target, targets[i].value);
+        }
+    }
+
     /// @dev Sets whether or not a target can be sent to (incluces fallback/receive functions).
     /// @notice Only callable by owner.
     /// @param target Address to be allow/disallow sends to.
     /// @param allow Bool to allow (true) or disallow (false) sends on target.
     function setFallbackAllowedOnTarget(address target, bool allow)
         public
-        onlyOwner
+        onlyOwnerOrQueued
     {
         allowedTargets[target].fallbackAllowed = allow;
         emit SetFallbackAllowedOnTarget(
@@ -98,7 +513,7 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
     /// @param allow Bool to allow (true) or disallow (false) sends on target.
     function setValueAllowedOnTarget(address target, bool allow)
         public
-        onlyOwner
+        onlyOwnerOrQueued
     {
         allowedTargets[target].valueAllowed = allow;
         emit SetValueAllowedOnTarget(
@@ -107,6 +522,66 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         );
     }
 
+    /// @dev Sets the maximum value that can be sent to a target in a single transaction.
+    /// @notice Only callable by owner. Sending value still needs to be allowed with setValueAllowedOnTarget.
+    /// @param target Address on which the value should be capped.
+    /// @param maxValue Maximum value per transaction, 0 to remove the cap.
+    function setMaxValueOnTarget(address target, uint256 maxValue)
+        public
+        onlyOwnerOrQueued
+    {
+        allowedTargets[target].maxValue = maxValue;
+        emit SetMaxValueOnTarget(target, allowedTargets[target].maxValue);
+    }
+
+    /// @dev Sets the maximum value that can be sent along with calls to a function of a target in a single transaction.
+    /// @notice Only callable by owner. Applies on top of the maximum value of the target.
+    /// @param target Address on which the value should be capped.
+    /// @param functionSig Function signature on which the value should be capped.
+    /// @param maxValue Maximum value per transaction, 0 to remove the cap.
+    function setMaxValueOnFunction(
+        address target,
+        bytes4 functionSig,
+        uint256 maxValue
+    ) public onlyOwnerOrQueued {
+        allowedTargets[target].maxValueOnFunction[functionSig] = maxValue;
+        emit SetMaxValueOnFunction(
+            target,
+            functionSig,
+            allowedTargets[target].maxValueOnFunction[functionSig]
+        );
+    }
+
+    /// @dev Sets an allowance on the value sent to, or tokens transferred by, a target within a period.
+    /// @notice Only callable by owner. Allowances are tracked per avatar.
+    /// @param target Address on which the allowance should be set.
+    /// @param kind Value for value sent to the target, Token for ERC20 transfer and transferFrom calls to the target.
+    /// @param amount Maximum amount per period, 0 to remove the allowance.
+    /// @param period Length of a period in seconds, 0 for an allowance that never resets.
+    function setAllowance(
+        address target,
+        AllowanceKind kind,
+        uint256 amount,
+        uint64 period
+    ) public onlyOwnerOrQueued {
+        allowances[target][kind] = Allowance(amount, period);
+        emit SetAllowance(target, kind, amount, period);
+    }
+
+    /// @dev Resets what an avatar has spent of an allowance.
+    /// @notice Only callable by owner.
+    /// @param avatar Address of the avatar whose spending should be reset.
+    /// @param target Address of the allowance.
+    /// @param kind Kind of the allowance.
+    function resetAllowance(
+        address avatar,
+        address target,
+        AllowanceKind kind
+    ) public onlyOwnerOrQueued {
+        delete spendings[avatar][target][kind];
+        emit ResetAllowance(avatar, target, kind);
+    }
+
     /// @dev Sets whether or not a specific function signature should be allowed on a scoped target.
     /// @notice Only callable by owner.
     /// @param target Scoped address on which a function signature should be allowed/disallowed.
@@ -116,8 +591,13 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         address target,
         bytes4 functionSig,
         bool allow
-    ) public onlyOwner {
+    ) public onlyOwnerOrQueued {
         allowedTargets[target].allowedFunctions[functionSig] = allow;
+        if (allow) {
+            allowedFunctionSets[target].add(functionSig);
+        } else {
+            allowedFunctionSets[target].remove(functionSig);
+        }
         emit SetFunctionAllowedOnTarget(
             target,
             functionSig,
@@ -125,6 +605,203 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         );
     }
 
+    /// @dev Sets whether or not calls to an address should be checked against a list of denied function signatures.
+    /// @notice Only callable by owner. Fallback calls to a target with a deny list are only allowed if fallbackAllowed is set.
+    /// @param target Address on which the deny list should be enabled/disabled.
+    /// @param denyList Bool to enable (true) or disable (false) the deny list of target.
+    function setDenyList(address target, bool denyList)
+        public
+        onlyOwnerOrQueued
+    {
+        allowedTargets[target].denyList = denyList;
+        emit SetTargetDenyList(target, allowedTargets[target].denyList);
+    }
+
+    /// @dev Sets whether or not a specific function signature should be denied on a target with a deny list.
+    /// @notice Only callable by owner.
+    /// @param target Address on which a function signature should be denied/undenied.
+    /// @param functionSig Function signature to be denied/undenied.
+    /// @param deny Bool to deny (true) or undeny (false) calls to a function signature on target.
+    function setDeniedFunction(
+        address target,
+        bytes4 functionSig,
+        bool deny
+    ) public onlyOwnerOrQueued {
+        allowedTargets[target].deniedFunctions[functionSig] = deny;
+        emit SetFunctionDeniedOnTarget(
+            target,
+            functionSig,
+            allowedTargets[target].deniedFunctions[functionSig]
+        );
+    }
+
+    /// @dev Sets whether or not a sender is restricted to the targets and functions allowed for it.
+    /// @notice Only callable by owner. The sender is the account executing the transaction on the avatar.
+    /// @param sender Address to be restricted/unrestricted.
+    /// @param restricted Bool to restrict (true) or unrestrict (false) the sender.
+    function setSenderRestricted(address sender, bool restricted)
+        public
+        onlyOwnerOrQueued
+    {
+        if (restrictedSenders[sender] != restricted) {
+            if (restricted) {
+                restrictedSenderCount++;
+            } else {
+                restrictedSenderCount--;
+            }
+        }
+        restrictedSenders[sender] = restricted;
+        emit SetSenderRestricted(sender, restrictedSenders[sender]);
+    }
+
+    /// @dev Sets whether or not an unrestricted account can execute transactions while senders are restricted.
+    /// @notice Only callable by owner. Allowed executors get the permissions that apply to everyone.
+    /// @param executor Address to be allowed/disallowed.
+    /// @param allow Bool to allow (true) or disallow (false) the executor.
+    function setExecutorAllowed(address executor, bool allow)
+        public
+        onlyOwnerOrQueued
+    {
+        allowedExecutors[executor] = allow;
+        emit SetExecutorAllowed(executor, allowedExecutors[executor]);
+    }
+
+    /// @dev Sets whether or not a restricted sender can make calls to an address.
+    /// @notice Only callable by owner. The target also has to be allowed for everyone.
+    /// @param sender Restricted sender for which the target should be allowed/disallowed.
+    /// @param target Address to be allowed/disallowed.
+    /// @param allow Bool to allow (true) or disallow (false) calls to target.
+    function setTargetAllowedForSender(
+        address sender,
+        address target,
+        bool allow
+    ) public onlyOwnerOrQueued {
+        senderTargets[sender][target].allowed = allow;
+        emit SetTargetAllowedForSender(
+            sender,
+            target,
+            senderTargets[sender][target].allowed
+        );
+    }
+
+    /// @dev Sets whether or not the calls of a restricted sender to an address should be scoped to specific function signatures.
+    /// @notice Only callable by owner.
+    /// @param sender Restricted sender for which the target should be scoped/unscoped.
+    /// @param target Address to be scoped/unscoped.
+    /// @param scoped Bool to scope (true) or unscope (false) function calls on target.
+    function setScopedForSender(
+        address sender,
+        address target,
+        bool scoped
+    ) public onlyOwnerOrQueued {
+        senderTargets[sender][target].scoped = scoped;
+        emit SetTargetScopedForSender(
+            sender,
+            target,
+            senderTargets[sender][target].scoped
+        );
+    }
+
+    /// @dev Sets whether or not a restricted sender can call a specific function signature on a target scoped for it.
+    /// @notice Only callable by owner. The function also has to be allowed for everyone if the target is scoped.
+    /// @param sender Restricted sender for which the function should be allowed/disallowed.
+    /// @param target Address on which a function signature should be allowed/disallowed.
+    /// @param functionSig Function signature to be allowed/disallowed.
+    /// @param allow Bool to allow (true) or disallow (false) calls to a function signature on target.
+    function setAllowedFunctionForSender(
+        address sender,
+        address target,
+        bytes4 functionSig,
+        bool allow
+    ) public onlyOwnerOrQueued {
+        senderTargets[sender][target].allowedFunctions[functionSig] = allow;
+        emit SetFunctionAllowedForSender(
+            sender,
+            target,
+            functionSig,
+            senderTargets[sender][target].allowedFunctions[functionSig]
+        );
+    }
+
+    /// @dev Sets whether or not each of a list of function signatures should be allowed on a scoped target.
+    /// @notice Only callable by owner. Emits SetFunctionAllowedOnTarget for each function signature.
+    /// @param target Scoped address on which the function signatures should be allowed/disallowed.
+    /// @param functionSigs Function signatures to be allowed/disallowed.
+    /// @param allow Bool to allow (true) or disallow (false) calls to the function signatures on target.
+    function setAllowedFunctions(
+        address target,
+        bytes4[] calldata functionSigs,
+        bool allow
+    ) public onlyOwnerOrQueued {
+        for (uint256 i = 0; i < functionSigs.length; i++) {
+            setAllowedFunction(target, functionSigs[i], allow);
+        }
+    }
+
+    /// @dev Sets a condition on a parameter of a function, checked on calls to the function when the target is scoped.
+    /// @notice Only callable by owner.
+    /// @param target Scoped address on which the parameter should be checked.
+    /// @param functionSig Function signature of which the parameter should be checked.
+    /// @param index Index of the 32 byte word holding the parameter in the calldata, not counting the function signature.
+    /// @param paramType Static to compare the word itself, Dynamic to compare the keccak256 hash of the bytes or string it points to.
+    /// @param comparison How to compare the parameter with compValues. GreaterThan and LessThan compare as uint256.
+    /// @param compValues Values to compare the parameter with: exactly one, or at least one for OneOf.
+    function setParameterCondition(
+        address target,
+        bytes4 functionSig,
+        uint256 index,
+        ParameterType paramType,
+        Comparison comparison,
+        bytes32[] memory compValues
+    ) public onlyOwnerOrQueued {
+        require(index < 256, "Parameter index out of range");
+        require(
+            paramType == ParameterType.Static ||
+                comparison == Comparison.EqualTo ||
+                comparison == Comparison.OneOf,
+            "Comparison not supported for dynamic parameters"
+        );
+        if (comparison == Comparison.OneOf) {
+            require(compValues.length > 0, "OneOf takes at least one value");
+        } else {
+            require(
+                compValues.length == 1,
+                "Comparison takes exactly one value"
+            );
+        }
+        Parameter storage parameter = allowedTargets[target].parameters[
+            functionSig
+        ][index];
+        parameter.paramType = paramType;
+        parameter.comparison = comparison;
+        parameter.compValues = compValues;
+        allowedTargets[target].scopedParameters[functionSig] |= 1 << index;
+        emit SetParameterCondition(
+            target,
+            functionSig,
+            index,
+            paramType,
+            comparison,
+            compValues
+        );
+    }
+
+    /// @dev Removes the condition on a parameter of a function.
+    /// @notice Only callable by owner.
+    /// @param target Scoped address on which the parameter should no longer be checked.
+    /// @param functionSig Function signature of which the parameter should no longer be checked.
+    /// @param index Index of the 32 byte word holding the parameter in the calldata.
+    function removeParameterCondition(
+        address target,
+        bytes4 functionSig,
+        uint256 index
+    ) public onlyOwnerOrQueued {
+        require(index < 256, "Parameter index out of range");
+        delete allowedTargets[target].parameters[functionSig][index];
+        allowedTargets[target].scopedParameters[functionSig] &= ~(1 << index);
+        emit RemoveParameterCondition(target, functionSig, index);
+    }
+
     /// @dev Returns bool to indicate if an address is an allowed target.
     /// @param target Address to check.
     function isAllowedTarget(address target) public view returns (bool) {
@@ -137,6 +814,12 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         return (allowedTargets[target].scoped);
     }
 
+    /// @dev Returns bool to indicate if calls to an address are checked against its deny list.
+    /// @param target Address to check.
+    function isDenyList(address target) public view returns (bool) {
+        return (allowedTargets[target].denyList);
+    }
+
     /// @dev Returns bool to indicate if fallback is allowed to a target.
     /// @param target Address to check.
     function isfallbackAllowed(address target) public view returns (bool) {
@@ -149,6 +832,153 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         return (allowedTargets[target].valueAllowed);
     }
 
+    /// @dev Returns the maximum value per transaction to a target, 0 if there is none.
+    /// @param target Address to check.
+    function getMaxValue(address target) public view returns (uint256) {
+        return (allowedTargets[target].maxValue);
+    }
+
+    /// @dev Returns the maximum value per transaction to a function of a target, 0 if there is none.
+    /// @param target Address to check.
+    /// @param functionSig Signature to check.
+    function getMaxValueOnFunction(address target, bytes4 functionSig)
+        public
+        view
+        returns (uint256)
+    {
+        return (allowedTargets[target].maxValueOnFunction[functionSig]);
+    }
+
+    /// @dev Returns the allowance on a target.
+    /// @param target Address to check.
+    /// @param kind Kind of the allowance.
+    function getAllowance(address target, AllowanceKind kind)
+        public
+        view
+        returns (uint256 amount, uint64 period)
+    {
+        Allowance storage allowance = allowances[target][kind];
+        return (allowance.amount, allowance.period);
+    }
+
+    /// @dev Returns what an avatar has spent of an allowance in the current period.
+    /// @param avatar Address of the avatar.
+    /// @param target Address to check.
+    /// @param kind Kind of the allowance.
+    /// @return spent Amount spent in the current period.
+    /// @return periodStart Timestamp at which the current period started, 0 if nothing was spent.
+    function getSpending(
+        address avatar,
+        address target,
+        AllowanceKind kind
+    ) public view returns (uint256 spent, uint64 periodStart) {
+        return currentSpending(avatar, target, kind);
+    }
+
+    /// @dev Returns bool to indicate if a sender is restricted.
+    /// @param sender Address to check.
+    function isRestrictedSender(address sender) public view returns (bool) {
+        return (restrictedSenders[sender]);
+    }
+
+    /// @dev Returns bool to indicate if an account can execute transactions while senders are restricted.
+    /// @param executor Address to check.
+    function isAllowedExecutor(address executor) public view returns (bool) {
+        return (allowedExecutors[executor]);
+    }
+
+    /// @dev Returns bool to indicate if an address is an allowed target for a restricted sender.
+    /// @param sender Restricted sender to check.
+    /// @param target Address to check.
+    function isAllowedTargetForSender(address sender, address target)
+        public
+        view
+        returns (bool)
+    {
+        return (senderTargets[sender][target].allowed);
+    }
+
+    /// @dev Returns bool to indicate if an address is scoped for a restricted sender.
+    /// @param sender Restricted sender to check.
+    /// @param target Address to check.
+    function isScopedForSender(address sender, address target)
+        public
+        view
+        returns (bool)
+    {
+        return (senderTargets[sender][target].scoped);
+    }
+
+    /// @dev Returns bool to indicate if a function signature is allowed on a target for a restricted sender.
+    /// @param sender Restricted sender to check.
+    /// @param target Address to check.
+    /// @param functionSig Signature to check.
+    function isAllowedFunctionForSender(
+        address sender,
+        address target,
+        bytes4 functionSig
+    ) public view returns (bool) {
+        return (senderTargets[sender][target].allowedFunctions[functionSig]);
+    }
+
+    /// @dev Returns the number of allowed target addresses.
+    function getAllowedTargetCount() public view returns (uint256) {
+        return allowedTargetSet.length();
+    }
+
+    /// @dev Returns a page of the allowed target addresses, in no particular order.
+    /// @param start Index of the first address to return.
+    /// @param count Maximum number of addresses to return.
+    function getAllowedTargets(uint256 start, uint256 count)
+        public
+        view
+        returns (address[] memory targets)
+    {
+        targets = new address[](
+            pageSize(allowedTargetSet.length(), start, count)
+        );
+        for (uint256 i = 0; i < targets.length; i++) {
+            targets[i] = allowedTargetSet.at(start + i);
+        }
+    }
+
+    /// @dev Returns the number of allowed function signatures on a target address.
+    /// @param target Address to check.
+    function getAllowedFunctionCount(address target)
+        public
+        view
+        returns (uint256)
+    {
+        return allowedFunctionSets[target].length();
+    }
+
+    /// @dev Returns a page of the allowed function signatures on a target address, in no particular order.
+    /// @param target Address to check.
+    /// @param start Index of the first function signature to return.
+    /// @param count Maximum number of function signatures to return.
+    function getAllowedFunctions(
+        address target,
+        uint256 start,
+        uint256 count
+    ) public view returns (bytes4[] memory functionSigs) {
+        EnumerableSet.Bytes32Set storage set = allowedFunctionSets[target];
+        functionSigs = new bytes4[](pageSize(set.length(), start, count));
+        for (uint256 i = 0; i < functionSigs.length; i++) {
+            functionSigs[i] = bytes4(set.at(start + i));
+        }
+    }
+
+    function pageSize(
+        uint256 length,
+        uint256 start,
+        uint256 count
+    ) internal pure returns (uint256) {
+        if (start >= length) {
+            return 0;
+        }
+        return length - start < count ? length - start : count;
+    }
+
     /// @dev Returns bool to indicate if a function signature is allowed for a target address.
     /// @param target Address to check.
     /// @param functionSig Signature to check.
@@ -160,6 +990,60 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         return (allowedTargets[target].allowedFunctions[functionSig]);
     }
 
+    /// @dev Returns bool to indicate if a function signature is denied for a target address.
+    /// @param target Address to check.
+    /// @param functionSig Signature to check.
+    function isDeniedFunction(address target, bytes4 functionSig)
+        public
+        view
+        returns (bool)
+    {
+        return (allowedTargets[target].deniedFunctions[functionSig]);
+    }
+
+    /// @dev Returns bool to indicate if a parameter of a function has a condition.
+    /// @param target Address to check.
+    /// @param functionSig Signature to check.
+    /// @param index Index of the 32 byte word holding the parameter in the calldata.
+    function isParameterScoped(
+        address target,
+        bytes4 functionSig,
+        uint256 index
+    ) public view returns (bool) {
+        return
+            index < 256 &&
+            (allowedTargets[target].scopedParameters[functionSig] &
+                (1 << index)) !=
+            0;
+    }
+
+    /// @dev Returns the condition on a parameter of a function.
+    /// @param target Address to check.
+    /// @param functionSig Signature to check.
+    /// @param index Index of the 32 byte word holding the parameter in the calldata.
+    function getParameterCondition(
+        address target,
+        bytes4 functionSig,
+        uint256 index
+    )
+        public
+        view
+        returns (
+            ParameterType paramType,
+            Comparison comparison,
+            bytes32[] memory compValues
+        )
+    {
+        Parameter storage parameter = allowedTargets[target].parameters[
+            functionSig
+        ][index];
+        return (
+            parameter.paramType,
+            parameter.comparison,
+            parameter.compValues
+        );
+    }
+
     /// @dev Returns bool to indicate if delegate calls are allowed to a target address.
     /// @param target Address to check.
     function isAllowedToDelegateCall(address target)
@@ -182,14 +1066,84 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
         bytes memory data,
         Enum.Operation operation,
         uint256,
-        uint256,
-        uint256,
-        address,
-        // solhint-disallow-next-line no-unused-vars
-        address payable,
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address payable refundReceiver,
         bytes memory,
-        address
-    ) external view override {
+        address msgSender
+    ) external override {
+        if (gasPrice > 0) {
+            checkRefund(baseGas, gasPrice, gasToken, refundReceiver);
+        }
+        uint256 pending = pendingSpends[msg.sender].length;
+        checkCall(to, value, data, operation, msgSender);
+        require(
+            pending == 0 || pendingSpends[msg.sender].length == pending,
+            "Allowance spend already pending"
+        );
+        callGuards();
+    }
+
+    /// @dev Forwards the call to this guard to each of the added guards, in order.
+    function callGuards() internal {
+        for (uint256 i = 0; i < guards.length; i++) {
+            forward(guards[i], msg.data);
+        }
+    }
+
+    /// @dev Calls a contract, reverting with its revert data if it reverts.
+    function forward(address target, bytes memory data) internal {
+        // solhint-disable-next-line avoid-low-level-calls
+        (bool success, bytes memory returnData) = target.call(data);
+        if (!success) {
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                revert(add(returnData, 32), mload(returnData))
+            }
+        }
+    }
+
+    /// @dev Checks the gas refund of a transaction against the rule of its gas token.
+    function checkRefund(
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address refundReceiver
+    ) internal view {
+        RefundRule storage rule = refundRules[gasToken];
+        require(rule.maxGasPrice != 0, "Refunds not allowed in this gas token");
+        require(
+            gasPrice <= rule.maxGasPrice,
+            "Gas price exceeds the maximum for this gas token"
+        );
+        require(
+            baseGas <= rule.maxBaseGas,
+            "Base gas exceeds the maximum for this gas token"
+        );
+        require(
+            refundReceivers[refundReceiver],
+            "Refund receiver is not allowed"
+        );
+    }
+
+    /// @dev Checks a call or delegate call, unpacking the transactions batched through the MultiSend contract.
+    function checkCall(
+        address to,
+        uint256 value,
+        bytes memory data,
+        Enum.Operation operation,
+        address msgSender
+    ) internal {
+        if (
+            operation == Enum.Operation.DelegateCall &&
+            to == multiSend &&
+            to != address(0)
+        ) {
+            checkMultiSend(data, msgSender);
+            return;
+        }
+        require(!paused || recoveryTargets[to], "Guard is paused");
         require(
             operation != Enum.Operation.DelegateCall ||
                 allowedTargets[to].delegateCallAllowed,
@@ -201,6 +1155,19 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
                 allowedTargets[to].valueAllowed,
                 "Cannot send ETH to this target"
             );
+            require(
+                allowedTargets[to].maxValue == 0 ||
+                    value <= allowedTargets[to].maxValue,
+                "Value exceeds the maximum for this target"
+            );
+            if (data.length >= 4) {
+                uint256 maxValueOnFunction = allowedTargets[to]
+                    .maxValueOnFunction[bytes4(data)];
+                require(
+                    maxValueOnFunction == 0 || value <= maxValueOnFunction,
+                    "Value exceeds the maximum for this function"
+                );
+            }
         }
         if (data.length >= 4) {
             require(
@@ -208,15 +1175,370 @@ contract ScopeGuard is FactoryFriendly, BaseGuard {
                     allowedTargets[to].allowedFunctions[bytes4(data)],
                 "Target function is not allowed"
             );
+            require(
+                !allowedTargets[to].denyList ||
+                    !allowedTargets[to].deniedFunctions[bytes4(data)],
+                "Target function is denied"
+            );
+            if (allowedTargets[to].scoped) {
+                checkParameters(to, bytes4(data), data);
+            }
         } else {
             require(data.length == 0, "Function signature too short");
             require(
-                !allowedTargets[to].scoped ||
+                !(allowedTargets[to].scoped || allowedTargets[to].denyList) ||
                     allowedTargets[to].fallbackAllowed,
                 "Fallback not allowed for this address"
             );
         }
+        if (restrictedSenders[msgSender]) {
+            checkSender(msgSender, to, data);
+        } else {
+            require(
+                restrictedSenderCount == 0 || allowedExecutors[msgSender],
+                "Sender is not allowed"
+            );
+        }
+        if (operation == Enum.Operation.Call) {
+            recordSpend(to, value, data);
+        }
+    }
+
+    /// @dev Checks each of the transactions batched by a multiSend call.
+    function checkMultiSend(bytes memory data, address msgSender) internal {
+        require(
+            data.length >= 4 && bytes4(data) == MULTI_SEND,
+            "Unsupported MultiSend function"
+        );
+        // The transactions are packed as bytes, the only argument of multiSend.
+        require(data.length >= 36, "Invalid MultiSend transactions");
+        uint256 offset = uint256(wordAt(data, 4));
+        require(offset <= data.length - 36, "Invalid MultiSend transactions");
+        uint256 start = 4 + offset + 32;
+        uint256 length = uint256(wordAt(data, start - 32));
+        require(
+            length <= data.length - start,
+            "Invalid MultiSend transactions"
+        );
+        uint256 end = start + length;
+        uint256 i = start;
+        while (i < end) {
+            (
+                Enum.Operation operation,
+                address to,
+                uint256 value,
+                bytes memory transactionData
+            ) = unpackTransaction(data, i, end);
+            checkCall(to, value, transactionData, operation, msgSender);
+            i += 85 + transactionData.length;
+        }
+    }
+
+    function wordAt(bytes memory data, uint256 position)
+        internal
+        pure
+        returns (bytes32 word)
+    {
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            word := mload(add(add(data, 32), position))
+        }
+    }
+
+    /// @dev Unpacks the MultiSend transaction starting at index i of data: operation (1 byte), to (20 bytes), value (32 bytes), data length (32 bytes) and data.
+    function unpackTransaction(
+        bytes memory data,
+        uint256 i,
+        uint256 end
+    )
+        internal
+        pure
+        returns (
+            Enum.Operation operation,
+            address to,
+            uint256 value,
+            bytes memory transactionData
+        )
+    {
+        require(end - i >= 85, "Invalid MultiSend transactions");
+        uint8 op;
+        uint256 length;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            let p := add(add(data, 32), i)
+            op := shr(0xf8, mload(p))
+            to := shr(0x60, mload(add(p, 0x01)))
+            value := mload(add(p, 0x15))
+            length := mload(add(p, 0x35))
+        }
+        require(op <= 1, "Invalid MultiSend transactions");
+        require(end - i - 85 >= length, "Invalid MultiSend transactions");
+        transactionData = new bytes(length);
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            let src := add(add(add(data, 32), i), 0x55)
+            let dst := add(transactionData, 32)
+            for {
+                let j := 0
+            } lt(j, length) {
+                j := add(j, 32)
+            } {
+                mstore(add(dst, j), mload(add(src, j)))
+            }
+        }
+        operation = Enum.Operation(op);
     }
 
-    function checkAfterExecution(bytes32, bool) external view override {}
+    /// @dev Checks a transaction against the targets and functions allowed for a restricted sender.
+    function checkSender(
+        address sender,
+        address to,
+        bytes memory data
+    ) internal view {
+        SenderTarget storage senderTarget = senderTargets[sender][to];
+        require(
+            senderTarget.allowed,
+            "Target address is not allowed for this sender"
+        );
+        if (!senderTarget.scoped) {
+            return;
+        }
+        if (data.length >= 4) {
+            require(
+                senderTarget.allowedFunctions[bytes4(data)],
+                "Target function is not allowed for this sender"
+            );
+        } else {
+            require(data.length == 0, "Function signature too short");
+            require(
+                allowedTargets[to].fallbackAllowed,
+                "Fallback not allowed for this address"
+            );
+        }
+    }
+
+    function checkAfterExecution(bytes32, bool success) external override {
+        PendingSpend[] storage pending = pendingSpends[msg.sender];
+        if (success) {
+            for (uint256 i = 0; i < pending.length; i++) {
+                commitSpend(
+                    pending[i].target,
+                    AllowanceKind.Value,
+                    pending[i].value
+                );
+                commitSpend(
+                    pending[i].target,
+                    AllowanceKind.Token,
+                    pending[i].tokens
+                );
+            }
+        }
+        delete pendingSpends[msg.sender];
+        callGuards();
+    }
+
+    /// @dev Checks a call against the allowances on its target and records what it spends, to be committed once it succeeded.
+    function recordSpend(
+        address to,
+        uint256 value,
+        bytes memory data
+    ) internal {
+        uint256 tokens;
+        if (allowances[to][AllowanceKind.Token].amount != 0) {
+            if (data.length >= 4 && bytes4(data) == TRANSFER) {
+                tokens = uint256(readWord(data, 1));
+            } else if (data.length >= 4 && bytes4(data) == TRANSFER_FROM) {
+                tokens = uint256(readWord(data, 2));
+            }
+        }
+        if (allowances[to][AllowanceKind.Value].amount == 0) {
+            value = 0;
+        }
+        if (value == 0 && tokens == 0) {
+            return;
+        }
+        (uint256 pendingValue, uint256 pendingTokens) = pendingAmounts(to);
+        require(
+            fitsAllowance(to, AllowanceKind.Value, pendingValue, value),
+            "Value allowance exceeded"
+        );
+        require(
+            fitsAllowance(to, AllowanceKind.Token, pendingTokens, tokens),
+            "Token allowance exceeded"
+        );
+        pendingSpends[msg.sender].push(PendingSpend(to, value, tokens));
+    }
+
+    /// @dev Returns the value and tokens pending for a target, spent by earlier transactions of the same MultiSend.
+    function pendingAmounts(address target)
+        internal
+        view
+        returns (uint256 value, uint256 tokens)
+    {
+        PendingSpend[] storage pending = pendingSpends[msg.sender];
+        for (uint256 i = 0; i < pending.length; i++) {
+            if (pending[i].target == target) {
+                value += pending[i].value;
+                tokens += pending[i].tokens;
+            }
+        }
+    }
+
+    function fitsAllowance(
+        address target,
+        AllowanceKind kind,
+        uint256 pending,
+        uint256 amount
+    ) internal view returns (bool) {
+        uint256 remaining = remainingAllowance(target, kind);
+        return pending <= remaining && amount <= remaining - pending;
+    }
+
+    function commitSpend(
+        address target,
+        AllowanceKind kind,
+        uint256 amount
+    ) internal {
+        if (amount == 0) {
+            return;
+        }
+        (uint256 spent, uint64 periodStart) = currentSpending(
+            msg.sender,
+            target,
+            kind
+        );
+        if (periodStart == 0) {
+            periodStart = uint64(block.timestamp);
+        }
+        spendings[msg.sender][target][kind] = Spending(
+            spent + amount,
+            periodStart
+        );
+    }
+
+    /// @dev Returns what is left of an allowance for the calling avatar, the maximum uint256 if there is no allowance.
+    function remainingAllowance(address target, AllowanceKind kind)
+        internal
+        view
+        returns (uint256)
+    {
+        uint256 amount = allowances[target][kind].amount;
+        if (amount == 0) {
+            return type(uint256).max;
+        }
+        (uint256 spent, ) = currentSpending(msg.sender, target, kind);
+        return spent >= amount ? 0 : amount - spent;
+    }
+
+    /// @dev Returns the spending of an avatar in the current period, which starts over once the previous one has elapsed.
+    function currentSpending(
+        address avatar,
+        address target,
+        AllowanceKind kind
+    ) internal view returns (uint256 spent, uint64 periodStart) {
+        Spending storage spending = spendings[avatar][target][kind];
+        uint64 period = allowances[target][kind].period;
+        if (
+            period != 0 &&
+            spending.periodStart != 0 &&
+            block.timestamp >= uint256(spending.periodStart) + period
+        ) {
+            return (0, 0);
+        }
+        return (spending.spent, spending.periodStart);
+    }
+
+    /// @dev Reverts unless the parameters of a call meet the conditions set on its function.
+    function checkParameters(
+        address to,
+        bytes4 functionSig,
+        bytes memory data
+    ) internal view {
+        uint256 scopedParameters = allowedTargets[to].scopedParameters[
+            functionSig
+        ];
+        for (uint256 index = 0; scopedParameters >> index != 0; index++) {
+            if ((scopedParameters & (1 << index)) == 0) {
+                continue;
+            }
+            Parameter storage parameter = allowedTargets[to].parameters[
+                functionSig
+            ][index];
+            bytes32 value = parameter.paramType == ParameterType.Static
+                ? readWord(data, index)
+                : hashDynamic(data, index);
+            require(
+                compare(parameter, value),
+                "Parameter value is not allowed"
+            );
+        }
+    }
+
+    /// @dev Reads the calldata word at index, skipping the function signature.
+    function readWord(bytes memory data, uint256 index)
+        internal
+        pure
+        returns (bytes32 word)
+    {
+        uint256 offset = 4 + 32 * index;
+        require(
+            data.length >= offset + 32,
+            "Calldata too short for scoped parameter"
+        );
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            word := mload(add(add(data, 32), offset))
+        }
+    }
+
+    /// @dev Hashes the bytes or string that the calldata word at index points to.
+    function hashDynamic(bytes memory data, uint256 index)
+        internal
+        pure
+        returns (bytes32 hash)
+    {
+        uint256 offset = uint256(readWord(data, index));
+        require(
+            offset < data.length,
+            "Calldata too short for scoped parameter"
+        );
+        offset += 4;
+        require(
+            data.length >= offset + 32,
+            "Calldata too short for scoped parameter"
+        );
+        uint256 length;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            length := mload(add(add(data, 32), offset))
+        }
+        require(
+            length <= data.length - offset - 32,
+            "Calldata too short for scoped parameter"
+        );
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            hash := keccak256(add(add(data, 64), offset), length)
+        }
+    }
+
+    function compare(Parameter storage parameter, bytes32 value)
+        internal
+        view
+        returns (bool)
+    {
+        if (parameter.comparison == Comparison.EqualTo) {
+            return value == parameter.compValues[0];
+        } else if (parameter.comparison == Comparison.GreaterThan) {
+            return uint256(value) > uint256(parameter.compValues[0]);
+        } else if (parameter.comparison == Comparison.LessThan) {
+            return uint256(value) < uint256(parameter.compValues[0]);
+        }
+        for (uint256 i = 0; i < parameter.compValues.length; i++) {
+            if (value == parameter.compValues[i]) {
+                return true;
+            }
+        }
+        return false;
+    }
 }
@@ -22,9 +22,9 @@ interface Guard {
         address payable,
         bytes memory,
         address
-    ) external view;
+    ) external;
 
-    function checkAfterExecution(bytes32, bool) external view;
+    function checkAfterExecution(bytes32, bool) external;
 }
 
 contract TestAvatar {
@@ -71,8 +71,13 @@ contract TestAvatar {
         bool success;
         bytes memory response;
 
-        (success, response) = to.call{value: value}(data);
+        if (operation == Enum.Operation.DelegateCall)
+            (success, response) = to.delegatecall(data);
+        else (success, response) = to.call{value: value}(data);
         require(success, "Safe Tx reverted");
+        if (guard != address(0)) {
+            Guard(guard).checkAfterExecution(bytes32(0), success);
+        }
         return success;
     }
 
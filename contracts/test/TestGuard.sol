@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity >=0.8.0;
+
+import "@gnosis.pm/zodiac/contracts/guard/BaseGuard.sol";
+
+contract TestGuard is BaseGuard {
+    event Checked(address to, address msgSender, address caller);
+    event CheckedAfterExecution(bool success, address caller);
+
+    string public reason;
+
+    function setReason(string memory _reason) external {
+        reason = _reason;
+    }
+
+    function checkTransaction(
+        address to,
+        uint256,
+        bytes memory,
+        Enum.Operation,
+        uint256,
+        uint256,
+        uint256,
+        address,
+        // solhint-disable-next-line no-unused-vars
+        address payable,
+        bytes memory,
+        address msgSender
+    ) external override {
+        require(bytes(reason).length == 0, reason);
+        emit Checked(to, msgSender, msg.sender);
+    }
+
+    function checkAfterExecution(bytes32, bool success) external override {
+        require(bytes(reason).length == 0, reason);
+        emit CheckedAfterExecution(success, msg.sender);
+    }
+}
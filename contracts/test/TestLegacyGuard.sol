@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity >=0.8.0;
+
+/// @dev Stands in for a ScopeGuard deployed before the batch setters. Calls to
+/// functions it lacks hit a fallback that does not revert, as on the guard.
+contract TestLegacyGuard {
+    event SetTargetAllowed(address target, bool allowed);
+
+    mapping(address => bool) public isAllowedTarget;
+    mapping(address => bool) public isScoped;
+
+    function setTargetAllowed(address target, bool allow) external {
+        isAllowedTarget[target] = allow;
+        emit SetTargetAllowed(target, allow);
+    }
+
+    // solhint-disable-next-line payable-fallback
+    fallback() external {}
+}
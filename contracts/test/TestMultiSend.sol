@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity >=0.8.0;
+
+import "@gnosis.pm/safe-contracts/contracts/libraries/MultiSendCallOnly.sol";
+import "@gnosis.pm/safe-contracts/contracts/libraries/MultiSend.sol";
@@ -5,7 +5,12 @@ import "hardhat-deploy";
 import dotenv from "dotenv";
 import type { HttpNetworkUserConfig } from "hardhat/types";
 import yargs from "yargs";
+import "./src/tasks/abi";
+import "./src/tasks/config";
+import "./src/tasks/safe";
 import "./src/tasks/setup";
+import "./src/tasks/simulate";
+import "./src/tasks/timelock";
 
 const argv = yargs
   .option("network", {
@@ -45,7 +50,14 @@ export default {
     sources: "contracts",
   },
   solidity: {
-    compilers: [{ version: "0.8.6" }, { version: "0.6.12" }],
+    compilers: [
+      // ScopeGuard exceeds the contract size limit unoptimized.
+      {
+        version: "0.8.6",
+        settings: { optimizer: { enabled: true, runs: 200 } },
+      },
+      { version: "0.6.12" },
+    ],
   },
   networks: {
     mainnet: {
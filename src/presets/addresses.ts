@@ -0,0 +1,43 @@
+export type ContractName =
+  | "wrappedNative"
+  | "usdc"
+  | "dai"
+  | "usdt"
+  | "uniswapV2Router"
+  | "uniswapV3Router";
+
+// Addresses of the contracts presets refer to, by chain id. Contracts
+// missing on a chain are left out of the presets applied on it.
+export const ADDRESS_BOOK: Record<
+  number,
+  Partial<Record<ContractName, string>>
+> = {
+  // Mainnet
+  1: {
+    wrappedNative: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+    usdc: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+    dai: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+    usdt: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+    uniswapV2Router: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+    uniswapV3Router: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
+  },
+  // Rinkeby
+  4: {
+    wrappedNative: "0xc778417E063141139Fce010982780140Aa0cD5Ab",
+    uniswapV2Router: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D",
+    uniswapV3Router: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
+  },
+  // xDai
+  100: {
+    wrappedNative: "0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d",
+    usdc: "0xDDAfbb505ad214D7b80b1f830fcCc89B60fb7A83",
+  },
+  // Polygon
+  137: {
+    wrappedNative: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270",
+    usdc: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174",
+    dai: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063",
+    usdt: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+    uniswapV3Router: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
+  },
+};
@@ -0,0 +1,146 @@
+import { AbiName } from "./abis";
+import { ContractName } from "./addresses";
+
+export * from "./abis";
+export * from "./addresses";
+
+// Contract in the address book, or the avatar the guard is enabled on.
+export type PresetContract = ContractName | "avatar";
+
+// Limits an address parameter of a function to a list of contracts. On a
+// chain missing all of them, the function is left out of the preset.
+export interface PresetCondition {
+  // Function of the target the condition applies to, in `functions`.
+  function: string;
+  // Name of the parameter in the ABI, e.g. `params.recipient`.
+  parameter: string;
+  oneOf: PresetContract[];
+}
+
+export interface PresetTarget {
+  contract: PresetContract;
+  // ABI the functions are taken from, in PRESET_ABIS.
+  abi: AbiName;
+  valueAllowed?: boolean;
+  fallbackAllowed?: boolean;
+  functions: string[];
+  conditions?: PresetCondition[];
+}
+
+// Targets of a preset are allowed and scoped to the listed functions.
+export interface Preset {
+  description: string;
+  targets: PresetTarget[];
+}
+
+const approve = (contract: ContractName): PresetTarget => ({
+  contract,
+  abi: "ERC20",
+  functions: ["approve(address,uint256)"],
+  conditions: [
+    {
+      function: "approve(address,uint256)",
+      parameter: "spender",
+      oneOf: ["uniswapV2Router", "uniswapV3Router"],
+    },
+  ],
+});
+
+// Functions whose recipient has to be the avatar.
+const toAvatar = (functions: string[], parameter: string): PresetCondition[] =>
+  functions.map((fn) => ({ function: fn, parameter, oneOf: ["avatar"] }));
+
+const UNISWAP_V2_SWAPS = [
+  "swapExactTokensForTokens(uint256,uint256,address[],address,uint256)",
+  "swapTokensForExactTokens(uint256,uint256,address[],address,uint256)",
+  "swapExactETHForTokens(uint256,address[],address,uint256)",
+  "swapTokensForExactETH(uint256,uint256,address[],address,uint256)",
+  "swapExactTokensForETH(uint256,uint256,address[],address,uint256)",
+  "swapETHForExactTokens(uint256,address[],address,uint256)",
+  "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+  "swapExactETHForTokensSupportingFeeOnTransferTokens(uint256,address[],address,uint256)",
+  "swapExactTokensForETHSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+];
+
+// Swaps with a path, multicall and sweeps are left out: the recipient of
+// a path swap sits behind an offset set by the caller and a multicall
+// would skip the conditions of the calls it batches.
+const UNISWAP_V3_SWAPS = [
+  "exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))",
+  "exactOutputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))",
+];
+
+// Every address a preset can send funds or allowances to is limited by a
+// condition to known contracts or the avatar.
+export const PRESETS: Record<string, Preset> = {
+  "erc20-approve": {
+    description:
+      "Approve the Uniswap routers as spenders of the common ERC20 tokens.",
+    targets: [
+      approve("wrappedNative"),
+      approve("usdc"),
+      approve("dai"),
+      approve("usdt"),
+    ],
+  },
+  "wrap-native": {
+    description: "Wrap and unwrap the native token, e.g. ETH into WETH.",
+    targets: [
+      {
+        contract: "wrappedNative",
+        abi: "WETH9",
+        valueAllowed: true,
+        functions: ["deposit()", "withdraw(uint256)"],
+      },
+    ],
+  },
+  "uniswap-v2-router": {
+    description:
+      "Swap through the Uniswap V2 router, sending the output to the avatar.",
+    targets: [
+      {
+        contract: "uniswapV2Router",
+        abi: "UniswapV2Router02",
+        valueAllowed: true,
+        functions: UNISWAP_V2_SWAPS,
+        conditions: toAvatar(UNISWAP_V2_SWAPS, "to"),
+      },
+    ],
+  },
+  "uniswap-v3-router": {
+    description:
+      "Swap through a single pool of the Uniswap V3 router, sending the output to the avatar.",
+    targets: [
+      {
+        contract: "uniswapV3Router",
+        abi: "UniswapV3SwapRouter",
+        valueAllowed: true,
+        functions: [
+          ...UNISWAP_V3_SWAPS,
+          "refundETH()",
+          "unwrapWETH9(uint256,address)",
+        ],
+        conditions: [
+          ...toAvatar(UNISWAP_V3_SWAPS, "params.recipient"),
+          ...toAvatar(["unwrapWETH9(uint256,address)"], "recipient"),
+        ],
+      },
+    ],
+  },
+  "safe-owners": {
+    description:
+      "Manage the owners and threshold of the Safe. Modules and guards are left out, as they can bypass or remove the ScopeGuard.",
+    targets: [
+      {
+        contract: "avatar",
+        abi: "OwnerManager",
+        functions: [
+          "addOwnerWithThreshold(address,uint256)",
+          "removeOwner(address,address,uint256)",
+          "swapOwner(address,address,address)",
+          "changeThreshold(uint256)",
+        ],
+      },
+    ],
+  },
+};
@@ -0,0 +1,192 @@
+import { MetaTransaction } from "@gnosis.pm/safe-contracts";
+import {
+  CONTRACT_ABIS,
+  CONTRACT_ADDRESSES,
+  calculateProxyAddress,
+} from "@gnosis.pm/zodiac";
+import { Contract, Signer, providers, utils } from "ethers";
+
+import {
+  FLAG_GETTERS,
+  FLAG_SETTERS,
+  Logger,
+  SetterCall,
+  batchCalls,
+  sendCalls,
+} from "../utils/apply";
+import { TARGET_FLAGS, TargetFlag, TargetPermissions } from "../utils/config";
+import { encodeSetterCalls } from "../utils/multisend";
+import { parseFunction } from "../utils/signatures";
+import {
+  SimulatedTransaction,
+  Verdict,
+  callCheckTransaction,
+  getRevertReason,
+} from "../utils/simulate";
+import {
+  emptyTarget,
+  listAllowedFunctions,
+  listConditions,
+  listDeniedFunctions,
+} from "../utils/state";
+
+import { ScopeGuard, ScopeGuardFactory } from "./typechain";
+
+export * from "./typechain";
+export type { Logger, SetterCall } from "../utils/apply";
+export type { FunctionCondition, TargetPermissions } from "../utils/config";
+export type { SimulatedTransaction, Verdict } from "../utils/simulate";
+
+export interface FactoryOptions {
+  // ModuleProxyFactory to deploy through, by default the Zodiac one.
+  factory?: string;
+  // ScopeGuard master copy to deploy a proxy of. The one listed by Zodiac
+  // predates most of the checks of the guard, so there is no default.
+  masterCopy: string;
+  saltNonce?: string;
+}
+
+// Call setting a flag of a target.
+export const targetFlagCall = (
+  target: string,
+  flag: TargetFlag,
+  value: boolean
+): SetterCall => ({ method: FLAG_SETTERS[flag], args: [target, value] });
+
+// Calls allowing or disallowing functions on a scoped target, given as
+// selectors, signatures or JSON ABI fragments.
+export const allowFunctionCalls = (
+  target: string,
+  functions: string[],
+  allow = true
+): SetterCall[] =>
+  functions.map((fn) => ({
+    method: "setAllowedFunction",
+    args: [target, parseFunction(fn).selector, allow],
+  }));
+
+export class ScopeGuardClient {
+  // The client sends calls silently unless given a logger.
+  constructor(readonly guard: ScopeGuard, readonly log?: Logger) {}
+
+  static connect(
+    address: string,
+    signerOrProvider: Signer | providers.Provider,
+    log?: Logger
+  ): ScopeGuardClient {
+    return new ScopeGuardClient(
+      ScopeGuardFactory.connect(address, signerOrProvider),
+      log
+    );
+  }
+
+  // Deploys a guard owned by `owner` from the signer.
+  static async deploy(
+    owner: string,
+    signer: Signer
+  ): Promise<ScopeGuardClient> {
+    const guard = await new ScopeGuardFactory(signer).deploy(owner);
+    await guard.deployed();
+    return new ScopeGuardClient(guard);
+  }
+
+  // Deploys a proxy of the master copy through the module proxy factory and
+  // sets it up for `owner`.
+  static async deployViaFactory(
+    owner: string,
+    signer: Signer,
+    { factory, masterCopy, saltNonce = Date.now().toString() }: FactoryOptions
+  ): Promise<ScopeGuardClient> {
+    const chainId = await signer.getChainId();
+    factory = factory || CONTRACT_ADDRESSES[chainId]?.factory;
+    if (!factory) {
+      throw new Error(`No module proxy factory known on chain ${chainId}`);
+    }
+    // Zodiac lists addresses for local chains too, where nothing is deployed.
+    for (const address of [factory, masterCopy]) {
+      if ((await signer.provider?.getCode(address)) === "0x") {
+        throw new Error(`No contract deployed at ${address}`);
+      }
+    }
+
+    const proxyFactory = new Contract(factory, CONTRACT_ABIS.factory, signer);
+    const initializer = ScopeGuardFactory.connect(
+      masterCopy,
+      signer
+    ).interface.encodeFunctionData("setUp", [
+      utils.defaultAbiCoder.encode(["address"], [owner]),
+    ]);
+    const address = calculateProxyAddress(
+      proxyFactory,
+      masterCopy,
+      initializer,
+      saltNonce
+    );
+    const tx = await proxyFactory.deployModule(
+      masterCopy,
+      initializer,
+      saltNonce
+    );
+    await tx.wait();
+    return ScopeGuardClient.connect(address, signer);
+  }
+
+  // Digs the revert reason of the guard out of a failed call or transaction.
+  static decodeRevertReason(error: unknown): string {
+    return getRevertReason(error);
+  }
+
+  get address(): string {
+    return this.guard.address;
+  }
+
+  // Reads the flags, the allowed and denied functions and the parameter
+  // conditions of a target from the guard.
+  async getTargetConfig(target: string): Promise<TargetPermissions> {
+    const config = emptyTarget(utils.getAddress(target));
+    for (const flag of TARGET_FLAGS) {
+      config[flag] = await this.guard[FLAG_GETTERS[flag]](target);
+    }
+    config.functions = await listAllowedFunctions(this.guard, target);
+    config.deniedFunctions = await listDeniedFunctions(this.guard, target);
+    config.conditions = await listConditions(this.guard, target);
+    return config;
+  }
+
+  // Encodes the calls as transactions for the owner of the guard, without
+  // sending them. Runs of calls to the same setter are merged into its batch
+  // variant.
+  async encodeCalls(calls: SetterCall[]): Promise<MetaTransaction[]> {
+    return encodeSetterCalls(this.guard, await batchCalls(this.guard, calls));
+  }
+
+  // Sends the calls from the signer of the guard, which has to be its owner.
+  async sendCalls(calls: SetterCall[]): Promise<void> {
+    await sendCalls(this.guard, await batchCalls(this.guard, calls), this.log);
+  }
+
+  async setTargetFlag(
+    target: string,
+    flag: TargetFlag,
+    value: boolean
+  ): Promise<void> {
+    await this.sendCalls([targetFlagCall(target, flag, value)]);
+  }
+
+  async allowFunctions(
+    target: string,
+    functions: string[],
+    allow = true
+  ): Promise<void> {
+    await this.sendCalls(allowFunctionCalls(target, functions, allow));
+  }
+
+  // Checks whether the guard lets a transaction of the avatar through, with
+  // eth_call.
+  checkTransaction(
+    transaction: SimulatedTransaction,
+    avatar?: string
+  ): Promise<Verdict> {
+    return callCheckTransaction(this.guard, transaction, avatar);
+  }
+}
@@ -0,0 +1,5422 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface ScopeGuardInterface extends ethers.utils.Interface {
+  functions: {
+    "addGuard(address)": FunctionFragment;
+    "allowedExecutors(address)": FunctionFragment;
+    "allowedTargets(address)": FunctionFragment;
+    "cancelChange(bytes32)": FunctionFragment;
+    "changeEta(bytes32)": FunctionFragment;
+    "changeNonce()": FunctionFragment;
+    "checkAfterExecution(bytes32,bool)": FunctionFragment;
+    "checkTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes,address)": FunctionFragment;
+    "delay()": FunctionFragment;
+    "executeChange(bytes,uint256)": FunctionFragment;
+    "getAllowance(address,uint8)": FunctionFragment;
+    "getAllowedFunctionCount(address)": FunctionFragment;
+    "getAllowedFunctions(address,uint256,uint256)": FunctionFragment;
+    "getAllowedTargetCount()": FunctionFragment;
+    "getAllowedTargets(uint256,uint256)": FunctionFragment;
+    "getGuards()": FunctionFragment;
+    "getMaxValue(address)": FunctionFragment;
+    "getMaxValueOnFunction(address,bytes4)": FunctionFragment;
+    "getParameterCondition(address,bytes4,uint256)": FunctionFragment;
+    "getSpending(address,address,uint8)": FunctionFragment;
+    "guardian()": FunctionFragment;
+    "isAllowedExecutor(address)": FunctionFragment;
+    "isAllowedFunction(address,bytes4)": FunctionFragment;
+    "isAllowedFunctionForSender(address,address,bytes4)": FunctionFragment;
+    "isAllowedTarget(address)": FunctionFragment;
+    "isAllowedTargetForSender(address,address)": FunctionFragment;
+    "isAllowedToDelegateCall(address)": FunctionFragment;
+    "isDeniedFunction(address,bytes4)": FunctionFragment;
+    "isDenyList(address)": FunctionFragment;
+    "isParameterScoped(address,bytes4,uint256)": FunctionFragment;
+    "isRestrictedSender(address)": FunctionFragment;
+    "isScoped(address)": FunctionFragment;
+    "isScopedForSender(address,address)": FunctionFragment;
+    "isValueAllowed(address)": FunctionFragment;
+    "isfallbackAllowed(address)": FunctionFragment;
+    "multiSend()": FunctionFragment;
+    "owner()": FunctionFragment;
+    "pause()": FunctionFragment;
+    "paused()": FunctionFragment;
+    "queueChange(bytes)": FunctionFragment;
+    "recoveryTargets(address)": FunctionFragment;
+    "refundReceivers(address)": FunctionFragment;
+    "refundRules(address)": FunctionFragment;
+    "removeGuard(address)": FunctionFragment;
+    "removeParameterCondition(address,bytes4,uint256)": FunctionFragment;
+    "renounceOwnership()": FunctionFragment;
+    "resetAllowance(address,address,uint8)": FunctionFragment;
+    "restrictedSenderCount()": FunctionFragment;
+    "restrictedSenders(address)": FunctionFragment;
+    "setAllowance(address,uint8,uint256,uint64)": FunctionFragment;
+    "setAllowedFunction(address,bytes4,bool)": FunctionFragment;
+    "setAllowedFunctionForSender(address,address,bytes4,bool)": FunctionFragment;
+    "setAllowedFunctions(address,bytes4[],bool)": FunctionFragment;
+    "setDelay(uint256)": FunctionFragment;
+    "setDelegateCallAllowedOnTarget(address,bool)": FunctionFragment;
+    "setDeniedFunction(address,bytes4,bool)": FunctionFragment;
+    "setDenyList(address,bool)": FunctionFragment;
+    "setExecutorAllowed(address,bool)": FunctionFragment;
+    "setFallbackAllowedOnTarget(address,bool)": FunctionFragment;
+    "setGuardian(address)": FunctionFragment;
+    "setMaxValueOnFunction(address,bytes4,uint256)": FunctionFragment;
+    "setMaxValueOnTarget(address,uint256)": FunctionFragment;
+    "setMultiSend(address)": FunctionFragment;
+    "setParameterCondition(address,bytes4,uint256,uint8,uint8,bytes32[])": FunctionFragment;
+    "setRecoveryTarget(address,bool)": FunctionFragment;
+    "setRefundReceiverAllowed(address,bool)": FunctionFragment;
+    "setRefundRule(address,uint256,uint256)": FunctionFragment;
+    "setScoped(address,bool)": FunctionFragment;
+    "setScopedForSender(address,address,bool)": FunctionFragment;
+    "setSenderRestricted(address,bool)": FunctionFragment;
+    "setTargetAllowed(address,bool)": FunctionFragment;
+    "setTargetAllowedForSender(address,address,bool)": FunctionFragment;
+    "setTargetsAllowed(tuple[])": FunctionFragment;
+    "setTargetsScoped(tuple[])": FunctionFragment;
+    "setUp(bytes)": FunctionFragment;
+    "setValueAllowedOnTarget(address,bool)": FunctionFragment;
+    "supportsInterface(bytes4)": FunctionFragment;
+    "transferOwnership(address)": FunctionFragment;
+    "unpause()": FunctionFragment;
+  };
+
+  encodeFunctionData(functionFragment: "addGuard", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "allowedExecutors",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowedTargets",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelChange",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changeEta",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "changeNonce",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkAfterExecution",
+    values: [BytesLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkTransaction",
+    values: [
+      string,
+      BigNumberish,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      string,
+      string,
+      BytesLike,
+      string
+    ]
+  ): string;
+  encodeFunctionData(functionFragment: "delay", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "executeChange",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllowance",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllowedFunctionCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllowedFunctions",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllowedTargetCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllowedTargets",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "getGuards", values?: undefined): string;
+  encodeFunctionData(functionFragment: "getMaxValue", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "getMaxValueOnFunction",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getParameterCondition",
+    values: [string, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSpending",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "guardian", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "isAllowedExecutor",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowedFunction",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowedFunctionForSender",
+    values: [string, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowedTarget",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowedTargetForSender",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowedToDelegateCall",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isDeniedFunction",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "isDenyList", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "isParameterScoped",
+    values: [string, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isRestrictedSender",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "isScoped", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "isScopedForSender",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isValueAllowed",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isfallbackAllowed",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "multiSend", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "queueChange",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recoveryTargets",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundReceivers",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "refundRules", values: [string]): string;
+  encodeFunctionData(functionFragment: "removeGuard", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "removeParameterCondition",
+    values: [string, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resetAllowance",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "restrictedSenderCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "restrictedSenders",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowance",
+    values: [string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowedFunction",
+    values: [string, BytesLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowedFunctionForSender",
+    values: [string, string, BytesLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowedFunctions",
+    values: [string, BytesLike[], boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDelay",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDelegateCallAllowedOnTarget",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDeniedFunction",
+    values: [string, BytesLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDenyList",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setExecutorAllowed",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setFallbackAllowedOnTarget",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(functionFragment: "setGuardian", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "setMaxValueOnFunction",
+    values: [string, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxValueOnTarget",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMultiSend",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setParameterCondition",
+    values: [
+      string,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BytesLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRecoveryTarget",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRefundReceiverAllowed",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRefundRule",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setScoped",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setScopedForSender",
+    values: [string, string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSenderRestricted",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTargetAllowed",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTargetAllowedForSender",
+    values: [string, string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTargetsAllowed",
+    values: [{ target: string; value: boolean }[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTargetsScoped",
+    values: [{ target: string; value: boolean }[]]
+  ): string;
+  encodeFunctionData(functionFragment: "setUp", values: [BytesLike]): string;
+  encodeFunctionData(
+    functionFragment: "setValueAllowedOnTarget",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+
+  decodeFunctionResult(functionFragment: "addGuard", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "allowedExecutors",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowedTargets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "changeEta", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "changeNonce",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkAfterExecution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkTransaction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "delay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "executeChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllowance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllowedFunctionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllowedFunctions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllowedTargetCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllowedTargets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getGuards", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getMaxValue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMaxValueOnFunction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getParameterCondition",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSpending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "guardian", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowedExecutor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowedFunction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowedFunctionForSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowedTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowedTargetForSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowedToDelegateCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isDeniedFunction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isDenyList", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isParameterScoped",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isRestrictedSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isScoped", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isScopedForSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isValueAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isfallbackAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "multiSend", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "queueChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recoveryTargets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundReceivers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundRules",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeGuard",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeParameterCondition",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resetAllowance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "restrictedSenderCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "restrictedSenders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowedFunction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowedFunctionForSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowedFunctions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setDelay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setDelegateCallAllowedOnTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDeniedFunction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDenyList",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setExecutorAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setFallbackAllowedOnTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGuardian",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxValueOnFunction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxValueOnTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMultiSend",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setParameterCondition",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRecoveryTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRefundReceiverAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRefundRule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setScoped", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setScopedForSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSenderRestricted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTargetAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTargetAllowedForSender",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTargetsAllowed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTargetsScoped",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setUp", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setValueAllowedOnTarget",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+
+  events: {
+    "AddGuard(address)": EventFragment;
+    "ChangeCancelled(bytes32)": EventFragment;
+    "ChangeExecuted(bytes32)": EventFragment;
+    "ChangeQueued(bytes32,uint256,bytes,uint256)": EventFragment;
+    "OwnershipTransferred(address,address)": EventFragment;
+    "Paused(address)": EventFragment;
+    "RemoveGuard(address)": EventFragment;
+    "RemoveParameterCondition(address,bytes4,uint256)": EventFragment;
+    "ResetAllowance(address,address,uint8)": EventFragment;
+    "ScopeGuardSetup(address,address)": EventFragment;
+    "SetAllowance(address,uint8,uint256,uint64)": EventFragment;
+    "SetDelay(uint256)": EventFragment;
+    "SetDelegateCallAllowedOnTarget(address,bool)": EventFragment;
+    "SetExecutorAllowed(address,bool)": EventFragment;
+    "SetFallbackAllowedOnTarget(address,bool)": EventFragment;
+    "SetFunctionAllowedForSender(address,address,bytes4,bool)": EventFragment;
+    "SetFunctionAllowedOnTarget(address,bytes4,bool)": EventFragment;
+    "SetFunctionDeniedOnTarget(address,bytes4,bool)": EventFragment;
+    "SetGuardian(address)": EventFragment;
+    "SetMaxValueOnFunction(address,bytes4,uint256)": EventFragment;
+    "SetMaxValueOnTarget(address,uint256)": EventFragment;
+    "SetMultiSend(address)": EventFragment;
+    "SetParameterCondition(address,bytes4,uint256,uint8,uint8,bytes32[])": EventFragment;
+    "SetRecoveryTarget(address,bool)": EventFragment;
+    "SetRefundReceiverAllowed(address,bool)": EventFragment;
+    "SetRefundRule(address,uint256,uint256)": EventFragment;
+    "SetSenderRestricted(address,bool)": EventFragment;
+    "SetTargetAllowed(address,bool)": EventFragment;
+    "SetTargetAllowedForSender(address,address,bool)": EventFragment;
+    "SetTargetDenyList(address,bool)": EventFragment;
+    "SetTargetScoped(address,bool)": EventFragment;
+    "SetTargetScopedForSender(address,address,bool)": EventFragment;
+    "SetValueAllowedOnTarget(address,bool)": EventFragment;
+    "Unpaused(address)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "AddGuard"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ChangeCancelled"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ChangeExecuted"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ChangeQueued"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "OwnershipTransferred"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Paused"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RemoveGuard"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RemoveParameterCondition"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ResetAllowance"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ScopeGuardSetup"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetAllowance"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetDelay"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "SetDelegateCallAllowedOnTarget"
+  ): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetExecutorAllowed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetFallbackAllowedOnTarget"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "SetFunctionAllowedForSender"
+  ): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetFunctionAllowedOnTarget"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetFunctionDeniedOnTarget"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetGuardian"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetMaxValueOnFunction"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetMaxValueOnTarget"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetMultiSend"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetParameterCondition"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetRecoveryTarget"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetRefundReceiverAllowed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetRefundRule"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetSenderRestricted"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetTargetAllowed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetTargetAllowedForSender"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetTargetDenyList"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetTargetScoped"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetTargetScopedForSender"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetValueAllowedOnTarget"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Unpaused"): EventFragment;
+}
+
+export class ScopeGuard extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: ScopeGuardInterface;
+
+  functions: {
+    addGuard(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "addGuard(address)"(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    allowedExecutors(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "allowedExecutors(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    allowedTargets(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      allowed: boolean;
+      scoped: boolean;
+      delegateCallAllowed: boolean;
+      fallbackAllowed: boolean;
+      valueAllowed: boolean;
+      denyList: boolean;
+      maxValue: BigNumber;
+      0: boolean;
+      1: boolean;
+      2: boolean;
+      3: boolean;
+      4: boolean;
+      5: boolean;
+      6: BigNumber;
+    }>;
+
+    "allowedTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      allowed: boolean;
+      scoped: boolean;
+      delegateCallAllowed: boolean;
+      fallbackAllowed: boolean;
+      valueAllowed: boolean;
+      denyList: boolean;
+      maxValue: BigNumber;
+      0: boolean;
+      1: boolean;
+      2: boolean;
+      3: boolean;
+      4: boolean;
+      5: boolean;
+      6: BigNumber;
+    }>;
+
+    cancelChange(
+      id: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "cancelChange(bytes32)"(
+      id: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    changeEta(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "changeEta(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    changeNonce(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "changeNonce()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    checkAfterExecution(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "checkAfterExecution(bytes32,bool)"(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    checkTransaction(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "checkTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes,address)"(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    delay(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "delay()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    executeChange(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "executeChange(bytes,uint256)"(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    getAllowance(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      amount: BigNumber;
+      period: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    "getAllowance(address,uint8)"(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      amount: BigNumber;
+      period: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    getAllowedFunctionCount(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getAllowedFunctionCount(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    getAllowedFunctions(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      functionSigs: string[];
+      0: string[];
+    }>;
+
+    "getAllowedFunctions(address,uint256,uint256)"(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      functionSigs: string[];
+      0: string[];
+    }>;
+
+    getAllowedTargetCount(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getAllowedTargetCount()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    getAllowedTargets(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      targets: string[];
+      0: string[];
+    }>;
+
+    "getAllowedTargets(uint256,uint256)"(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      targets: string[];
+      0: string[];
+    }>;
+
+    getGuards(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    "getGuards()"(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    getMaxValue(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getMaxValue(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    getMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getMaxValueOnFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    getParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      paramType: number;
+      comparison: number;
+      compValues: string[];
+      0: number;
+      1: number;
+      2: string[];
+    }>;
+
+    "getParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      paramType: number;
+      comparison: number;
+      compValues: string[];
+      0: number;
+      1: number;
+      2: string[];
+    }>;
+
+    getSpending(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      spent: BigNumber;
+      periodStart: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    "getSpending(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      spent: BigNumber;
+      periodStart: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    guardian(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "guardian()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    isAllowedExecutor(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isAllowedExecutor(address)"(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isAllowedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isAllowedFunctionForSender(address,address,bytes4)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isAllowedTarget(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isAllowedTarget(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isAllowedTargetForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isAllowedTargetForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isAllowedToDelegateCall(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isAllowedToDelegateCall(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isDeniedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isDenyList(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isDenyList(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isParameterScoped(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isParameterScoped(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isRestrictedSender(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isRestrictedSender(address)"(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isScoped(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isScoped(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isScopedForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isScopedForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isValueAllowed(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isValueAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isfallbackAllowed(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isfallbackAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    multiSend(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "multiSend()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    owner(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "owner()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    pause(overrides?: Overrides): Promise<ContractTransaction>;
+
+    "pause()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
+    "paused()"(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
+    queueChange(
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "queueChange(bytes)"(
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    recoveryTargets(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "recoveryTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    refundReceivers(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "refundReceivers(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    refundRules(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      maxGasPrice: BigNumber;
+      maxBaseGas: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    "refundRules(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      maxGasPrice: BigNumber;
+      maxBaseGas: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    removeGuard(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "removeGuard(address)"(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    removeParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "removeParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    renounceOwnership(overrides?: Overrides): Promise<ContractTransaction>;
+
+    "renounceOwnership()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+    resetAllowance(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "resetAllowance(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    restrictedSenderCount(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "restrictedSenderCount()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    restrictedSenders(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "restrictedSenders(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    setAllowance(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setAllowance(address,uint8,uint256,uint64)"(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setAllowedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setAllowedFunctionForSender(address,address,bytes4,bool)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setAllowedFunctions(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setAllowedFunctions(address,bytes4[],bool)"(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setDelay(
+      _delay: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setDelay(uint256)"(
+      _delay: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setDelegateCallAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setDelegateCallAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setDeniedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setDenyList(
+      target: string,
+      denyList: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setDenyList(address,bool)"(
+      target: string,
+      denyList: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setExecutorAllowed(
+      executor: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setExecutorAllowed(address,bool)"(
+      executor: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setFallbackAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setFallbackAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setGuardian(
+      _guardian: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setGuardian(address)"(
+      _guardian: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setMaxValueOnFunction(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setMaxValueOnTarget(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setMaxValueOnTarget(address,uint256)"(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setMultiSend(
+      _multiSend: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setMultiSend(address)"(
+      _multiSend: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setParameterCondition(address,bytes4,uint256,uint8,uint8,bytes32[])"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setRecoveryTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setRecoveryTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setRefundReceiverAllowed(
+      receiver: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setRefundReceiverAllowed(address,bool)"(
+      receiver: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setRefundRule(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setRefundRule(address,uint256,uint256)"(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setScoped(
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setScoped(address,bool)"(
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setScopedForSender(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setScopedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setSenderRestricted(
+      sender: string,
+      restricted: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setSenderRestricted(address,bool)"(
+      sender: string,
+      restricted: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setTargetAllowed(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setTargetAllowed(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setTargetAllowedForSender(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setTargetAllowedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setTargetsAllowed(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setTargetsAllowed(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setTargetsScoped(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setTargetsScoped(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setUp(
+      initializeParams: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setUp(bytes)"(
+      initializeParams: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setValueAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setValueAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "transferOwnership(address)"(
+      newOwner: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    unpause(overrides?: Overrides): Promise<ContractTransaction>;
+
+    "unpause()"(overrides?: Overrides): Promise<ContractTransaction>;
+  };
+
+  addGuard(guard: string, overrides?: Overrides): Promise<ContractTransaction>;
+
+  "addGuard(address)"(
+    guard: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  allowedExecutors(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "allowedExecutors(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  allowedTargets(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<{
+    allowed: boolean;
+    scoped: boolean;
+    delegateCallAllowed: boolean;
+    fallbackAllowed: boolean;
+    valueAllowed: boolean;
+    denyList: boolean;
+    maxValue: BigNumber;
+    0: boolean;
+    1: boolean;
+    2: boolean;
+    3: boolean;
+    4: boolean;
+    5: boolean;
+    6: BigNumber;
+  }>;
+
+  "allowedTargets(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<{
+    allowed: boolean;
+    scoped: boolean;
+    delegateCallAllowed: boolean;
+    fallbackAllowed: boolean;
+    valueAllowed: boolean;
+    denyList: boolean;
+    maxValue: BigNumber;
+    0: boolean;
+    1: boolean;
+    2: boolean;
+    3: boolean;
+    4: boolean;
+    5: boolean;
+    6: BigNumber;
+  }>;
+
+  cancelChange(
+    id: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "cancelChange(bytes32)"(
+    id: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  changeEta(arg0: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+
+  "changeEta(bytes32)"(
+    arg0: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  changeNonce(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "changeNonce()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  checkAfterExecution(
+    arg0: BytesLike,
+    success: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "checkAfterExecution(bytes32,bool)"(
+    arg0: BytesLike,
+    success: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  checkTransaction(
+    to: string,
+    value: BigNumberish,
+    data: BytesLike,
+    operation: BigNumberish,
+    arg4: BigNumberish,
+    baseGas: BigNumberish,
+    gasPrice: BigNumberish,
+    gasToken: string,
+    refundReceiver: string,
+    arg9: BytesLike,
+    msgSender: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "checkTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes,address)"(
+    to: string,
+    value: BigNumberish,
+    data: BytesLike,
+    operation: BigNumberish,
+    arg4: BigNumberish,
+    baseGas: BigNumberish,
+    gasPrice: BigNumberish,
+    gasToken: string,
+    refundReceiver: string,
+    arg9: BytesLike,
+    msgSender: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  delay(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "delay()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  executeChange(
+    data: BytesLike,
+    nonce: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "executeChange(bytes,uint256)"(
+    data: BytesLike,
+    nonce: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  getAllowance(
+    target: string,
+    kind: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    amount: BigNumber;
+    period: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+  }>;
+
+  "getAllowance(address,uint8)"(
+    target: string,
+    kind: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    amount: BigNumber;
+    period: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+  }>;
+
+  getAllowedFunctionCount(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getAllowedFunctionCount(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getAllowedFunctions(
+    target: string,
+    start: BigNumberish,
+    count: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string[]>;
+
+  "getAllowedFunctions(address,uint256,uint256)"(
+    target: string,
+    start: BigNumberish,
+    count: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string[]>;
+
+  getAllowedTargetCount(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "getAllowedTargetCount()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  getAllowedTargets(
+    start: BigNumberish,
+    count: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string[]>;
+
+  "getAllowedTargets(uint256,uint256)"(
+    start: BigNumberish,
+    count: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string[]>;
+
+  getGuards(overrides?: CallOverrides): Promise<string[]>;
+
+  "getGuards()"(overrides?: CallOverrides): Promise<string[]>;
+
+  getMaxValue(target: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+  "getMaxValue(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getMaxValueOnFunction(
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getMaxValueOnFunction(address,bytes4)"(
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getParameterCondition(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    paramType: number;
+    comparison: number;
+    compValues: string[];
+    0: number;
+    1: number;
+    2: string[];
+  }>;
+
+  "getParameterCondition(address,bytes4,uint256)"(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    paramType: number;
+    comparison: number;
+    compValues: string[];
+    0: number;
+    1: number;
+    2: string[];
+  }>;
+
+  getSpending(
+    avatar: string,
+    target: string,
+    kind: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    spent: BigNumber;
+    periodStart: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+  }>;
+
+  "getSpending(address,address,uint8)"(
+    avatar: string,
+    target: string,
+    kind: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    spent: BigNumber;
+    periodStart: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+  }>;
+
+  guardian(overrides?: CallOverrides): Promise<string>;
+
+  "guardian()"(overrides?: CallOverrides): Promise<string>;
+
+  isAllowedExecutor(
+    executor: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isAllowedExecutor(address)"(
+    executor: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isAllowedFunction(
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isAllowedFunction(address,bytes4)"(
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isAllowedFunctionForSender(
+    sender: string,
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isAllowedFunctionForSender(address,address,bytes4)"(
+    sender: string,
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isAllowedTarget(target: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "isAllowedTarget(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isAllowedTargetForSender(
+    sender: string,
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isAllowedTargetForSender(address,address)"(
+    sender: string,
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isAllowedToDelegateCall(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isAllowedToDelegateCall(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isDeniedFunction(
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isDeniedFunction(address,bytes4)"(
+    target: string,
+    functionSig: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isDenyList(target: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "isDenyList(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isParameterScoped(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isParameterScoped(address,bytes4,uint256)"(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isRestrictedSender(
+    sender: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isRestrictedSender(address)"(
+    sender: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isScoped(target: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "isScoped(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isScopedForSender(
+    sender: string,
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isScopedForSender(address,address)"(
+    sender: string,
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isValueAllowed(target: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "isValueAllowed(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isfallbackAllowed(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isfallbackAllowed(address)"(
+    target: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  multiSend(overrides?: CallOverrides): Promise<string>;
+
+  "multiSend()"(overrides?: CallOverrides): Promise<string>;
+
+  owner(overrides?: CallOverrides): Promise<string>;
+
+  "owner()"(overrides?: CallOverrides): Promise<string>;
+
+  pause(overrides?: Overrides): Promise<ContractTransaction>;
+
+  "pause()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+  paused(overrides?: CallOverrides): Promise<boolean>;
+
+  "paused()"(overrides?: CallOverrides): Promise<boolean>;
+
+  queueChange(
+    data: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "queueChange(bytes)"(
+    data: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  recoveryTargets(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "recoveryTargets(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  refundReceivers(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "refundReceivers(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  refundRules(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<{
+    maxGasPrice: BigNumber;
+    maxBaseGas: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+  }>;
+
+  "refundRules(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<{
+    maxGasPrice: BigNumber;
+    maxBaseGas: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+  }>;
+
+  removeGuard(
+    guard: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "removeGuard(address)"(
+    guard: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  removeParameterCondition(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "removeParameterCondition(address,bytes4,uint256)"(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  renounceOwnership(overrides?: Overrides): Promise<ContractTransaction>;
+
+  "renounceOwnership()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+  resetAllowance(
+    avatar: string,
+    target: string,
+    kind: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "resetAllowance(address,address,uint8)"(
+    avatar: string,
+    target: string,
+    kind: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  restrictedSenderCount(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "restrictedSenderCount()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  restrictedSenders(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "restrictedSenders(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  setAllowance(
+    target: string,
+    kind: BigNumberish,
+    amount: BigNumberish,
+    period: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setAllowance(address,uint8,uint256,uint64)"(
+    target: string,
+    kind: BigNumberish,
+    amount: BigNumberish,
+    period: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setAllowedFunction(
+    target: string,
+    functionSig: BytesLike,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setAllowedFunction(address,bytes4,bool)"(
+    target: string,
+    functionSig: BytesLike,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setAllowedFunctionForSender(
+    sender: string,
+    target: string,
+    functionSig: BytesLike,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setAllowedFunctionForSender(address,address,bytes4,bool)"(
+    sender: string,
+    target: string,
+    functionSig: BytesLike,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setAllowedFunctions(
+    target: string,
+    functionSigs: BytesLike[],
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setAllowedFunctions(address,bytes4[],bool)"(
+    target: string,
+    functionSigs: BytesLike[],
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setDelay(
+    _delay: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setDelay(uint256)"(
+    _delay: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setDelegateCallAllowedOnTarget(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setDelegateCallAllowedOnTarget(address,bool)"(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setDeniedFunction(
+    target: string,
+    functionSig: BytesLike,
+    deny: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setDeniedFunction(address,bytes4,bool)"(
+    target: string,
+    functionSig: BytesLike,
+    deny: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setDenyList(
+    target: string,
+    denyList: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setDenyList(address,bool)"(
+    target: string,
+    denyList: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setExecutorAllowed(
+    executor: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setExecutorAllowed(address,bool)"(
+    executor: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setFallbackAllowedOnTarget(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setFallbackAllowedOnTarget(address,bool)"(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setGuardian(
+    _guardian: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setGuardian(address)"(
+    _guardian: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setMaxValueOnFunction(
+    target: string,
+    functionSig: BytesLike,
+    maxValue: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setMaxValueOnFunction(address,bytes4,uint256)"(
+    target: string,
+    functionSig: BytesLike,
+    maxValue: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setMaxValueOnTarget(
+    target: string,
+    maxValue: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setMaxValueOnTarget(address,uint256)"(
+    target: string,
+    maxValue: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setMultiSend(
+    _multiSend: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setMultiSend(address)"(
+    _multiSend: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setParameterCondition(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    paramType: BigNumberish,
+    comparison: BigNumberish,
+    compValues: BytesLike[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setParameterCondition(address,bytes4,uint256,uint8,uint8,bytes32[])"(
+    target: string,
+    functionSig: BytesLike,
+    index: BigNumberish,
+    paramType: BigNumberish,
+    comparison: BigNumberish,
+    compValues: BytesLike[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setRecoveryTarget(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setRecoveryTarget(address,bool)"(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setRefundReceiverAllowed(
+    receiver: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setRefundReceiverAllowed(address,bool)"(
+    receiver: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setRefundRule(
+    gasToken: string,
+    maxGasPrice: BigNumberish,
+    maxBaseGas: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setRefundRule(address,uint256,uint256)"(
+    gasToken: string,
+    maxGasPrice: BigNumberish,
+    maxBaseGas: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setScoped(
+    target: string,
+    scoped: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setScoped(address,bool)"(
+    target: string,
+    scoped: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setScopedForSender(
+    sender: string,
+    target: string,
+    scoped: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setScopedForSender(address,address,bool)"(
+    sender: string,
+    target: string,
+    scoped: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setSenderRestricted(
+    sender: string,
+    restricted: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setSenderRestricted(address,bool)"(
+    sender: string,
+    restricted: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setTargetAllowed(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setTargetAllowed(address,bool)"(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setTargetAllowedForSender(
+    sender: string,
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setTargetAllowedForSender(address,address,bool)"(
+    sender: string,
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setTargetsAllowed(
+    targets: { target: string; value: boolean }[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setTargetsAllowed(tuple[])"(
+    targets: { target: string; value: boolean }[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setTargetsScoped(
+    targets: { target: string; value: boolean }[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setTargetsScoped(tuple[])"(
+    targets: { target: string; value: boolean }[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setUp(
+    initializeParams: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setUp(bytes)"(
+    initializeParams: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setValueAllowedOnTarget(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setValueAllowedOnTarget(address,bool)"(
+    target: string,
+    allow: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  supportsInterface(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "supportsInterface(bytes4)"(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  transferOwnership(
+    newOwner: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "transferOwnership(address)"(
+    newOwner: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  unpause(overrides?: Overrides): Promise<ContractTransaction>;
+
+  "unpause()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+  callStatic: {
+    addGuard(guard: string, overrides?: CallOverrides): Promise<void>;
+
+    "addGuard(address)"(
+      guard: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    allowedExecutors(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+    "allowedExecutors(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    allowedTargets(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      allowed: boolean;
+      scoped: boolean;
+      delegateCallAllowed: boolean;
+      fallbackAllowed: boolean;
+      valueAllowed: boolean;
+      denyList: boolean;
+      maxValue: BigNumber;
+      0: boolean;
+      1: boolean;
+      2: boolean;
+      3: boolean;
+      4: boolean;
+      5: boolean;
+      6: BigNumber;
+    }>;
+
+    "allowedTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      allowed: boolean;
+      scoped: boolean;
+      delegateCallAllowed: boolean;
+      fallbackAllowed: boolean;
+      valueAllowed: boolean;
+      denyList: boolean;
+      maxValue: BigNumber;
+      0: boolean;
+      1: boolean;
+      2: boolean;
+      3: boolean;
+      4: boolean;
+      5: boolean;
+      6: BigNumber;
+    }>;
+
+    cancelChange(id: BytesLike, overrides?: CallOverrides): Promise<void>;
+
+    "cancelChange(bytes32)"(
+      id: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    changeEta(arg0: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "changeEta(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    changeNonce(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "changeNonce()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    checkAfterExecution(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "checkAfterExecution(bytes32,bool)"(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    checkTransaction(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "checkTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes,address)"(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    delay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "delay()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    executeChange(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "executeChange(bytes,uint256)"(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    getAllowance(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      amount: BigNumber;
+      period: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    "getAllowance(address,uint8)"(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      amount: BigNumber;
+      period: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    getAllowedFunctionCount(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getAllowedFunctionCount(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getAllowedFunctions(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string[]>;
+
+    "getAllowedFunctions(address,uint256,uint256)"(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string[]>;
+
+    getAllowedTargetCount(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getAllowedTargetCount()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getAllowedTargets(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string[]>;
+
+    "getAllowedTargets(uint256,uint256)"(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string[]>;
+
+    getGuards(overrides?: CallOverrides): Promise<string[]>;
+
+    "getGuards()"(overrides?: CallOverrides): Promise<string[]>;
+
+    getMaxValue(target: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getMaxValue(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getMaxValueOnFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      paramType: number;
+      comparison: number;
+      compValues: string[];
+      0: number;
+      1: number;
+      2: string[];
+    }>;
+
+    "getParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      paramType: number;
+      comparison: number;
+      compValues: string[];
+      0: number;
+      1: number;
+      2: string[];
+    }>;
+
+    getSpending(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      spent: BigNumber;
+      periodStart: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    "getSpending(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      spent: BigNumber;
+      periodStart: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    guardian(overrides?: CallOverrides): Promise<string>;
+
+    "guardian()"(overrides?: CallOverrides): Promise<string>;
+
+    isAllowedExecutor(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isAllowedExecutor(address)"(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isAllowedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isAllowedFunctionForSender(address,address,bytes4)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isAllowedTarget(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isAllowedTarget(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isAllowedTargetForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isAllowedTargetForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isAllowedToDelegateCall(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isAllowedToDelegateCall(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isDeniedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isDenyList(target: string, overrides?: CallOverrides): Promise<boolean>;
+
+    "isDenyList(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isParameterScoped(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isParameterScoped(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isRestrictedSender(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isRestrictedSender(address)"(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isScoped(target: string, overrides?: CallOverrides): Promise<boolean>;
+
+    "isScoped(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isScopedForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isScopedForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isValueAllowed(target: string, overrides?: CallOverrides): Promise<boolean>;
+
+    "isValueAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isfallbackAllowed(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isfallbackAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    multiSend(overrides?: CallOverrides): Promise<string>;
+
+    "multiSend()"(overrides?: CallOverrides): Promise<string>;
+
+    owner(overrides?: CallOverrides): Promise<string>;
+
+    "owner()"(overrides?: CallOverrides): Promise<string>;
+
+    pause(overrides?: CallOverrides): Promise<void>;
+
+    "pause()"(overrides?: CallOverrides): Promise<void>;
+
+    paused(overrides?: CallOverrides): Promise<boolean>;
+
+    "paused()"(overrides?: CallOverrides): Promise<boolean>;
+
+    queueChange(data: BytesLike, overrides?: CallOverrides): Promise<string>;
+
+    "queueChange(bytes)"(
+      data: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    recoveryTargets(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+    "recoveryTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    refundReceivers(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+    "refundReceivers(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    refundRules(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      maxGasPrice: BigNumber;
+      maxBaseGas: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    "refundRules(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      maxGasPrice: BigNumber;
+      maxBaseGas: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+    }>;
+
+    removeGuard(guard: string, overrides?: CallOverrides): Promise<void>;
+
+    "removeGuard(address)"(
+      guard: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    removeParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "removeParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    renounceOwnership(overrides?: CallOverrides): Promise<void>;
+
+    "renounceOwnership()"(overrides?: CallOverrides): Promise<void>;
+
+    resetAllowance(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "resetAllowance(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    restrictedSenderCount(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "restrictedSenderCount()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    restrictedSenders(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "restrictedSenders(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    setAllowance(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setAllowance(address,uint8,uint256,uint64)"(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setAllowedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setAllowedFunctionForSender(address,address,bytes4,bool)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setAllowedFunctions(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setAllowedFunctions(address,bytes4[],bool)"(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setDelay(_delay: BigNumberish, overrides?: CallOverrides): Promise<void>;
+
+    "setDelay(uint256)"(
+      _delay: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setDelegateCallAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setDelegateCallAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setDeniedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setDenyList(
+      target: string,
+      denyList: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setDenyList(address,bool)"(
+      target: string,
+      denyList: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setExecutorAllowed(
+      executor: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setExecutorAllowed(address,bool)"(
+      executor: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setFallbackAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setFallbackAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setGuardian(_guardian: string, overrides?: CallOverrides): Promise<void>;
+
+    "setGuardian(address)"(
+      _guardian: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setMaxValueOnFunction(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setMaxValueOnTarget(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setMaxValueOnTarget(address,uint256)"(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setMultiSend(_multiSend: string, overrides?: CallOverrides): Promise<void>;
+
+    "setMultiSend(address)"(
+      _multiSend: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setParameterCondition(address,bytes4,uint256,uint8,uint8,bytes32[])"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setRecoveryTarget(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setRecoveryTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setRefundReceiverAllowed(
+      receiver: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setRefundReceiverAllowed(address,bool)"(
+      receiver: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setRefundRule(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setRefundRule(address,uint256,uint256)"(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setScoped(
+      target: string,
+      scoped: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setScoped(address,bool)"(
+      target: string,
+      scoped: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setScopedForSender(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setScopedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setSenderRestricted(
+      sender: string,
+      restricted: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setSenderRestricted(address,bool)"(
+      sender: string,
+      restricted: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setTargetAllowed(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setTargetAllowed(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setTargetAllowedForSender(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setTargetAllowedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setTargetsAllowed(
+      targets: { target: string; value: boolean }[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setTargetsAllowed(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setTargetsScoped(
+      targets: { target: string; value: boolean }[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setTargetsScoped(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setUp(
+      initializeParams: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setUp(bytes)"(
+      initializeParams: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setValueAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setValueAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    transferOwnership(
+      newOwner: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "transferOwnership(address)"(
+      newOwner: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    unpause(overrides?: CallOverrides): Promise<void>;
+
+    "unpause()"(overrides?: CallOverrides): Promise<void>;
+  };
+
+  filters: {
+    AddGuard(guard: null): EventFilter;
+
+    ChangeCancelled(id: BytesLike | null): EventFilter;
+
+    ChangeExecuted(id: BytesLike | null): EventFilter;
+
+    ChangeQueued(
+      id: BytesLike | null,
+      nonce: null,
+      data: null,
+      eta: null
+    ): EventFilter;
+
+    OwnershipTransferred(
+      previousOwner: string | null,
+      newOwner: string | null
+    ): EventFilter;
+
+    Paused(account: null): EventFilter;
+
+    RemoveGuard(guard: null): EventFilter;
+
+    RemoveParameterCondition(
+      target: null,
+      functionSig: null,
+      index: null
+    ): EventFilter;
+
+    ResetAllowance(avatar: null, target: null, kind: null): EventFilter;
+
+    ScopeGuardSetup(
+      initiator: string | null,
+      owner: string | null
+    ): EventFilter;
+
+    SetAllowance(
+      target: null,
+      kind: null,
+      amount: null,
+      period: null
+    ): EventFilter;
+
+    SetDelay(delay: null): EventFilter;
+
+    SetDelegateCallAllowedOnTarget(target: null, allowed: null): EventFilter;
+
+    SetExecutorAllowed(executor: null, allowed: null): EventFilter;
+
+    SetFallbackAllowedOnTarget(target: null, allowed: null): EventFilter;
+
+    SetFunctionAllowedForSender(
+      sender: null,
+      target: null,
+      functionSig: null,
+      allowed: null
+    ): EventFilter;
+
+    SetFunctionAllowedOnTarget(
+      target: null,
+      functionSig: null,
+      allowed: null
+    ): EventFilter;
+
+    SetFunctionDeniedOnTarget(
+      target: null,
+      functionSig: null,
+      denied: null
+    ): EventFilter;
+
+    SetGuardian(guardian: null): EventFilter;
+
+    SetMaxValueOnFunction(
+      target: null,
+      functionSig: null,
+      maxValue: null
+    ): EventFilter;
+
+    SetMaxValueOnTarget(target: null, maxValue: null): EventFilter;
+
+    SetMultiSend(multiSend: null): EventFilter;
+
+    SetParameterCondition(
+      target: null,
+      functionSig: null,
+      index: null,
+      paramType: null,
+      comparison: null,
+      compValues: null
+    ): EventFilter;
+
+    SetRecoveryTarget(target: null, allowed: null): EventFilter;
+
+    SetRefundReceiverAllowed(receiver: null, allowed: null): EventFilter;
+
+    SetRefundRule(
+      gasToken: null,
+      maxGasPrice: null,
+      maxBaseGas: null
+    ): EventFilter;
+
+    SetSenderRestricted(sender: null, restricted: null): EventFilter;
+
+    SetTargetAllowed(target: null, allowed: null): EventFilter;
+
+    SetTargetAllowedForSender(
+      sender: null,
+      target: null,
+      allowed: null
+    ): EventFilter;
+
+    SetTargetDenyList(target: null, denyList: null): EventFilter;
+
+    SetTargetScoped(target: null, scoped: null): EventFilter;
+
+    SetTargetScopedForSender(
+      sender: null,
+      target: null,
+      scoped: null
+    ): EventFilter;
+
+    SetValueAllowedOnTarget(target: null, allowed: null): EventFilter;
+
+    Unpaused(account: null): EventFilter;
+  };
+
+  estimateGas: {
+    addGuard(guard: string, overrides?: Overrides): Promise<BigNumber>;
+
+    "addGuard(address)"(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    allowedExecutors(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "allowedExecutors(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    allowedTargets(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "allowedTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    cancelChange(id: BytesLike, overrides?: Overrides): Promise<BigNumber>;
+
+    "cancelChange(bytes32)"(
+      id: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    changeEta(arg0: BytesLike, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "changeEta(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    changeNonce(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "changeNonce()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    checkAfterExecution(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "checkAfterExecution(bytes32,bool)"(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    checkTransaction(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "checkTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes,address)"(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    delay(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "delay()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    executeChange(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "executeChange(bytes,uint256)"(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    getAllowance(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getAllowance(address,uint8)"(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getAllowedFunctionCount(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getAllowedFunctionCount(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getAllowedFunctions(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getAllowedFunctions(address,uint256,uint256)"(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getAllowedTargetCount(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getAllowedTargetCount()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getAllowedTargets(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getAllowedTargets(uint256,uint256)"(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getGuards(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getGuards()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getMaxValue(target: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getMaxValue(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getMaxValueOnFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getSpending(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getSpending(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    guardian(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "guardian()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    isAllowedExecutor(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isAllowedExecutor(address)"(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isAllowedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isAllowedFunctionForSender(address,address,bytes4)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isAllowedTarget(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isAllowedTarget(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isAllowedTargetForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isAllowedTargetForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isAllowedToDelegateCall(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isAllowedToDelegateCall(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isDeniedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isDenyList(target: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "isDenyList(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isParameterScoped(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isParameterScoped(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isRestrictedSender(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isRestrictedSender(address)"(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isScoped(target: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "isScoped(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isScopedForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isScopedForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isValueAllowed(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isValueAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isfallbackAllowed(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isfallbackAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    multiSend(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "multiSend()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "owner()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    pause(overrides?: Overrides): Promise<BigNumber>;
+
+    "pause()"(overrides?: Overrides): Promise<BigNumber>;
+
+    paused(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "paused()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    queueChange(data: BytesLike, overrides?: Overrides): Promise<BigNumber>;
+
+    "queueChange(bytes)"(
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    recoveryTargets(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "recoveryTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    refundReceivers(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "refundReceivers(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    refundRules(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "refundRules(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    removeGuard(guard: string, overrides?: Overrides): Promise<BigNumber>;
+
+    "removeGuard(address)"(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    removeParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "removeParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    renounceOwnership(overrides?: Overrides): Promise<BigNumber>;
+
+    "renounceOwnership()"(overrides?: Overrides): Promise<BigNumber>;
+
+    resetAllowance(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "resetAllowance(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    restrictedSenderCount(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "restrictedSenderCount()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    restrictedSenders(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "restrictedSenders(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    setAllowance(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setAllowance(address,uint8,uint256,uint64)"(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setAllowedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setAllowedFunctionForSender(address,address,bytes4,bool)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setAllowedFunctions(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setAllowedFunctions(address,bytes4[],bool)"(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setDelay(_delay: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+
+    "setDelay(uint256)"(
+      _delay: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setDelegateCallAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setDelegateCallAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setDeniedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setDenyList(
+      target: string,
+      denyList: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setDenyList(address,bool)"(
+      target: string,
+      denyList: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setExecutorAllowed(
+      executor: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setExecutorAllowed(address,bool)"(
+      executor: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setFallbackAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setFallbackAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setGuardian(_guardian: string, overrides?: Overrides): Promise<BigNumber>;
+
+    "setGuardian(address)"(
+      _guardian: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setMaxValueOnFunction(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setMaxValueOnTarget(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setMaxValueOnTarget(address,uint256)"(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setMultiSend(_multiSend: string, overrides?: Overrides): Promise<BigNumber>;
+
+    "setMultiSend(address)"(
+      _multiSend: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setParameterCondition(address,bytes4,uint256,uint8,uint8,bytes32[])"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setRecoveryTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setRecoveryTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setRefundReceiverAllowed(
+      receiver: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setRefundReceiverAllowed(address,bool)"(
+      receiver: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setRefundRule(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setRefundRule(address,uint256,uint256)"(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setScoped(
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setScoped(address,bool)"(
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setScopedForSender(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setScopedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setSenderRestricted(
+      sender: string,
+      restricted: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setSenderRestricted(address,bool)"(
+      sender: string,
+      restricted: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setTargetAllowed(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setTargetAllowed(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setTargetAllowedForSender(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setTargetAllowedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setTargetsAllowed(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setTargetsAllowed(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setTargetsScoped(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setTargetsScoped(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setUp(
+      initializeParams: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setUp(bytes)"(
+      initializeParams: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setValueAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setValueAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "transferOwnership(address)"(
+      newOwner: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    unpause(overrides?: Overrides): Promise<BigNumber>;
+
+    "unpause()"(overrides?: Overrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    addGuard(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "addGuard(address)"(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    allowedExecutors(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "allowedExecutors(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    allowedTargets(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "allowedTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    cancelChange(
+      id: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "cancelChange(bytes32)"(
+      id: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    changeEta(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "changeEta(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    changeNonce(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "changeNonce()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    checkAfterExecution(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "checkAfterExecution(bytes32,bool)"(
+      arg0: BytesLike,
+      success: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    checkTransaction(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "checkTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes,address)"(
+      to: string,
+      value: BigNumberish,
+      data: BytesLike,
+      operation: BigNumberish,
+      arg4: BigNumberish,
+      baseGas: BigNumberish,
+      gasPrice: BigNumberish,
+      gasToken: string,
+      refundReceiver: string,
+      arg9: BytesLike,
+      msgSender: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    delay(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "delay()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    executeChange(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "executeChange(bytes,uint256)"(
+      data: BytesLike,
+      nonce: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    getAllowance(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getAllowance(address,uint8)"(
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getAllowedFunctionCount(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getAllowedFunctionCount(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getAllowedFunctions(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getAllowedFunctions(address,uint256,uint256)"(
+      target: string,
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getAllowedTargetCount(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getAllowedTargetCount()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getAllowedTargets(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getAllowedTargets(uint256,uint256)"(
+      start: BigNumberish,
+      count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getGuards(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "getGuards()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    getMaxValue(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getMaxValue(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getMaxValueOnFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getSpending(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getSpending(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    guardian(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "guardian()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    isAllowedExecutor(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isAllowedExecutor(address)"(
+      executor: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isAllowedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isAllowedFunctionForSender(address,address,bytes4)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isAllowedTarget(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isAllowedTarget(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isAllowedTargetForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isAllowedTargetForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isAllowedToDelegateCall(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isAllowedToDelegateCall(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isDeniedFunction(address,bytes4)"(
+      target: string,
+      functionSig: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isDenyList(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isDenyList(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isParameterScoped(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isParameterScoped(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isRestrictedSender(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isRestrictedSender(address)"(
+      sender: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isScoped(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isScoped(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isScopedForSender(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isScopedForSender(address,address)"(
+      sender: string,
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isValueAllowed(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isValueAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isfallbackAllowed(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isfallbackAllowed(address)"(
+      target: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    multiSend(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "multiSend()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "owner()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    pause(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    "pause()"(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    paused(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "paused()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    queueChange(
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "queueChange(bytes)"(
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    recoveryTargets(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "recoveryTargets(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    refundReceivers(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "refundReceivers(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    refundRules(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "refundRules(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    removeGuard(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "removeGuard(address)"(
+      guard: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    removeParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "removeParameterCondition(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    renounceOwnership(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    "renounceOwnership()"(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    resetAllowance(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "resetAllowance(address,address,uint8)"(
+      avatar: string,
+      target: string,
+      kind: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    restrictedSenderCount(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "restrictedSenderCount()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    restrictedSenders(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "restrictedSenders(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    setAllowance(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setAllowance(address,uint8,uint256,uint64)"(
+      target: string,
+      kind: BigNumberish,
+      amount: BigNumberish,
+      period: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setAllowedFunction(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setAllowedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setAllowedFunctionForSender(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setAllowedFunctionForSender(address,address,bytes4,bool)"(
+      sender: string,
+      target: string,
+      functionSig: BytesLike,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setAllowedFunctions(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setAllowedFunctions(address,bytes4[],bool)"(
+      target: string,
+      functionSigs: BytesLike[],
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setDelay(
+      _delay: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setDelay(uint256)"(
+      _delay: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setDelegateCallAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setDelegateCallAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setDeniedFunction(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setDeniedFunction(address,bytes4,bool)"(
+      target: string,
+      functionSig: BytesLike,
+      deny: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setDenyList(
+      target: string,
+      denyList: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setDenyList(address,bool)"(
+      target: string,
+      denyList: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setExecutorAllowed(
+      executor: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setExecutorAllowed(address,bool)"(
+      executor: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setFallbackAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setFallbackAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setGuardian(
+      _guardian: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setGuardian(address)"(
+      _guardian: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setMaxValueOnFunction(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setMaxValueOnFunction(address,bytes4,uint256)"(
+      target: string,
+      functionSig: BytesLike,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setMaxValueOnTarget(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setMaxValueOnTarget(address,uint256)"(
+      target: string,
+      maxValue: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setMultiSend(
+      _multiSend: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setMultiSend(address)"(
+      _multiSend: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setParameterCondition(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setParameterCondition(address,bytes4,uint256,uint8,uint8,bytes32[])"(
+      target: string,
+      functionSig: BytesLike,
+      index: BigNumberish,
+      paramType: BigNumberish,
+      comparison: BigNumberish,
+      compValues: BytesLike[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setRecoveryTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setRecoveryTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setRefundReceiverAllowed(
+      receiver: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setRefundReceiverAllowed(address,bool)"(
+      receiver: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setRefundRule(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setRefundRule(address,uint256,uint256)"(
+      gasToken: string,
+      maxGasPrice: BigNumberish,
+      maxBaseGas: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setScoped(
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setScoped(address,bool)"(
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setScopedForSender(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setScopedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      scoped: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setSenderRestricted(
+      sender: string,
+      restricted: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setSenderRestricted(address,bool)"(
+      sender: string,
+      restricted: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setTargetAllowed(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setTargetAllowed(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setTargetAllowedForSender(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setTargetAllowedForSender(address,address,bool)"(
+      sender: string,
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setTargetsAllowed(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setTargetsAllowed(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setTargetsScoped(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setTargetsScoped(tuple[])"(
+      targets: { target: string; value: boolean }[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setUp(
+      initializeParams: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setUp(bytes)"(
+      initializeParams: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setValueAllowedOnTarget(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setValueAllowedOnTarget(address,bool)"(
+      target: string,
+      allow: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    transferOwnership(
+      newOwner: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "transferOwnership(address)"(
+      newOwner: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    unpause(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    "unpause()"(overrides?: Overrides): Promise<PopulatedTransaction>;
+  };
+}
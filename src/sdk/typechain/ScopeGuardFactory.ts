@@ -0,0 +1,2377 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { ScopeGuard } from "./ScopeGuard";
+
+export class ScopeGuardFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(_owner: string, overrides?: Overrides): Promise<ScopeGuard> {
+    return super.deploy(_owner, overrides || {}) as Promise<ScopeGuard>;
+  }
+  getDeployTransaction(
+    _owner: string,
+    overrides?: Overrides
+  ): TransactionRequest {
+    return super.getDeployTransaction(_owner, overrides || {});
+  }
+  attach(address: string): ScopeGuard {
+    return super.attach(address) as ScopeGuard;
+  }
+  connect(signer: Signer): ScopeGuardFactory {
+    return super.connect(signer) as ScopeGuardFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): ScopeGuard {
+    return new Contract(address, _abi, signerOrProvider) as ScopeGuard;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_owner",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "guard",
+        type: "address",
+      },
+    ],
+    name: "AddGuard",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32",
+      },
+    ],
+    name: "ChangeCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32",
+      },
+    ],
+    name: "ChangeExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "eta",
+        type: "uint256",
+      },
+    ],
+    name: "ChangeQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "guard",
+        type: "address",
+      },
+    ],
+    name: "RemoveGuard",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "RemoveParameterCondition",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "avatar",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum ScopeGuard.AllowanceKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "ResetAllowance",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "initiator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ScopeGuardSetup",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum ScopeGuard.AllowanceKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "period",
+        type: "uint64",
+      },
+    ],
+    name: "SetAllowance",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "delay",
+        type: "uint256",
+      },
+    ],
+    name: "SetDelay",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetDelegateCallAllowedOnTarget",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetExecutorAllowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetFallbackAllowedOnTarget",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetFunctionAllowedForSender",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetFunctionAllowedOnTarget",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "denied",
+        type: "bool",
+      },
+    ],
+    name: "SetFunctionDeniedOnTarget",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "guardian",
+        type: "address",
+      },
+    ],
+    name: "SetGuardian",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxValue",
+        type: "uint256",
+      },
+    ],
+    name: "SetMaxValueOnFunction",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxValue",
+        type: "uint256",
+      },
+    ],
+    name: "SetMaxValueOnTarget",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "multiSend",
+        type: "address",
+      },
+    ],
+    name: "SetMultiSend",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum ScopeGuard.ParameterType",
+        name: "paramType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum ScopeGuard.Comparison",
+        name: "comparison",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "compValues",
+        type: "bytes32[]",
+      },
+    ],
+    name: "SetParameterCondition",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetRecoveryTarget",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetRefundReceiverAllowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "gasToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxGasPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxBaseGas",
+        type: "uint256",
+      },
+    ],
+    name: "SetRefundRule",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "restricted",
+        type: "bool",
+      },
+    ],
+    name: "SetSenderRestricted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetTargetAllowed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetTargetAllowedForSender",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "denyList",
+        type: "bool",
+      },
+    ],
+    name: "SetTargetDenyList",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "scoped",
+        type: "bool",
+      },
+    ],
+    name: "SetTargetScoped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "scoped",
+        type: "bool",
+      },
+    ],
+    name: "SetTargetScopedForSender",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+    ],
+    name: "SetValueAllowedOnTarget",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    stateMutability: "nonpayable",
+    type: "fallback",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "guard",
+        type: "address",
+      },
+    ],
+    name: "addGuard",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowedExecutors",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowedTargets",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "scoped",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "delegateCallAllowed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "fallbackAllowed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "valueAllowed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "denyList",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "maxValue",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32",
+      },
+    ],
+    name: "cancelChange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "changeEta",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "changeNonce",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "success",
+        type: "bool",
+      },
+    ],
+    name: "checkAfterExecution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "enum Enum.Operation",
+        name: "operation",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "baseGas",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "gasPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "gasToken",
+        type: "address",
+      },
+      {
+        internalType: "address payable",
+        name: "refundReceiver",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "address",
+        name: "msgSender",
+        type: "address",
+      },
+    ],
+    name: "checkTransaction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "delay",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "executeChange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "enum ScopeGuard.AllowanceKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "getAllowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "period",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "getAllowedFunctionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getAllowedFunctions",
+    outputs: [
+      {
+        internalType: "bytes4[]",
+        name: "functionSigs",
+        type: "bytes4[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllowedTargetCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getAllowedTargets",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "targets",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getGuards",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "getMaxValue",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+    ],
+    name: "getMaxValueOnFunction",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getParameterCondition",
+    outputs: [
+      {
+        internalType: "enum ScopeGuard.ParameterType",
+        name: "paramType",
+        type: "uint8",
+      },
+      {
+        internalType: "enum ScopeGuard.Comparison",
+        name: "comparison",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "compValues",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "avatar",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "enum ScopeGuard.AllowanceKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "getSpending",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "spent",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "periodStart",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "guardian",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "isAllowedExecutor",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+    ],
+    name: "isAllowedFunction",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+    ],
+    name: "isAllowedFunctionForSender",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isAllowedTarget",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isAllowedTargetForSender",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isAllowedToDelegateCall",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+    ],
+    name: "isDeniedFunction",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isDenyList",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "isParameterScoped",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "isRestrictedSender",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isScoped",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isScopedForSender",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isValueAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "isfallbackAllowed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "multiSend",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "queueChange",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "id",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "recoveryTargets",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "refundReceivers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "refundRules",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "maxGasPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxBaseGas",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "guard",
+        type: "address",
+      },
+    ],
+    name: "removeGuard",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "removeParameterCondition",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "avatar",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "enum ScopeGuard.AllowanceKind",
+        name: "kind",
+        type: "uint8",
+      },
+    ],
+    name: "resetAllowance",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "restrictedSenderCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "restrictedSenders",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "enum ScopeGuard.AllowanceKind",
+        name: "kind",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "period",
+        type: "uint64",
+      },
+    ],
+    name: "setAllowance",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setAllowedFunction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setAllowedFunctionForSender",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4[]",
+        name: "functionSigs",
+        type: "bytes4[]",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setAllowedFunctions",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_delay",
+        type: "uint256",
+      },
+    ],
+    name: "setDelay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setDelegateCallAllowedOnTarget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "bool",
+        name: "deny",
+        type: "bool",
+      },
+    ],
+    name: "setDeniedFunction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "denyList",
+        type: "bool",
+      },
+    ],
+    name: "setDenyList",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setExecutorAllowed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setFallbackAllowedOnTarget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_guardian",
+        type: "address",
+      },
+    ],
+    name: "setGuardian",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "uint256",
+        name: "maxValue",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxValueOnFunction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxValue",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxValueOnTarget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_multiSend",
+        type: "address",
+      },
+    ],
+    name: "setMultiSend",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bytes4",
+        name: "functionSig",
+        type: "bytes4",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ScopeGuard.ParameterType",
+        name: "paramType",
+        type: "uint8",
+      },
+      {
+        internalType: "enum ScopeGuard.Comparison",
+        name: "comparison",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "compValues",
+        type: "bytes32[]",
+      },
+    ],
+    name: "setParameterCondition",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setRecoveryTarget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setRefundReceiverAllowed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "gasToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "maxGasPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxBaseGas",
+        type: "uint256",
+      },
+    ],
+    name: "setRefundRule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "scoped",
+        type: "bool",
+      },
+    ],
+    name: "setScoped",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "scoped",
+        type: "bool",
+      },
+    ],
+    name: "setScopedForSender",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "restricted",
+        type: "bool",
+      },
+    ],
+    name: "setSenderRestricted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setTargetAllowed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setTargetAllowedForSender",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "value",
+            type: "bool",
+          },
+        ],
+        internalType: "struct ScopeGuard.TargetFlag[]",
+        name: "targets",
+        type: "tuple[]",
+      },
+    ],
+    name: "setTargetsAllowed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "value",
+            type: "bool",
+          },
+        ],
+        internalType: "struct ScopeGuard.TargetFlag[]",
+        name: "targets",
+        type: "tuple[]",
+      },
+    ],
+    name: "setTargetsScoped",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "initializeParams",
+        type: "bytes",
+      },
+    ],
+    name: "setUp",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "allow",
+        type: "bool",
+      },
+    ],
+    name: "setValueAllowedOnTarget",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x60806040523480156200001157600080fd5b5060405162005e5038038062005e508339810160408190526200003491620003f4565b604080516001600160a01b03831660208201526000910160408051601f198184030181529190529050620000688162000070565b505062000431565b6200007a620000d9565b600081806020019051810190620000929190620003f4565b90506200009f8162000198565b6040516001600160a01b0382169033907fb7d049327659ac88e5dc97d11f318e5ed039ff505825266ba4e7dc685cecfe6390600090a35050565b600054610100900460ff1680620000f3575060005460ff16155b6200014b5760405162461bcd60e51b815260206004820152602e602482015260008051602062005e3083398151915260448201526d191e481a5b9a5d1a585b1a5e995960921b60648201526084015b60405180910390fd5b600054610100900460ff161580156200016e576000805461ffff19166101011790555b6200017862000266565b620001826200030b565b801562000195576000805461ff00191690555b50565b6033546001600160a01b03163314620001f45760405162461bcd60e51b815260206004820181905260248201527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604482015260640162000142565b6001600160a01b0381166200025b5760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b606482015260840162000142565b6200019581620003a2565b600054610100900460ff168062000280575060005460ff16155b620002d45760405162461bcd60e51b815260206004820152602e602482015260008051602062005e3083398151915260448201526d191e481a5b9a5d1a585b1a5e995960921b606482015260840162000142565b600054610100900460ff1615801562000182576000805461ffff1916610101179055801562000195576000805461ff001916905550565b600054610100900460ff168062000325575060005460ff16155b620003795760405162461bcd60e51b815260206004820152602e602482015260008051602062005e3083398151915260448201526d191e481a5b9a5d1a585b1a5e995960921b606482015260840162000142565b600054610100900460ff161580156200039c576000805461ffff19166101011790555b62000182335b603380546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6000602082840312156200040757600080fd5b815162000414816200041b565b9392505050565b6001600160a01b03811681146200019557600080fd5b6159ef80620004416000396000f3fe608060405234801561001057600080fd5b50600436106104485760003560e01c80638456cb591161023f578063bb9ab3b41161013a578063e0c81235116100bd578063f0ef217711610084578063f0ef217714610d20578063f15b997814610d28578063f2fde38b14610d3b578063fd8178e514610d4e578063fe8ad1b514610d5657005b8063e0c8123514610cb1578063e177246e14610cc4578063e42398ad14610cd7578063e49cda0814610cfa578063f080124b14610d0d57005b8063d3ed2f4c11610101578063d3ed2f4c14610bdd578063d73d1d8b14610c30578063d814562614610c78578063d94613c314610c8b578063dbe894de14610c9e57005b8063bb9ab3b414610b37578063bccb01be14610b63578063ca01bf5614610b76578063cda270d714610b89578063cde1351714610bca57005b8063955b3b47116101c2578063ad1cb5a411610189578063ad1cb5a414610a2d578063ada4e60514610a60578063b623501614610a73578063b832aec514610a86578063b8fe8d5f14610a9957005b8063955b3b47146109a057806397585dec146109b3578063981a9871146109d3578063a4f9edbf14610a07578063a9163d9514610a1a57005b80638da5cb5b116102065780638da5cb5b146109275780638ec41cf114610938578063932713681461096457806394161f6e1461097757806394fa90091461098057005b80638456cb59146108c35780638568749c146108cb5780638734d231146108ee5780638a0dac4a146109015780638cd5153b1461091457005b80634506ab431161034f578063692f5751116102d257806375f0bb521161029957806375f0bb521461084b57806378addb481461085e57806379ed1b801461088a5780637e2e6a6f1461089d57806381a0a4aa146108b057005b8063692f5751146107cf5780636a42b8f8146107e25780636d08e4ad146107eb5780636ff11535146107fe578063715018a61461084357005b806358f1e7bb1161031657806358f1e7bb146107565780635c975abb146107695780636631d7a91461077d57806368fec4da146107a95780636913a63c146107bc57005b80634506ab43146106b6578063452a9320146106f2578063482f2ba41461071d5780634a4c70fd146107305780635449b7981461074357005b806326c30ec5116103d757806339d765171161039e57806339d76517146106325780633a3d56fa146106555780633f4ba83a146106685780633ff81c6d1461067057806342dc3a2b1461068357005b806326c30ec51461054757806327f8d5c2146105785780632986957c146105c0578063343f1612146105fc57806337cb67361461060f57005b8063172839d01161041b578063172839d0146104d7578063173e7703146104ea5780631bed985d146105015780631cd6184a1461052157806323b72c291461053457005b806301ffc9a71461044a57806309e360fe146104725780630e55e58c14610494578063113f5f03146104a7575b005b61045d6104583660046152d9565b610d88565b60405190151581526020015b60405180910390f35b610485610480366004614ee5565b610dbf565b60405161046993929190615684565b6104486104a2366004614e54565b610e6c565b6104ba6104b5366004615026565b610eea565b604080519283526001600160401b03909116602083015201610469565b6104ba6104e5366004614d85565b610f59565b6104f360665481565b604051908152602001610469565b6104f361050f36600461529b565b60676020526000908152604090205481565b61044861052f366004615054565b610f74565b610448610542366004614e54565b611066565b61045d610555366004614c26565b6001600160a01b0316600090815260686020526040902054610100900460ff1690565b61045d610586366004614e82565b6001600160a01b03821660009081526068602090815260408083206001600160e01b03198516845260020190915290205460ff1692915050565b6105e76105ce366004614c26565b6076602052600090815260409020805460019091015482565b60408051928352602083019190915201610469565b61044861060a366004614e54565b6110ca565b61045d61061d366004614c26565b606f6020526000908152604090205460ff1681565b61045d610640366004614c26565b606c6020526000908152604090205460ff1681565b610448610663366004614e54565b611140565b6104486111e1565b61044861067e366004614e54565b6112a6565b61045d610691366004614c26565b6001600160a01b03166000908152606860205260409020546301000000900460ff1690565b61045d6106c4366004614c60565b6001600160a01b039182166000908152606d6020908152604080832093909416825291909152205460ff1690565b607454610705906001600160a01b031681565b6040516001600160a01b039091168152602001610469565b61044861072b366004614d85565b61130a565b61044861073e366004614eb7565b6113c5565b61044861075136600461529b565b6114dc565b610448610764366004614e54565b611593565b60745461045d90600160a01b900460ff1681565b61045d61078b366004614c26565b6001600160a01b03166000908152606c602052604090205460ff1690565b6104486107b7366004614e54565b611607565b6104486107ca366004614c26565b61166b565b6104486107dd366004614d2b565b61183c565b6104f360655481565b6104486107f9366004615335565b6118da565b6104f361080c366004614e82565b6001600160a01b03821660009081526068602090815260408083206001600160e01b03198516845260040190915290205492915050565b610448611a58565b6104486108593660046150d4565b611a8e565b61045d61086c366004614c26565b6001600160a01b031660009081526068602052604090205460ff1690565b610448610898366004614ee5565b611b3a565b6104486108ab3660046151b8565b611ba9565b6104f36108be3660046152f4565b611c24565b610448611d01565b61045d6108d9366004614c26565b60776020526000908152604090205460ff1681565b6104486108fc3660046150a8565b611e0b565b61044861090f366004614c26565b611e67565b610448610922366004614e54565b611ebd565b6033546001600160a01b0316610705565b61045d610946366004614c26565b6001600160a01b03166000908152606f602052604090205460ff1690565b6104486109723660046152b4565b611f7d565b6104f3606e5481565b61099361098e3660046151b8565b612099565b604051610469919061561e565b61045d6109ae366004614ee5565b612170565b6109c66109c13660046153bc565b6121c1565b60405161046991906155d1565b61045d6109e1366004614c26565b6001600160a01b0316600090815260686020526040902054640100000000900460ff1690565b610448610a15366004615380565b61227e565b610448610a28366004614f23565b6122e1565b61045d610a3b366004614c26565b6001600160a01b0316600090815260686020526040902054600160281b900460ff1690565b610448610a6e366004614eb7565b6125d0565b610448610a81366004614c26565b612650565b610448610a94366004614e54565b6127ff565b610af8610aa7366004614c26565b6068602052600090815260409020805460019091015460ff808316926101008104821692620100008204831692630100000083048116926401000000008104821692600160281b9091049091169087565b60408051971515885295151560208801529315159486019490945290151560608501521515608084015290151560a083015260c082015260e001610469565b6104f3610b45366004614c26565b6001600160a01b031660009081526068602052604090206001015490565b610448610b713660046151ed565b612877565b610448610b84366004614c99565b6128f1565b61045d610b97366004614c60565b6001600160a01b039182166000908152606d60209081526040808320939094168252919091522054610100900460ff1690565b610448610bd83660046151ed565b612980565b61045d610beb366004614ce4565b6001600160a01b038084166000908152606d6020908152604080832093861683529281528282206001600160e01b0319851683526001019052205460ff169392505050565b61045d610c3e366004614e82565b6001600160a01b03821660009081526068602090815260408083206001600160e01b03198516845260030190915290205460ff1692915050565b610448610c86366004614c26565b6129fa565b610448610c99366004614dc5565b612a50565b610448610cac366004614c99565b612aad565b610448610cbf366004614ee5565b612b31565b610448610cd236600461529b565b612c49565b61045d610ce5366004614c26565b60756020526000908152604090205460ff1681565b607354610705906001600160a01b031681565b6104f3610d1b366004614c26565b612c86565b6109c6612ca7565b610448610d36366004614e54565b612d09565b610448610d49366004614c26565b612d81565b6104f3612e1c565b61045d610d64366004614c26565b6001600160a01b031660009081526068602052604090205462010000900460ff1690565b60006001600160e01b0319821663736bd41d60e11b1480610db957506001600160e01b031982166301ffc9a760e01b145b92915050565b6001600160a01b03831660009081526068602090815260408083206001600160e01b031986168452600601825280832084845282528083208054600182018054845181870281018701909552808552869560609560ff8086169561010090041693929091839190830182828015610e5557602002820191906000526020600020905b815481526020019060010190808311610e41575b505050505090509350935093505093509350939050565b610e74612e2d565b6001600160a01b03821660009081526068602052604090819020805483151561010090810261ff0019909216919091179182905591517f521944f404cacdb4baedc40a2c8245aba6556163c454ce8ccdaa0ca92e740f0b92610ede92869291900460ff16906154c0565b60405180910390a15050565b6001600160a01b03821660009081526070602052604081208190819081856001811115610f1957610f19615921565b6001811115610f2a57610f2a615921565b8152602081019190915260400160002080546001909101549093506001600160401b03169150505b9250929050565b600080610f67858585612ebd565b915091505b935093915050565b610f7c612e2d565b6040518060400160405280838152602001826001600160401b031681525060706000866001600160a01b03166001600160a01b031681526020019081526020016000206000856001811115610fd357610fd3615921565b6001811115610fe457610fe4615921565b815260208082019290925260409081016000208351815592909101516001909201805467ffffffffffffffff19166001600160401b0390931692909217909155517fdf09622e5dabf739b0495502adc6ac63dde1e1cd1037f83838241ec6601839c490611058908690869086908690615594565b60405180910390a150505050565b61106e612e2d565b6001600160a01b03821660009081526075602052604090819020805460ff191683151590811790915590517f542d81dfd9ed465d55500edd1f6000c876a3a0acbd69790f7c7937ed5339fcd891610ede91859160ff16906154c0565b6110d2612e2d565b6001600160a01b038216600090815260686020526040908190208054831515630100000090810263ff00000019909216919091179182905591517f57958405dfb218dcea435b51315c6d934e507fb448eddd732b0d0e569f96226b92610ede92869291900460ff16906154c0565b611148612e2d565b6001600160a01b0382166000908152606860205260409020805460ff1916821580159190911790915561118657611180606983612ffa565b50611193565b61119160698361300f565b505b6001600160a01b038216600090815260686020526040908190205490517f96ef193c48bfbd147dff52696b513ef3228ec95ac1a80e923151beff8b74f4ae91610ede91859160ff16906154c0565b6033546001600160a01b031633146112145760405162461bcd60e51b815260040161120b9061577d565b60405180910390fd5b607454600160a01b900460ff166112635760405162461bcd60e51b815260206004820152601360248201527211dd585c99081a5cc81b9bdd081c185d5cd959606a1b604482015260640161120b565b6074805460ff60a01b191690556040513381527f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa906020015b60405180910390a1565b6112ae612e2d565b6001600160a01b03821660009081526077602052604090819020805460ff191683151590811790915590517f33461de253d938a9753f79002cea3f8cf68400e62a0fbb2f76a96fbb45e8514b91610ede91859160ff16906154c0565b611312612e2d565b6001600160a01b03808416600090815260716020908152604080832093861683529290529081209082600181111561134c5761134c615921565b600181111561135d5761135d615921565b8152602081019190915260409081016000908120908155600101805467ffffffffffffffff19169055517f0dc46ecb5b7fb7cd689a45db7913b189fca6b4ad39481590463b0efb45e1258f906113b890859085908590615491565b60405180910390a1505050565b6113cd612e2d565b6001600160a01b03831660009081526068602090815260408083206001600160e01b0319861684526002019091529020805460ff19168215801591909117909155611444576001600160a01b0383166000908152606b6020526040902061143e906001600160e01b03198416613024565b50611472565b6001600160a01b0383166000908152606b60205260409020611470906001600160e01b03198416613030565b505b6001600160a01b03831660009081526068602090815260408083206001600160e01b031986168452600201909152908190205490517f4ec957ba780cb2eec7b84b67e0382c66c0f53596dbf3c765810ccf575cf2590b916113b8918691869160ff909116906154db565b6033546001600160a01b031633146115065760405162461bcd60e51b815260040161120b9061577d565b6000818152606760205260409020546115585760405162461bcd60e51b815260206004820152601460248201527310da185b99d9481a5cc81b9bdd081c5d595d595960621b604482015260640161120b565b6000818152606760205260408082208290555182917fef2393afd41f32c607a123de95d703349edd33ea1d86af21535ea8040ec7d98491a250565b61159b612e2d565b6001600160a01b0382166000908152606860205260409081902080548315156201000090810262ff000019909216919091179182905591517fcfba48f3f00894386e3cd37de3d70b1766e7f0337c30a4a27a6a6a6e07405f5292610ede92869291900460ff16906154c0565b61160f612e2d565b6001600160a01b0382166000908152606f602052604090819020805460ff191683151590811790915590517f86d784602305f1afd392b36fda079221e01f1fb39945383c18f8e99bff9a10fa91610ede91859160ff16906154c0565b611673612e2d565b6001600160a01b0381163014156116cc5760405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f74206164642074686520677561726420746f20697473656c660000604482015260640161120b565b60005b60785481101561176157816001600160a01b0316607882815481106116f6576116f661594d565b6000918252602090912001546001600160a01b0316141561174f5760405162461bcd60e51b815260206004820152601360248201527211dd585c9908185b1c9958591e481859191959606a1b604482015260640161120b565b80611759816158f0565b9150506116cf565b5061176b8161303c565b6117b75760405162461bcd60e51b815260206004820152601f60248201527f477561726420646f6573206e6f7420696d706c656d656e742049477561726400604482015260640161120b565b607880546001810182556000919091527f8dc6fb69531d98d70dc0420e638d2dfd04e09e1ec783ede9aac77da9c5a0dac40180546001600160a01b0319166001600160a01b0383169081179091556040519081527f424e9833ae6f1c9ffc241ad51a77e52feef49506ee7d1cd5d98095076aa163e5906020015b60405180910390a150565b611844612e2d565b6001600160a01b038481166000818152606d602090815260408083209488168084529482528083206001600160e01b031988168085526001909101835292819020805460ff19168715159081179091558151948552918401949094529282015260ff909116151560608201527f510ef3b18b9f2e4ed7b6ba6a39ccae4b66c7564d328b0008888e1f388885fc8890608001611058565b6033546001600160a01b031633146119045760405162461bcd60e51b815260040161120b9061577d565b600083838360405160200161191b93929190615660565b60408051601f19818403018152918152815160209283012060008181526067909352912054909150806119875760405162461bcd60e51b815260206004820152601460248201527310da185b99d9481a5cc81b9bdd081c5d595d595960621b604482015260640161120b565b804210156119cf5760405162461bcd60e51b815260206004820152601560248201527410da185b99d9481a5cc81b9bdd08191d59481e595d605a1b604482015260640161120b565b6067600083815260200190815260200160002060009055611a263086868080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152506130dc92505050565b60405182907facba7db33afd41cd69adcb9749e50b9fd484953f306d98d2d6e0a8ce0adb7d5c90600090a25050505050565b6033546001600160a01b03163314611a825760405162461bcd60e51b815260040161120b9061577d565b611a8c6000613151565b565b8415611aa057611aa0868686866131a3565b33600090815260726020526040902054611abd8c8c8c8c86613355565b801580611ad857503360009081526072602052604090205481145b611b245760405162461bcd60e51b815260206004820152601f60248201527f416c6c6f77616e6365207370656e6420616c72656164792070656e64696e6700604482015260640161120b565b611b2c613a4c565b505050505050505050505050565b611b42612e2d565b6001600160a01b03831660009081526068602090815260408083206001600160e01b03198616845260040190915290819020829055517fec10f708cbe64580ace0b8f13687275237b9a5a8cb231ddb3fa4562808c2bb39906113b890859085908590615508565b611bb1612e2d565b60408051808201825283815260208082018481526001600160a01b038716600081815260768452859020935184559051600190930192909255825191825281018490529081018290527fca9fd3ebbe9e9aa43b9f1dc6b0ef3fa17ef7781ecbd2332d1a7dd23339844b05906060016113b8565b6033546000906001600160a01b03163314611c515760405162461bcd60e51b815260040161120b9061577d565b6066805460009182611c62836158f0565b919050559050838382604051602001611c7d93929190615660565b604051602081830303815290604052805190602001209150600060655442611ca59190615854565b600084815260676020526040908190208290555190915083907f6629d6281191beb3a6376e0e266bcae2cf2007e5a5f2e09e3e06e4008c9a362e90611cf19085908990899087906157f9565b60405180910390a2505092915050565b6074546001600160a01b0316331480611d2457506033546001600160a01b031633145b611d7c5760405162461bcd60e51b815260206004820152602360248201527f43616c6c6572206973206e6f742074686520677561726469616e206f72206f776044820152623732b960e91b606482015260840161120b565b607454600160a01b900460ff1615611dc85760405162461bcd60e51b815260206004820152600f60248201526e11dd585c99081a5cc81c185d5cd959608a1b604482015260640161120b565b6074805460ff60a01b1916600160a01b1790556040513381527f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2589060200161129c565b611e13612e2d565b6001600160a01b038216600081815260686020908152604091829020600101849055815192835282018390527f8174712cc0e2cf0c1a761eb136aa357a8d4dcb7bd99aacc9c3a70141046e74d89101610ede565b611e6f612e2d565b607480546001600160a01b0319166001600160a01b0383169081179091556040519081527f31845eceb9cde510c7e8b37f76301c688feb70bc9653aa4c28a3734999840fd890602001611831565b611ec5612e2d565b6001600160a01b0382166000908152606c602052604090205460ff16151581151514611f21578015611f0b57606e8054906000611f01836158f0565b9190505550611f21565b606e8054906000611f1b836158d9565b91905055505b6001600160a01b0382166000908152606c602052604090819020805460ff191683151590811790915590517f999f4984dc5fd56a8d28430bab57d799bd19f5c8531711492bd2553ad224c13d91610ede91859160ff16906154c0565b33600090815260726020526040902081156120745760005b815481101561207257611ffb828281548110611fb357611fb361594d565b6000918252602082206003909102015484546001600160a01b039091169190859085908110611fe457611fe461594d565b906000526020600020906003020160010154613ad2565b6120608282815481106120105761201061594d565b906000526020600020906003020160000160009054906101000a90046001600160a01b031660018484815481106120495761204961594d565b906000526020600020906003020160020154613ad2565b8061206a816158f0565b915050611f95565b505b33600090815260726020526040812061208c91614a7c565b612094613a4c565b505050565b6001600160a01b0383166000908152606b602052604090206060906120c76120c082613bb3565b8585613bbd565b6001600160401b038111156120de576120de615963565b604051908082528060200260200182016040528015612107578160200160208202803683370190505b50915060005b82518110156121675761212a6121238287615854565b8390613bee565b83828151811061213c5761213c61594d565b6001600160e01b0319909216602092830291909101909101528061215f816158f0565b91505061210d565b50509392505050565b6000610100821080156121b757506001600160a01b03841660009081526068602090815260408083206001600160e01b0319871684526005019091529020546001831b1615155b90505b9392505050565b60606121d76121d06069613bb3565b8484613bbd565b6001600160401b038111156121ee576121ee615963565b604051908082528060200260200182016040528015612217578160200160208202803683370190505b50905060005b81518110156122775761223b6122338286615854565b606990613bee565b82828151811061224d5761224d61594d565b6001600160a01b03909216602092830291909101909101528061226f816158f0565b91505061221d565b5092915050565b612286613bfa565b60008180602001905181019061229c9190614c43565b90506122a781612d81565b6040516001600160a01b0382169033907fb7d049327659ac88e5dc97d11f318e5ed039ff505825266ba4e7dc685cecfe6390600090a35050565b6122e9612e2d565b610100841061233a5760405162461bcd60e51b815260206004820152601c60248201527f506172616d6574657220696e646578206f7574206f662072616e676500000000604482015260640161120b565b600083600181111561234e5761234e615921565b148061236b5750600082600381111561236957612369615921565b145b806123875750600382600381111561238557612385615921565b145b6123eb5760405162461bcd60e51b815260206004820152602f60248201527f436f6d70617269736f6e206e6f7420737570706f7274656420666f722064796e60448201526e616d696320706172616d657465727360881b606482015260840161120b565b60038260038111156123ff576123ff615921565b141561245b5760008151116124565760405162461bcd60e51b815260206004820152601e60248201527f4f6e654f662074616b6573206174206c65617374206f6e652076616c75650000604482015260640161120b565b6124b7565b80516001146124b75760405162461bcd60e51b815260206004820152602260248201527f436f6d70617269736f6e2074616b65732065786163746c79206f6e652076616c604482015261756560f01b606482015260840161120b565b6001600160a01b03861660009081526068602090815260408083206001600160e01b0319891684526006018252808320878452909152902080548490829060ff19166001838181111561250c5761250c615921565b021790555080548390829061ff00191661010083600381111561253157612531615921565b0217905550815161254b9060018301906020850190614a9d565b506001600160a01b03871660009081526068602090815260408083206001600160e01b03198a1684526005019091529081902080546001881b179055517f637112a73e7abb5e0f92fa315f9b5e8f4bc48ff45b6f459349c83bb3b677f072906125bf90899089908990899089908990615533565b60405180910390a150505050505050565b6125d8612e2d565b6001600160a01b03831660009081526068602090815260408083206001600160e01b03198616845260030190915290819020805460ff191683151590811790915590517f088496a6c1735d668559d2608d60e14d8471dcca8f2d79264bbfdf5bc3fde0ef916113b8918691869160ff909116906154db565b612658612e2d565b60005b6078548110801561269c5750816001600160a01b0316607882815481106126845761268461594d565b6000918252602090912001546001600160a01b031614155b156126b357806126ab816158f0565b91505061265b565b60785481106126f65760405162461bcd60e51b815260206004820152600f60248201526e11dd585c99081b9bdd081859191959608a1b604482015260640161120b565b6078546127059060019061588b565b811015612790576078612719826001615854565b815481106127295761272961594d565b600091825260209091200154607880546001600160a01b0390921691839081106127555761275561594d565b600091825260209091200180546001600160a01b0319166001600160a01b039290921691909117905580612788816158f0565b9150506126f6565b60788054806127a1576127a1615937565b6000828152602090819020600019908301810180546001600160a01b03191690559091019091556040516001600160a01b03841681527f11fccdfca7c5d380064d1837c32166cdff2f3c73bd9b261260ab22a8d20aa8bd9101610ede565b612807612e2d565b6001600160a01b03821660009081526068602052604090819020805483151564010000000090810264ff0000000019909216919091179182905591517fab3efb6b6d607acb2cf5bc75baf40200eec83e18533076b2578046d851377fc092610ede92869291900460ff16906154c0565b61287f612e2d565b60005b81811015612094576128df83838381811061289f5761289f61594d565b6128b59260206040909202019081019150614c26565b8484848181106128c7576128c761594d565b90506040020160200160208101906106639190615261565b806128e9816158f0565b915050612882565b6128f9612e2d565b6001600160a01b038381166000818152606d6020908152604080832094871680845294825291829020805461ff0019166101008715158102919091179182905583519485529184019490945260ff9304929092161515918101919091527f11ac811edda6637cdd43e50c5024d8ec4bcb39fd96cdab0ea036c1b4a5fd01ef906060016113b8565b612988612e2d565b60005b81811015612094576129e88383838181106129a8576129a861594d565b6129be9260206040909202019081019150614c26565b8484848181106129d0576129d061594d565b90506040020160200160208101906104a29190615261565b806129f2816158f0565b91505061298b565b612a02612e2d565b607380546001600160a01b0319166001600160a01b0383169081179091556040519081527f2813c4ceb210bb73482404e5b897bdc9ecc4e3291eae7ab422650c9860afcd2190602001611831565b612a58612e2d565b60005b82811015612aa657612a9485858584818110612a7957612a7961594d565b9050602002016020810190612a8e91906152d9565b846113c5565b80612a9e816158f0565b915050612a5b565b5050505050565b612ab5612e2d565b6001600160a01b038381166000818152606d6020908152604080832094871680845294825291829020805460ff191686151590811790915582519384529083019390935260ff9092161515918101919091527fbd018aaa6c8b3845dddbc91da0a392ff1cac3d851d385691cdfa1a103af7f372906060016113b8565b612b39612e2d565b6101008110612b8a5760405162461bcd60e51b815260206004820152601c60248201527f506172616d6574657220696e646578206f7574206f662072616e676500000000604482015260640161120b565b6001600160a01b03831660009081526068602090815260408083206001600160e01b03198616845260060182528083208484529091528120805461ffff1916815590612bd96001830182614ae8565b50506001600160a01b03831660009081526068602090815260408083206001600160e01b0319861684526005019091529081902080546001841b19169055517fec2d596a6e301c0134abe984672125ce24348bb65da1398aad717b8befaf9e09906113b890859085908590615508565b612c51612e2d565b60658190556040518181527fcf57d2e955986c39a021abcc2ff70c02efcd0a4dd6ce2255a84612dd7b65ea2990602001611831565b6001600160a01b0381166000908152606b60205260408120610db990613bb3565b60606078805480602002602001604051908101604052809291908181526020018280548015612cff57602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311612ce1575b5050505050905090565b612d11612e2d565b6001600160a01b038216600090815260686020526040908190208054831515600160281b90810265ff000000000019909216919091179182905591517f3ec176ba6461ff9ac398a681292a4baf894abde6fca601fd6cfbdd4871fcff0b92610ede92869291900460ff16906154c0565b6033546001600160a01b03163314612dab5760405162461bcd60e51b815260040161120b9061577d565b6001600160a01b038116612e105760405162461bcd60e51b815260206004820152602660248201527f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160448201526564647265737360d01b606482015260840161120b565b612e1981613151565b50565b6000612e286069613bb3565b905090565b333014611a8c5733612e476033546001600160a01b031690565b6001600160a01b031614612e6d5760405162461bcd60e51b815260040161120b9061577d565b60655415611a8c5760405162461bcd60e51b815260206004820152601960248201527f4368616e676573206861766520746f2062652071756575656400000000000000604482015260640161120b565b6001600160a01b03808416600090815260716020908152604080832093861683529290529081208190819081856001811115612efb57612efb615921565b6001811115612f0c57612f0c615921565b81526020019081526020016000209050600060706000876001600160a01b03166001600160a01b031681526020019081526020016000206000866001811115612f5757612f57615921565b6001811115612f6857612f68615921565b81526020810191909152604001600020600101546001600160401b031690508015801590612fa2575060018201546001600160401b031615155b8015612fc857506001820154612fc4906001600160401b038084169116615854565b4210155b15612fdb57600080935093505050610f6c565b5080546001909101549092506001600160401b03169050935093915050565b60006121ba836001600160a01b038416613c75565b60006121ba836001600160a01b038416613cc4565b60006121ba8383613c75565b60006121ba8383613cc4565b60006001600160a01b0382163b61305557506000919050565b6040516301ffc9a760e01b815263736bd41d60e11b60048201526001600160a01b038316906301ffc9a79060240160206040518083038186803b15801561309b57600080fd5b505afa9250505080156130cb575060408051601f3d908101601f191682019092526130c89181019061527e565b60015b610db957506000919050565b919050565b600080836001600160a01b0316836040516130f79190615456565b6000604051808303816000865af19150503d8060008114613134576040519150601f19603f3d011682016040523d82523d6000602084013e613139565b606091505b50915091508161314b57805160208201fd5b50505050565b603380546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b6001600160a01b038216600090815260766020526040902080546132175760405162461bcd60e51b815260206004820152602560248201527f526566756e6473206e6f7420616c6c6f77656420696e207468697320676173206044820152643a37b5b2b760d91b606482015260840161120b565b80548411156132815760405162461bcd60e51b815260206004820152603060248201527f476173207072696365206578636565647320746865206d6178696d756d20666f60448201526f39103a3434b99033b0b9903a37b5b2b760811b606482015260840161120b565b80600101548511156132ed5760405162461bcd60e51b815260206004820152602f60248201527f4261736520676173206578636565647320746865206d6178696d756d20666f7260448201526e103a3434b99033b0b9903a37b5b2b760891b606482015260840161120b565b6001600160a01b03821660009081526077602052604090205460ff16612aa65760405162461bcd60e51b815260206004820152601e60248201527f526566756e64207265636569766572206973206e6f7420616c6c6f7765640000604482015260640161120b565b600182600181111561336957613369615921565b14801561338357506073546001600160a01b038681169116145b801561339757506001600160a01b03851615155b156133ab576133a68382613db7565b612aa6565b607454600160a01b900460ff1615806133dc57506001600160a01b03851660009081526075602052604090205460ff165b61341a5760405162461bcd60e51b815260206004820152600f60248201526e11dd585c99081a5cc81c185d5cd959608a1b604482015260640161120b565b600182600181111561342e5761342e615921565b14158061345957506001600160a01b03851660009081526068602052604090205462010000900460ff165b6134b75760405162461bcd60e51b815260206004820152602960248201527f44656c65676174652063616c6c206e6f7420616c6c6f77656420746f2074686960448201526873206164647265737360b81b606482015260840161120b565b6001600160a01b03851660009081526068602052604090205460ff1661351f5760405162461bcd60e51b815260206004820152601d60248201527f5461726765742061646472657373206973206e6f7420616c6c6f776564000000604482015260640161120b565b83156136f0576001600160a01b038516600090815260686020526040902054640100000000900460ff166135955760405162461bcd60e51b815260206004820152601e60248201527f43616e6e6f742073656e642045544820746f2074686973207461726765740000604482015260640161120b565b6001600160a01b03851660009081526068602052604090206001015415806135d857506001600160a01b0385166000908152606860205260409020600101548411155b6136365760405162461bcd60e51b815260206004820152602960248201527f56616c7565206578636565647320746865206d6178696d756d20666f722074686044820152681a5cc81d185c99d95d60ba1b606482015260840161120b565b60048351106136f0576001600160a01b038516600090815260686020526040812060040181613664866158a2565b6001600160e01b0319168152602081019190915260400160002054905080158061368e5750808511155b6136ee5760405162461bcd60e51b815260206004820152602b60248201527f56616c7565206578636565647320746865206d6178696d756d20666f7220746860448201526a34b990333ab731ba34b7b760a91b606482015260840161120b565b505b60048351106138aa576001600160a01b038516600090815260686020526040902054610100900460ff16158061376557506001600160a01b038516600090815260686020526040812060020190613746856158a2565b6001600160e01b031916815260208101919091526040016000205460ff165b6137b15760405162461bcd60e51b815260206004820152601e60248201527f5461726765742066756e6374696f6e206973206e6f7420616c6c6f7765640000604482015260640161120b565b6001600160a01b038516600090815260686020526040902054600160281b900460ff16158061382057506001600160a01b038516600090815260686020526040812060030190613800856158a2565b6001600160e01b031916815260208101919091526040016000205460ff16155b61386c5760405162461bcd60e51b815260206004820152601960248201527f5461726765742066756e6374696f6e2069732064656e69656400000000000000604482015260640161120b565b6001600160a01b038516600090815260686020526040902054610100900460ff16156138a5576138a58561389f856158a2565b85613f4c565b61398b565b8251156138f95760405162461bcd60e51b815260206004820152601c60248201527f46756e6374696f6e207369676e617475726520746f6f2073686f727400000000604482015260640161120b565b6001600160a01b038516600090815260686020526040902054610100900460ff168061394457506001600160a01b038516600090815260686020526040902054600160281b900460ff165b158061396f57506001600160a01b0385166000908152606860205260409020546301000000900460ff165b61398b5760405162461bcd60e51b815260040161120b906156ea565b6001600160a01b0381166000908152606c602052604090205460ff16156139bc576139b7818685614071565b613a27565b606e5415806139e357506001600160a01b0381166000908152606f602052604090205460ff165b613a275760405162461bcd60e51b815260206004820152601560248201527414d95b99195c881a5cc81b9bdd08185b1b1bddd959605a1b604482015260640161120b565b6000826001811115613a3b57613a3b615921565b1415612aa657612aa685858561423d565b60005b607854811015612e1957613ac060788281548110613a6f57613a6f61594d565b600091825260208083209091015460408051601f369081018590048502820185019092528181526001600160a01b03909216939192819084018382808284376000920191909152506130dc92505050565b80613aca816158f0565b915050613a4f565b80613adc57505050565b600080613aea338686612ebd565b91509150806001600160401b031660001415613b035750425b60405180604001604052808484613b1a9190615854565b81526001600160401b0383166020918201523360009081526071825260408082206001600160a01b038a16835290925290812090866001811115613b6057613b60615921565b6001811115613b7157613b71615921565b8152602080820192909252604001600020825181559101516001909101805467ffffffffffffffff19166001600160401b039092169190911790555050505050565b6000610db9825490565b6000838310613bce575060006121ba565b81613bd9848661588b565b10613be457816121b7565b6121b7838561588b565b60006121ba838361445e565b600054610100900460ff1680613c13575060005460ff16155b613c2f5760405162461bcd60e51b815260040161120b9061572f565b600054610100900460ff16158015613c51576000805461ffff19166101011790555b613c59614488565b613c616144f2565b8015612e19576000805461ff001916905550565b6000818152600183016020526040812054613cbc57508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610db9565b506000610db9565b60008181526001830160205260408120548015613dad576000613ce860018361588b565b8554909150600090613cfc9060019061588b565b9050818114613d61576000866000018281548110613d1c57613d1c61594d565b9060005260206000200154905080876000018481548110613d3f57613d3f61594d565b6000918252602080832090910192909255918252600188019052604090208390555b8554869080613d7257613d72615937565b600190038181906000526020600020016000905590558560010160008681526020019081526020016000206000905560019350505050610db9565b6000915050610db9565b6004825110158015613de157506346c07f8560e11b613dd5836158a2565b6001600160e01b031916145b613e2d5760405162461bcd60e51b815260206004820152601e60248201527f556e737570706f72746564204d756c746953656e642066756e6374696f6e0000604482015260640161120b565b602482511015613e4f5760405162461bcd60e51b815260040161120b906156b3565b60248281015183519091613e629161588b565b811115613e815760405162461bcd60e51b815260040161120b906156b3565b6000613e8e826004615854565b613e99906020615854565b90506000613eb485613eac60208561588b565b016020015190565b8551909150613ec490839061588b565b811115613ee35760405162461bcd60e51b815260040161120b906156b3565b6000613eef8284615854565b9050825b81811015613f4357600080600080613f0c8b8688614552565b9350935093509350613f21838383878e613355565b8051613f2e906055615854565b613f389086615854565b945050505050613ef3565b50505050505050565b6001600160a01b03831660009081526068602090815260408083206001600160e01b031986168452600501909152812054905b81811c15612aa6576001811b8216613f965761405f565b6001600160a01b03851660009081526068602090815260408083206001600160e01b031988168452600601825280832084845290915281209080825460ff166001811115613fe657613fe6615921565b14613ffa57613ff5858461468e565b614004565b6140048584614748565b9050614010828261479c565b61405c5760405162461bcd60e51b815260206004820152601e60248201527f506172616d657465722076616c7565206973206e6f7420616c6c6f7765640000604482015260640161120b565b50505b80614069816158f0565b915050613f7f565b6001600160a01b038084166000908152606d60209081526040808320938616835292905220805460ff166140fd5760405162461bcd60e51b815260206004820152602d60248201527f5461726765742061646472657373206973206e6f7420616c6c6f77656420666f60448201526c39103a3434b99039b2b73232b960991b606482015260840161120b565b8054610100900460ff166141115750505050565b60048251106141af57600181016000614129846158a2565b6001600160e01b031916815260208101919091526040016000205460ff166141aa5760405162461bcd60e51b815260206004820152602e60248201527f5461726765742066756e6374696f6e206973206e6f7420616c6c6f776564206660448201526d37b9103a3434b99039b2b73232b960911b606482015260840161120b565b61314b565b8151156141fe5760405162461bcd60e51b815260206004820152601c60248201527f46756e6374696f6e207369676e617475726520746f6f2073686f727400000000604482015260640161120b565b6001600160a01b0383166000908152606860205260409020546301000000900460ff1661314b5760405162461bcd60e51b815260040161120b906156ea565b6001600160a01b038316600090815260706020908152604080832060018452909152812054156142e5576004825110158015614291575063a9059cbb60e01b614285836158a2565b6001600160e01b031916145b156142a8576142a1826001614748565b90506142e5565b60048251101580156142d257506323b872dd60e01b6142c6836158a2565b6001600160e01b031916145b156142e5576142e2826002614748565b90505b6001600160a01b038416600090815260706020908152604080832083805290915290205461431257600092505b8215801561431e575080155b156143295750505050565b600080614335866148e2565b9150915061434686600084886149b6565b6143925760405162461bcd60e51b815260206004820152601860248201527f56616c756520616c6c6f77616e63652065786365656465640000000000000000604482015260640161120b565b61439f86600183866149b6565b6143eb5760405162461bcd60e51b815260206004820152601860248201527f546f6b656e20616c6c6f77616e63652065786365656465640000000000000000604482015260640161120b565b505033600090815260726020908152604080832081516060810183526001600160a01b03988916815280840197885291820194855280546001808201835591855292909320905160039092020180546001600160a01b031916919096161785559251928401929092555051600290910155565b60008260000182815481106144755761447561594d565b9060005260206000200154905092915050565b600054610100900460ff16806144a1575060005460ff16155b6144bd5760405162461bcd60e51b815260040161120b9061572f565b600054610100900460ff16158015613c61576000805461ffff19166101011790558015612e19576000805461ff001916905550565b600054610100900460ff168061450b575060005460ff16155b6145275760405162461bcd60e51b815260040161120b9061572f565b600054610100900460ff16158015614549576000805461ffff19166101011790555b613c6133613151565b6000808060606055614564878761588b565b10156145825760405162461bcd60e51b815260040161120b906156b3565b86860160208101516021820151603583015160559093015160609190911c955091935060f81c9060018211156145ca5760405162461bcd60e51b815260040161120b906156b3565b8060556145d78a8a61588b565b6145e1919061588b565b10156145ff5760405162461bcd60e51b815260040161120b906156b3565b806001600160401b0381111561461757614617615963565b6040519080825280601f01601f191660200182016040528015614641576020820181803683370190505b5092506075898901016020840160005b83811015614669578281015182820152602001614651565b5050508160ff16600181111561468157614681615921565b9550505093509350935093565b60008061469b8484614748565b845190915081106146be5760405162461bcd60e51b815260040161120b906157b2565b6146c9600482615854565b90506146d6816020615854565b845110156146f65760405162461bcd60e51b815260040161120b906157b2565b60008160208601015190506020828651614710919061588b565b61471a919061588b565b8111156147395760405162461bcd60e51b815260040161120b906157b2565b93016040019290922092915050565b60008061475683602061586c565b614761906004615854565b905061476e816020615854565b8451101561478e5760405162461bcd60e51b815260040161120b906157b2565b929092016020015192915050565b6000808354610100900460ff1660038111156147ba576147ba615921565b14156147ea57826001016000815481106147d6576147d661594d565b906000526020600020015482149050610db9565b60018354610100900460ff16600381111561480757614807615921565b141561483857826001016000815481106148235761482361594d565b60009182526020909120015482119050610db9565b60028354610100900460ff16600381111561485557614855615921565b141561488657826001016000815481106148715761487161594d565b60009182526020909120015482109050610db9565b60005b60018401548110156148d8578360010181815481106148aa576148aa61594d565b90600052602060002001548314156148c6576001915050610db9565b806148d0816158f0565b915050614889565b5060009392505050565b3360009081526072602052604081208190815b81548110156149af57846001600160a01b031682828154811061491a5761491a61594d565b60009182526020909120600390910201546001600160a01b0316141561499d5781818154811061494c5761494c61594d565b906000526020600020906003020160010154846149699190615854565b935081818154811061497d5761497d61594d565b9060005260206000209060030201600201548361499a9190615854565b92505b806149a7816158f0565b9150506148f5565b5050915091565b6000806149c386866149e8565b90508084111580156149de57506149da848261588b565b8311155b9695505050505050565b6001600160a01b0382166000908152607060205260408120819081846001811115614a1557614a15615921565b6001811115614a2657614a26615921565b8152602081019190915260400160002054905080614a4957600019915050610db9565b6000614a56338686612ebd565b50905081811015614a7057614a6b818361588b565b614a73565b60005b95945050505050565b5080546000825560030290600052602060002090810190612e199190614b06565b828054828255906000526020600020908101928215614ad8579160200282015b82811115614ad8578251825591602001919060010190614abd565b50614ae4929150614b33565b5090565b5080546000825590600052602060002090810190612e199190614b33565b5b80821115614ae45780546001600160a01b03191681556000600182018190556002820155600301614b07565b5b80821115614ae45760008155600101614b34565b80356130d781615989565b80356001600160e01b0319811681146130d757600080fd5b60008083601f840112614b7d57600080fd5b5081356001600160401b03811115614b9457600080fd5b602083019150836020828501011115610f5257600080fd5b600082601f830112614bbd57600080fd5b81356001600160401b03811115614bd657614bd6615963565b614be9601f8201601f1916602001615824565b818152846020838601011115614bfe57600080fd5b816020850160208301376000918101602001919091529392505050565b80356130d7816159ac565b600060208284031215614c3857600080fd5b81356121ba81615989565b600060208284031215614c5557600080fd5b81516121ba81615989565b60008060408385031215614c7357600080fd5b8235614c7e81615989565b91506020830135614c8e81615989565b809150509250929050565b600080600060608486031215614cae57600080fd5b8335614cb981615989565b92506020840135614cc981615989565b91506040840135614cd98161599e565b809150509250925092565b600080600060608486031215614cf957600080fd5b8335614d0481615989565b92506020840135614d1481615989565b9150614d2260408501614b53565b90509250925092565b60008060008060808587031215614d4157600080fd5b8435614d4c81615989565b93506020850135614d5c81615989565b9250614d6a60408601614b53565b91506060850135614d7a8161599e565b939692955090935050565b600080600060608486031215614d9a57600080fd5b8335614da581615989565b92506020840135614db581615989565b91506040840135614cd9816159ac565b60008060008060608587031215614ddb57600080fd5b8435614de681615989565b935060208501356001600160401b0380821115614e0257600080fd5b818701915087601f830112614e1657600080fd5b813581811115614e2557600080fd5b8860208260051b8501011115614e3a57600080fd5b6020830195508094505050506040850135614d7a8161599e565b60008060408385031215614e6757600080fd5b8235614e7281615989565b91506020830135614c8e8161599e565b60008060408385031215614e9557600080fd5b8235614ea081615989565b9150614eae60208401614b53565b90509250929050565b600080600060608486031215614ecc57600080fd5b8335614ed781615989565b9250614cc960208501614b53565b600080600060608486031215614efa57600080fd5b8335614f0581615989565b9250614f1360208501614b53565b9150604084013590509250925092565b60008060008060008060c08789031215614f3c57600080fd5b8635614f4781615989565b95506020614f56888201614b53565b9550604088013594506060880135614f6d816159ac565b9350608088013560048110614f8157600080fd5b925060a08801356001600160401b0380821115614f9d57600080fd5b818a0191508a601f830112614fb157600080fd5b813581811115614fc357614fc3615963565b8060051b9150614fd4848301615824565b8181528481019084860184860187018f1015614fef57600080fd5b600095505b83861015615012578035835260019590950194918601918601614ff4565b508096505050505050509295509295509295565b6000806040838503121561503957600080fd5b823561504481615989565b91506020830135614c8e816159ac565b6000806000806080858703121561506a57600080fd5b843561507581615989565b93506020850135615085816159ac565b92506040850135915060608501356001600160401b0381168114614d7a57600080fd5b600080604083850312156150bb57600080fd5b82356150c681615989565b946020939093013593505050565b60008060008060008060008060008060006101608c8e0312156150f657600080fd5b6150ff8c614b48565b9a5060208c013599506001600160401b038060408e0135111561512157600080fd5b6151318e60408f01358f01614bac565b995061513f60608e01614c1b565b985060808d0135975060a08d0135965060c08d0135955061516260e08e01614b48565b94506151716101008e01614b48565b9350806101208e0135111561518557600080fd5b506151978d6101208e01358e01614bac565b91506151a66101408d01614b48565b90509295989b509295989b9093969950565b6000806000606084860312156151cd57600080fd5b83356151d881615989565b95602085013595506040909401359392505050565b6000806020838503121561520057600080fd5b82356001600160401b038082111561521757600080fd5b818501915085601f83011261522b57600080fd5b81358181111561523a57600080fd5b8660208260061b850101111561524f57600080fd5b60209290920196919550909350505050565b60006020828403121561527357600080fd5b81356121ba8161599e565b60006020828403121561529057600080fd5b81516121ba8161599e565b6000602082840312156152ad57600080fd5b5035919050565b600080604083850312156152c757600080fd5b823591506020830135614c8e8161599e565b6000602082840312156152eb57600080fd5b6121ba82614b53565b6000806020838503121561530757600080fd5b82356001600160401b0381111561531d57600080fd5b61532985828601614b6b565b90969095509350505050565b60008060006040848603121561534a57600080fd5b83356001600160401b0381111561536057600080fd5b61536c86828701614b6b565b909790965060209590950135949350505050565b60006020828403121561539257600080fd5b81356001600160401b038111156153a857600080fd5b6153b484828501614bac565b949350505050565b600080604083850312156153cf57600080fd5b50508035926020909101359150565b600081518084526020808501945080840160005b8381101561540e578151875295820195908201906001016153f2565b509495945050505050565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b6004811061545257615452615921565b9052565b6000825160005b81811015615477576020818601810151858301520161545d565b81811115615486576000828501525b509190910192915050565b6001600160a01b03848116825283166020820152606081016154b283615979565b826040830152949350505050565b6001600160a01b039290921682521515602082015260400190565b6001600160a01b039390931683526001600160e01b03199190911660208301521515604082015260600190565b6001600160a01b039390931683526001600160e01b0319919091166020830152604082015260600190565b6001600160a01b03871681526001600160e01b0319861660208201526040810185905261555f84615979565b8360608201526155726080820184615442565b60c060a0820152600061558860c08301846153de565b98975050505050505050565b6001600160a01b0385168152608081016155ad85615979565b8460208301528360408301526001600160401b038316606083015295945050505050565b6020808252825182820181905260009190848201906040850190845b818110156156125783516001600160a01b0316835292840192918401916001016155ed565b50909695505050505050565b6020808252825182820181905260009190848201906040850190845b818110156156125783516001600160e01b0319168352928401929184019160010161563a565b604081526000615674604083018587615419565b9050826020830152949350505050565b61568d84615979565b83815261569d6020820184615442565b606060408201526000614a7360608301846153de565b6020808252601e908201527f496e76616c6964204d756c746953656e64207472616e73616374696f6e730000604082015260600190565b60208082526025908201527f46616c6c6261636b206e6f7420616c6c6f77656420666f722074686973206164604082015264647265737360d81b606082015260800190565b6020808252602e908201527f496e697469616c697a61626c653a20636f6e747261637420697320616c72656160408201526d191e481a5b9a5d1a585b1a5e995960921b606082015260800190565b6020808252818101527f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572604082015260600190565b60208082526027908201527f43616c6c6461746120746f6f2073686f727420666f722073636f7065642070616040820152663930b6b2ba32b960c91b606082015260800190565b848152606060208201526000615813606083018587615419565b905082604083015295945050505050565b604051601f8201601f191681016001600160401b038111828210171561584c5761584c615963565b604052919050565b600082198211156158675761586761590b565b500190565b60008160001904831182151516156158865761588661590b565b500290565b60008282101561589d5761589d61590b565b500390565b805160208201516001600160e01b031980821692919060048310156158d15780818460040360031b1b83161693505b505050919050565b6000816158e8576158e861590b565b506000190190565b60006000198214156159045761590461590b565b5060010190565b634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b600052602160045260246000fd5b634e487b7160e01b600052603160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b634e487b7160e01b600052604160045260246000fd5b60028110612e1957612e19615921565b6001600160a01b0381168114612e1957600080fd5b8015158114612e1957600080fd5b60028110612e1957600080fdfea264697066735822122076148883c28861b8c47dbafd78320757ebf4ebdc6850ae686fa5a8df4d07af6164736f6c63430008060033496e697469616c697a61626c653a20636f6e747261637420697320616c726561";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ScopeGuardFactory } from "./ScopeGuardFactory";
+export type { ScopeGuard } from "./ScopeGuard";
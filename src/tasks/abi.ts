@@ -0,0 +1,90 @@
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+
+import { loadAbi, selectFunctions, splitFunctionList } from "../utils/abi";
+import { SetterCall, orderCalls } from "../utils/apply";
+import { getGuard } from "../utils/guard";
+import { addOutputParams, outputCalls } from "../utils/output";
+import { formatSelector, parseFunction } from "../utils/signatures";
+
+addOutputParams(
+  task(
+    "allowAbi",
+    "Scopes a target address and allows the functions of its ABI."
+  )
+    .addParam(
+      "guard",
+      "The address of the guard that you are setting up.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "target",
+      "The target address on which the functions should be allowed.",
+      undefined,
+      types.string
+    )
+    .addOptionalParam(
+      "abi",
+      "Path to a JSON ABI, artifact or Etherscan response, or the name of a Hardhat artifact. Defaults to the target in the ABI cache.",
+      undefined,
+      types.string
+    )
+    .addOptionalParam(
+      "abiCache",
+      "Directory of Etherscan ABI responses, stored as <address>.json.",
+      "abis",
+      types.string
+    )
+    .addOptionalParam(
+      "functions",
+      'Comma separated function names or signatures to allow, e.g. "transfer,approve(address,uint256)". Defaults to all functions.',
+      undefined,
+      types.string
+    )
+    .addFlag("nonPayable", "Only allow functions that are not payable.")
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const abi = await loadAbi(
+    hardhatRuntime,
+    taskArgs.target,
+    taskArgs.abi,
+    taskArgs.abiCache
+  );
+  const fragments = selectFunctions(abi, {
+    functions: splitFunctionList(taskArgs.functions ?? ""),
+    nonPayable: taskArgs.nonPayable,
+  });
+
+  const calls: SetterCall[] = [];
+  if (!(await guard.isScoped(taskArgs.target))) {
+    calls.push({ method: "setScoped", args: [taskArgs.target, true] });
+  }
+  console.log("Allowing", fragments.length, "functions on", taskArgs.target);
+  for (const fragment of fragments) {
+    const { selector } = parseFunction(fragment.format());
+    const allowed = await guard.isAllowedFunction(taskArgs.target, selector);
+    console.log(`  ${formatSelector(selector)}${allowed ? " (allowed)" : ""}`);
+    if (!allowed) {
+      calls.push({
+        method: "setAllowedFunction",
+        args: [taskArgs.target, selector, true],
+      });
+    }
+  }
+  if (!(await guard.isAllowedTarget(taskArgs.target))) {
+    console.log(
+      "Target is not allowed yet, use allowTarget to allow calls to it"
+    );
+  }
+
+  const ordered = orderCalls(calls);
+  const output = await outputCalls(guard, ordered, taskArgs);
+  return {
+    functions: fragments.map((fragment) => fragment.format()),
+    calls: ordered,
+    output,
+  };
+});
+
+export {};
@@ -0,0 +1,152 @@
+import { writeFileSync } from "fs";
+
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { ADDRESS_BOOK, PRESETS } from "../presets";
+import { formatConfig, loadConfig } from "../utils/config";
+import { getGuard } from "../utils/guard";
+import { addOutputParams, outputCalls } from "../utils/output";
+import { formatPlan, planPermissions, verifyPlan } from "../utils/plan";
+import { readPermissions, verifyPermissions } from "../utils/state";
+
+interface ConfigTaskArgs {
+  guard: string;
+  file: string;
+  fromBlock?: number;
+}
+
+const planConfig = async (
+  taskArgs: ConfigTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+) => {
+  const { chainId } = await hardhatRuntime.ethers.provider.getNetwork();
+  const desired = loadConfig(taskArgs.file, chainId);
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const current = await readPermissions(guard, taskArgs.fromBlock);
+
+  const plan = planPermissions(current, desired);
+  console.log(`ScopeGuard ${guard.address} plan:\n`);
+  console.log(formatPlan(plan));
+  return { guard, plan };
+};
+
+const configTask = (name: string, description: string) =>
+  task(name, description)
+    .addParam(
+      "guard",
+      "The address of the guard that you are setting up.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "file",
+      "Path to the JSON or YAML permissions file.",
+      undefined,
+      types.inputFile
+    )
+    .addOptionalParam(
+      "fromBlock",
+      "Block from which to read the events of the guard, defaults to the block it was set up in.",
+      undefined,
+      types.int
+    );
+
+configTask(
+  "plan",
+  "Shows the changes needed for a ScopeGuard to match a permissions file, without sending any transaction."
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const { plan } = await planConfig(taskArgs, hardhatRuntime);
+  return plan;
+});
+
+addOutputParams(
+  configTask(
+    "applyConfig",
+    "Makes the permissions of a ScopeGuard match a JSON or YAML config file."
+  )
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const { guard, plan } = await planConfig(taskArgs, hardhatRuntime);
+  const output = await outputCalls(guard, plan.calls, taskArgs);
+  if (output === undefined) {
+    const mismatches = await verifyPlan(guard, plan);
+    if (mismatches.length > 0) {
+      throw new Error(
+        `Guard state does not match the config after applying:\n  ${mismatches.join(
+          "\n  "
+        )}`
+      );
+    }
+  }
+  return { ...plan, output };
+});
+
+task(
+  "exportConfig",
+  "Writes the current permissions of a ScopeGuard to a JSON config file."
+)
+  .addParam(
+    "guard",
+    "The address of the guard to export.",
+    undefined,
+    types.string
+  )
+  .addParam("file", "Path of the JSON file to write.", undefined, types.string)
+  .addOptionalParam(
+    "fromBlock",
+    "Block from which to read the events of the guard, defaults to the block it was set up in.",
+    undefined,
+    types.int
+  )
+  .setAction(async (taskArgs, hardhatRuntime) => {
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const permissions = await readPermissions(guard, taskArgs.fromBlock);
+
+    const mismatches = await verifyPermissions(guard, permissions);
+    if (mismatches.length > 0) {
+      throw new Error(
+        `Guard events do not match its state:\n  ${mismatches.join("\n  ")}`
+      );
+    }
+
+    writeFileSync(taskArgs.file, formatConfig(permissions));
+    console.log(
+      "Exported",
+      permissions.targets.length,
+      "targets to",
+      taskArgs.file
+    );
+    return permissions;
+  });
+
+task(
+  "listPresets",
+  "Lists the permission presets that permissions files can refer to, with their addresses on the network."
+).setAction(async (_, hardhatRuntime) => {
+  const { chainId } = await hardhatRuntime.ethers.provider.getNetwork();
+  for (const [name, preset] of Object.entries(PRESETS)) {
+    console.log(`${name}: ${preset.description}`);
+    for (const target of preset.targets) {
+      const address =
+        target.contract === "avatar"
+          ? "the avatar"
+          : ADDRESS_BOOK[chainId]?.[target.contract] ??
+            `not on chain ${chainId}`;
+      console.log(`  ${target.contract} (${address})`);
+      for (const fn of target.functions) {
+        console.log(`    ${fn}`);
+        for (const condition of target.conditions ?? []) {
+          if (condition.function === fn) {
+            console.log(
+              `      ${condition.parameter} in [${condition.oneOf.join(", ")}]`
+            );
+          }
+        }
+      }
+    }
+  }
+  return Object.keys(PRESETS);
+});
+
+export {};
@@ -0,0 +1,130 @@
+import "@nomiclabs/hardhat-ethers";
+import { Contract } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { getGuard } from "../utils/guard";
+import { addOutputParams, outputCalls } from "../utils/output";
+import {
+  PreflightReport,
+  formatPreflight,
+  runPreflight,
+} from "../utils/preflight";
+import {
+  checkSafeVersion,
+  getSafe,
+  getSafeGuard,
+  safeInterface,
+} from "../utils/safe";
+
+interface SafeTaskArgs {
+  safe: string;
+  guard: string;
+  force: boolean;
+}
+
+const safeTask = (name: string, description: string) =>
+  task(name, description)
+    .addParam(
+      "safe",
+      "The address of the Safe the guard is enabled on.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "guard",
+      "The address of the guard to enable.",
+      undefined,
+      types.string
+    );
+
+const preflightTask = (name: string, description: string) =>
+  safeTask(name, description).addFlag(
+    "force",
+    "Produce the setGuard transaction even if the checks fail. This can brick the Safe."
+  );
+
+// Checks that the Safe supports guards and runs the preflight checks,
+// throwing if they fail unless forced.
+const checkPreflight = async (
+  taskArgs: SafeTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment
+): Promise<{ safe: Contract; guard: Contract; report: PreflightReport }> => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const safe = await getSafe(taskArgs.safe, hardhatRuntime);
+  const version = await checkSafeVersion(safe);
+  console.log(`Safe ${safe.address} is on version ${version}`);
+
+  const report = await runPreflight(safe, guard);
+  console.log(
+    `\nPreflight of ScopeGuard ${guard.address} on ${safe.address}:\n`
+  );
+  console.log(formatPreflight(report));
+  if (!report.passed && !taskArgs.force) {
+    throw new Error(
+      "Refusing to enable the guard, allow the admin functions of the Safe or enable a recovery module first (or pass --force)"
+    );
+  }
+  return { safe, guard, report };
+};
+
+preflightTask(
+  "preflight",
+  "Checks that a Safe keeps control over itself with a ScopeGuard enabled, then prints the setGuard transaction."
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const { safe, guard, report } = await checkPreflight(
+    taskArgs,
+    hardhatRuntime
+  );
+
+  const transaction = {
+    to: safe.address,
+    value: "0",
+    data: safeInterface.encodeFunctionData("setGuard", [guard.address]),
+  };
+  console.log("\nsetGuard transaction:");
+  console.log("  to:", transaction.to);
+  console.log("  value:", transaction.value);
+  console.log("  data:", transaction.data);
+  return { report, transaction };
+});
+
+addOutputParams(
+  preflightTask(
+    "enableGuard",
+    "Checks a Safe and writes the transaction enabling a ScopeGuard on it."
+  ),
+  { output: "txbuilder", safe: false, queue: false }
+).setAction(async (taskArgs, hardhatRuntime) => {
+  if (taskArgs.output === "send") {
+    throw new Error(
+      "setGuard has to be executed by the Safe, use the txbuilder or multisend output"
+    );
+  }
+  const { safe, guard } = await checkPreflight(taskArgs, hardhatRuntime);
+
+  return outputCalls(safe, [{ method: "setGuard", args: [guard.address] }], {
+    ...taskArgs,
+    safe: safe.address,
+  });
+});
+
+safeTask(
+  "verifyGuard",
+  "Checks that a ScopeGuard is the active guard of a Safe."
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const safe = await getSafe(taskArgs.safe, hardhatRuntime);
+  const active = await getSafeGuard(safe);
+
+  const enabled = active.toLowerCase() === taskArgs.guard.toLowerCase();
+  if (enabled) {
+    console.log(`ScopeGuard ${active} is active on Safe ${safe.address}`);
+  } else {
+    console.log(
+      `ScopeGuard ${taskArgs.guard} is not active on Safe ${safe.address}, its guard is ${active}`
+    );
+  }
+  return enabled;
+});
+
+export {};
@@ -1,43 +1,76 @@
 import "hardhat-deploy";
 import "@nomiclabs/hardhat-ethers";
+import { constants, utils } from "ethers";
 import { task, types } from "hardhat/config";
-import { deployAndSetUpModule } from "@gnosis.pm/zodiac";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
+import { ScopeGuardClient } from "../sdk";
+import {
+  AllowanceStatus,
+  getAllowanceStatus,
+  parseAllowanceKind,
+} from "../utils/allowances";
+import { findParameter, parseCondition } from "../utils/conditions";
+import { getGuard } from "../utils/guard";
+import { MULTISEND_CALL_ONLY } from "../utils/multisend";
+import {
+  CallsOutput,
+  OutputTaskArgs,
+  addOutputParams,
+  outputCalls,
+} from "../utils/output";
+import {
+  formatSelector,
+  parseFunction,
+  parseFunctionFragment,
+} from "../utils/signatures";
+
 interface ScopeGuardTaskArgs {
   owner: string;
   proxied: boolean;
+  factory?: string;
+  masterCopy?: string;
 }
 
+// Checks that the master copy runs the ScopeGuard of this repository, as
+// proxies of an older one would lack most of its checks.
+const checkMasterCopy = async (
+  masterCopy: string,
+  hardhatRuntime: HardhatRuntimeEnvironment
+): Promise<void> => {
+  const { deployedBytecode } = await hardhatRuntime.artifacts.readArtifact(
+    "ScopeGuard"
+  );
+  const code = await hardhatRuntime.ethers.provider.getCode(masterCopy);
+  if (code !== deployedBytecode) {
+    throw new Error(
+      `The code at ${masterCopy} does not match the compiled ScopeGuard`
+    );
+  }
+};
+
 const deployScopeGuard = async (
   taskArgs: ScopeGuardTaskArgs,
   hardhatRuntime: HardhatRuntimeEnvironment
-) => {
+): Promise<string> => {
   const [caller] = await hardhatRuntime.ethers.getSigners();
   console.log("Using the account:", caller.address);
 
+  let client: ScopeGuardClient;
   if (taskArgs.proxied) {
-    const chainId = await hardhatRuntime.getChainId();
-    const { transaction } = deployAndSetUpModule(
-      "scopeGuard",
-      {
-        types: ["address"],
-        values: [taskArgs.owner],
-      },
-      hardhatRuntime.ethers.provider,
-      Number(chainId),
-      Date.now().toString()
-    );
-
-    const deploymentTransaction = await caller.sendTransaction(transaction);
-    const receipt = await deploymentTransaction.wait();
-    console.log("ScopeGuard deployed to:", receipt.logs[1].address);
-    return;
+    if (taskArgs.masterCopy === undefined) {
+      throw new Error("A master copy is required to deploy through a factory");
+    }
+    await checkMasterCopy(taskArgs.masterCopy, hardhatRuntime);
+    client = await ScopeGuardClient.deployViaFactory(taskArgs.owner, caller, {
+      factory: taskArgs.factory,
+      masterCopy: taskArgs.masterCopy,
+    });
+  } else {
+    client = await ScopeGuardClient.deploy(taskArgs.owner, caller);
   }
-
-  const Guard = await hardhatRuntime.ethers.getContractFactory("ScopeGuard");
-  const guard = await Guard.deploy(taskArgs.owner);
-  console.log("ScopeGuard deployed to:", guard.address);
+  console.log("ScopeGuard deployed to:", client.address);
+  return client.address;
 };
 
 task("setup", "Deploys a ScopeGuard")
@@ -49,6 +82,18 @@ task("setup", "Deploys a ScopeGuard")
     types.boolean,
     true
   )
+  .addOptionalParam(
+    "factory",
+    "Module proxy factory to deploy through, instead of the Zodiac one.",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "masterCopy",
+    "ScopeGuard master copy to deploy a proxy of, required with --proxied. Its code has to match the compiled ScopeGuard.",
+    undefined,
+    types.string
+  )
   .setAction(deployScopeGuard);
 
 task("verifyEtherscan", "Verifies the contract on etherscan")
@@ -62,266 +107,1080 @@ task("verifyEtherscan", "Verifies the contract on etherscan")
     });
   });
 
-task("allowTarget", "Allows a target address.")
-  .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
-    undefined,
-    types.string
-  )
-  .addParam(
-    "target",
-    "The target address to be allowed.",
-    undefined,
-    types.string
-  )
-  .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
-      "ScopeGuard",
-      taskArgs.guard
-    );
-    await guard.allowTarget(taskArgs.target);
+interface TargetTaskArgs extends OutputTaskArgs {
+  guard: string;
+  target: string;
+}
 
-    console.log("Target allowed: ", taskArgs.target);
-  });
+interface FunctionTaskArgs extends TargetTaskArgs {
+  sig: string;
+}
 
-task("disallowTarget", "Disallows a target address.")
-  .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
-    undefined,
-    types.string
-  )
-  .addParam(
-    "target",
-    "The target address to be disallowed.",
-    undefined,
-    types.string
-  )
-  .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
-      "ScopeGuard",
-      taskArgs.guard
-    );
-    await guard.disallowTarget(taskArgs.target);
+interface TargetPermission {
+  setter: string;
+  getter: string;
+  label: string;
+}
 
-    console.log("Target disallowed: ", taskArgs.target);
-  });
+const TARGET_ALLOWED: TargetPermission = {
+  setter: "setTargetAllowed",
+  getter: "isAllowedTarget",
+  label: "Allowed",
+};
+const TARGET_SCOPED: TargetPermission = {
+  setter: "setScoped",
+  getter: "isScoped",
+  label: "Scoped",
+};
+const DELEGATE_CALL_ALLOWED: TargetPermission = {
+  setter: "setDelegateCallAllowedOnTarget",
+  getter: "isAllowedToDelegateCall",
+  label: "Delegate calls allowed",
+};
+const VALUE_ALLOWED: TargetPermission = {
+  setter: "setValueAllowedOnTarget",
+  getter: "isValueAllowed",
+  label: "Value allowed",
+};
+const FALLBACK_ALLOWED: TargetPermission = {
+  setter: "setFallbackAllowedOnTarget",
+  getter: "isfallbackAllowed",
+  label: "Fallback allowed",
+};
 
-task("allowDelegateCall", "Allows delegate calls to an allowed target address.")
-  .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
-    undefined,
-    types.string
-  )
-  .addParam(
-    "target",
-    "The target address on which delegate calls should be allowed.",
+const DENY_LIST: TargetPermission = {
+  setter: "setDenyList",
+  getter: "isDenyList",
+  label: "Deny list",
+};
+const RECOVERY_TARGET: TargetPermission = {
+  setter: "setRecoveryTarget",
+  getter: "recoveryTargets",
+  label: "Recovery target",
+};
+
+interface FunctionPermission {
+  setter: string;
+  getter: string;
+  // Logged when the permission ends up set and unset.
+  labels: [string, string];
+}
+
+const FUNCTION_ALLOWED: FunctionPermission = {
+  setter: "setAllowedFunction",
+  getter: "isAllowedFunction",
+  labels: ["allowed for", "disallowed for"],
+};
+const FUNCTION_DENIED: FunctionPermission = {
+  setter: "setDeniedFunction",
+  getter: "isDeniedFunction",
+  labels: ["denied on", "no longer denied on"],
+};
+
+const setTargetPermission = async (
+  taskArgs: TargetTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment,
+  permission: TargetPermission,
+  allow: boolean
+): Promise<boolean | CallsOutput> => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const call = { method: permission.setter, args: [taskArgs.target, allow] };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const state: boolean = await guard[permission.getter](taskArgs.target);
+  console.log(
+    `${permission.label} set to`,
+    state,
+    "for target address",
+    taskArgs.target
+  );
+  return state;
+};
+
+const setFunctionPermission = async (
+  taskArgs: FunctionTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment,
+  permission: FunctionPermission,
+  allow: boolean
+): Promise<boolean | CallsOutput> => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const { selector } = parseFunction(taskArgs.sig);
+  const call = {
+    method: permission.setter,
+    args: [taskArgs.target, selector, allow],
+  };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const state: boolean = await guard[permission.getter](
+    taskArgs.target,
+    selector
+  );
+  console.log(
+    "Function",
+    formatSelector(selector),
+    permission.labels[state ? 0 : 1],
+    taskArgs.target
+  );
+  return state;
+};
+
+const targetTask = (name: string, description: string, target: string) =>
+  addOutputParams(
+    task(name, description)
+      .addParam(
+        "guard",
+        "The address of the guard that you are setting up.",
+        undefined,
+        types.string
+      )
+      .addParam("target", target, undefined, types.string)
+  );
+
+const functionTask = (name: string, description: string, target: string) =>
+  targetTask(name, description, target).addParam(
+    "sig",
+    'Function selector, signature or JSON ABI fragment, e.g. 0x70a08231 or "balanceOf(address)".',
     undefined,
     types.string
-  )
-  .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
-      "ScopeGuard",
-      taskArgs.guard
-    );
-    await guard.allowDelegateCall(taskArgs.target);
+  );
 
-    console.log("Delegate calls allowed to: ", taskArgs.target);
-  });
+targetTask(
+  "allowTarget",
+  "Allows a target address.",
+  "The target address to be allowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, TARGET_ALLOWED, true)
+);
 
-task(
+targetTask(
+  "disallowTarget",
+  "Disallows a target address.",
+  "The target address to be disallowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, TARGET_ALLOWED, false)
+);
+
+targetTask(
+  "scopeTarget",
+  "Scopes a target address to its allowed function signatures.",
+  "The target address to be scoped."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, TARGET_SCOPED, true)
+);
+
+targetTask(
+  "unscopeTarget",
+  "Allows calls to any function signature of a target address.",
+  "The target address to be unscoped."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, TARGET_SCOPED, false)
+);
+
+targetTask(
+  "toggleScoped",
+  "Toggles whether a target address is scoped to specific functions.",
+  "The target address to be (un)scoped."
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const { guard } = ScopeGuardClient.connect(
+    taskArgs.guard,
+    hardhatRuntime.ethers.provider
+  );
+  const scoped = await guard.isScoped(taskArgs.target);
+  return setTargetPermission(taskArgs, hardhatRuntime, TARGET_SCOPED, !scoped);
+});
+
+targetTask(
+  "allowDelegateCall",
+  "Allows delegate calls to an allowed target address.",
+  "The target address on which delegate calls should be allowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, DELEGATE_CALL_ALLOWED, true)
+);
+
+targetTask(
   "disallowDelegateCall",
-  "Allows delegate calls to an disallowed target address."
+  "Disallows delegate calls to a target address.",
+  "The target address on which delegate calls should be disallowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, DELEGATE_CALL_ALLOWED, false)
+);
+
+targetTask(
+  "allowValue",
+  "Allows ETH to be sent to an allowed target address.",
+  "The target address to which ETH may be sent."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, VALUE_ALLOWED, true)
+);
+
+targetTask(
+  "disallowValue",
+  "Disallows ETH to be sent to a target address.",
+  "The target address to which ETH may not be sent."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, VALUE_ALLOWED, false)
+);
+
+targetTask(
+  "allowFallback",
+  "Allows calls without function signature to a scoped target address.",
+  "The target address on which the fallback should be allowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, FALLBACK_ALLOWED, true)
+);
+
+targetTask(
+  "disallowFallback",
+  "Disallows calls without function signature to a scoped target address.",
+  "The target address on which the fallback should be disallowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, FALLBACK_ALLOWED, false)
+);
+
+functionTask(
+  "allowFunction",
+  "Allows a function signature to be called on a scoped target address.",
+  "The target address on which a function signature should be allowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setFunctionPermission(taskArgs, hardhatRuntime, FUNCTION_ALLOWED, true)
+);
+
+functionTask(
+  "disallowFunction",
+  "Disallows a function signature to be called on a scoped target address.",
+  "The target address on which a function signature should be disallowed."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setFunctionPermission(taskArgs, hardhatRuntime, FUNCTION_ALLOWED, false)
+);
+
+targetTask(
+  "enableDenyList",
+  "Allows calls to every function signature of a target address but the denied ones.",
+  "The target address on which the deny list should be enabled."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, DENY_LIST, true)
+);
+
+targetTask(
+  "disableDenyList",
+  "Stops checking calls to a target address against its denied function signatures.",
+  "The target address on which the deny list should be disabled."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, DENY_LIST, false)
+);
+
+functionTask(
+  "denyFunction",
+  "Denies a function signature on a target address with a deny list.",
+  "The target address on which a function signature should be denied."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setFunctionPermission(taskArgs, hardhatRuntime, FUNCTION_DENIED, true)
+);
+
+functionTask(
+  "undenyFunction",
+  "Removes a function signature from the deny list of a target address.",
+  "The target address on which a function signature should no longer be denied."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setFunctionPermission(taskArgs, hardhatRuntime, FUNCTION_DENIED, false)
+);
+
+interface SenderTaskArgs extends OutputTaskArgs {
+  guard: string;
+  sender: string;
+  target?: string;
+  sig?: string;
+}
+
+const SENDER_RESTRICTED: TargetPermission = {
+  setter: "setSenderRestricted",
+  getter: "isRestrictedSender",
+  label: "Restricted",
+};
+const EXECUTOR_ALLOWED: TargetPermission = {
+  setter: "setExecutorAllowed",
+  getter: "isAllowedExecutor",
+  label: "Allowed executor",
+};
+const TARGET_ALLOWED_FOR_SENDER: TargetPermission = {
+  setter: "setTargetAllowedForSender",
+  getter: "isAllowedTargetForSender",
+  label: "Allowed",
+};
+const TARGET_SCOPED_FOR_SENDER: TargetPermission = {
+  setter: "setScopedForSender",
+  getter: "isScopedForSender",
+  label: "Scoped",
+};
+const FUNCTION_ALLOWED_FOR_SENDER: TargetPermission = {
+  setter: "setAllowedFunctionForSender",
+  getter: "isAllowedFunctionForSender",
+  label: "Allowed",
+};
+
+// Sets a permission of a restricted sender, on a target or one of its
+// functions when given.
+const setSenderPermission = async (
+  taskArgs: SenderTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment,
+  permission: TargetPermission,
+  allow: boolean
+): Promise<boolean | CallsOutput> => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const args = [taskArgs.sender];
+  if (taskArgs.target !== undefined) {
+    args.push(taskArgs.target);
+  }
+  if (taskArgs.sig !== undefined) {
+    args.push(parseFunction(taskArgs.sig).selector);
+  }
+  const call = { method: permission.setter, args: [...args, allow] };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const state: boolean = await guard[permission.getter](...args);
+  console.log(
+    `${permission.label} set to`,
+    state,
+    "for sender",
+    taskArgs.sender,
+    ...(taskArgs.sig === undefined
+      ? []
+      : ["on function", formatSelector(args[2])]),
+    ...(taskArgs.target === undefined ? [] : ["of target", taskArgs.target])
+  );
+  return state;
+};
+
+const SENDER_PARAM =
+  "The account executing transactions on the avatar, e.g. an owner of the Safe.";
+
+const senderTask = (name: string, description: string) =>
+  addOutputParams(
+    task(name, description)
+      .addParam(
+        "guard",
+        "The address of the guard that you are setting up.",
+        undefined,
+        types.string
+      )
+      .addParam("sender", SENDER_PARAM, undefined, types.string)
+  );
+
+senderTask(
+  "restrictSender",
+  "Restricts a sender to the target addresses and functions allowed for it."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setSenderPermission(taskArgs, hardhatRuntime, SENDER_RESTRICTED, true)
+);
+
+senderTask(
+  "unrestrictSender",
+  "Lets a sender call everything the guard allows."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setSenderPermission(taskArgs, hardhatRuntime, SENDER_RESTRICTED, false)
+);
+
+senderTask(
+  "allowExecutor",
+  "Lets an unrestricted sender execute transactions while other senders are restricted."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setSenderPermission(taskArgs, hardhatRuntime, EXECUTOR_ALLOWED, true)
+);
+
+senderTask(
+  "disallowExecutor",
+  "Stops an unrestricted sender from executing transactions while other senders are restricted."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setSenderPermission(taskArgs, hardhatRuntime, EXECUTOR_ALLOWED, false)
+);
+
+targetTask(
+  "allowTargetForSender",
+  "Allows a restricted sender to call a target address allowed by the guard.",
+  "The target address to be allowed."
+)
+  .addParam("sender", SENDER_PARAM, undefined, types.string)
+  .setAction(async (taskArgs, hardhatRuntime) =>
+    setSenderPermission(
+      taskArgs,
+      hardhatRuntime,
+      TARGET_ALLOWED_FOR_SENDER,
+      true
+    )
+  );
+
+targetTask(
+  "disallowTargetForSender",
+  "Disallows a restricted sender to call a target address.",
+  "The target address to be disallowed."
+)
+  .addParam("sender", SENDER_PARAM, undefined, types.string)
+  .setAction(async (taskArgs, hardhatRuntime) =>
+    setSenderPermission(
+      taskArgs,
+      hardhatRuntime,
+      TARGET_ALLOWED_FOR_SENDER,
+      false
+    )
+  );
+
+targetTask(
+  "scopeTargetForSender",
+  "Scopes a target address to the function signatures allowed for a restricted sender.",
+  "The target address to be scoped."
+)
+  .addParam("sender", SENDER_PARAM, undefined, types.string)
+  .setAction(async (taskArgs, hardhatRuntime) =>
+    setSenderPermission(
+      taskArgs,
+      hardhatRuntime,
+      TARGET_SCOPED_FOR_SENDER,
+      true
+    )
+  );
+
+targetTask(
+  "unscopeTargetForSender",
+  "Lets a restricted sender call any function of a target address allowed by the guard.",
+  "The target address to be unscoped."
+)
+  .addParam("sender", SENDER_PARAM, undefined, types.string)
+  .setAction(async (taskArgs, hardhatRuntime) =>
+    setSenderPermission(
+      taskArgs,
+      hardhatRuntime,
+      TARGET_SCOPED_FOR_SENDER,
+      false
+    )
+  );
+
+functionTask(
+  "allowFunctionForSender",
+  "Allows a restricted sender to call a function signature on a target address scoped for it.",
+  "The target address on which a function signature should be allowed."
+)
+  .addParam("sender", SENDER_PARAM, undefined, types.string)
+  .setAction(async (taskArgs, hardhatRuntime) =>
+    setSenderPermission(
+      taskArgs,
+      hardhatRuntime,
+      FUNCTION_ALLOWED_FOR_SENDER,
+      true
+    )
+  );
+
+functionTask(
+  "disallowFunctionForSender",
+  "Disallows a restricted sender to call a function signature on a target address.",
+  "The target address on which a function signature should be disallowed."
+)
+  .addParam("sender", SENDER_PARAM, undefined, types.string)
+  .setAction(async (taskArgs, hardhatRuntime) =>
+    setSenderPermission(
+      taskArgs,
+      hardhatRuntime,
+      FUNCTION_ALLOWED_FOR_SENDER,
+      false
+    )
+  );
+
+targetTask(
+  "setMaxValue",
+  "Caps the value that can be sent to a target address, or to one of its functions, in a single transaction.",
+  "The target address on which the value should be capped."
 )
   .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
+    "maxValue",
+    "Maximum value per transaction in wei, 0 to remove the cap.",
     undefined,
     types.string
   )
-  .addParam(
-    "target",
-    "The target address on which delegate calls should be disallowed.",
+  .addOptionalParam(
+    "sig",
+    "Function selector, signature or JSON ABI fragment to cap instead of the whole target.",
     undefined,
     types.string
   )
   .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
-      "ScopeGuard",
-      taskArgs.guard
-    );
-    await guard.disallowDelegateCall(taskArgs.target);
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const selector =
+      taskArgs.sig === undefined
+        ? undefined
+        : parseFunction(taskArgs.sig).selector;
+    const call =
+      selector === undefined
+        ? {
+            method: "setMaxValueOnTarget",
+            args: [taskArgs.target, taskArgs.maxValue],
+          }
+        : {
+            method: "setMaxValueOnFunction",
+            args: [taskArgs.target, selector, taskArgs.maxValue],
+          };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
 
-    console.log("Delegate calls disallowed to: ", taskArgs.target);
+    const maxValue: string = (
+      selector === undefined
+        ? await guard.getMaxValue(taskArgs.target)
+        : await guard.getMaxValueOnFunction(taskArgs.target, selector)
+    ).toString();
+    console.log(
+      "Maximum value set to",
+      maxValue,
+      "wei for",
+      selector === undefined
+        ? "target"
+        : `function ${formatSelector(selector)} on`,
+      taskArgs.target
+    );
+    return maxValue;
   });
 
-task(
-  "toggleScoped",
-  "Toggles whether a target address is scoped to specific functions."
+const KIND_PARAM =
+  "value for the value sent to the target, token for the amounts of ERC20 transfer and transferFrom calls to it.";
+
+targetTask(
+  "setAllowance",
+  "Limits the value sent to a target address, or the tokens it transfers, within a period.",
+  "The target address on which the allowance should be set."
 )
   .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
+    "amount",
+    "Maximum amount per period in wei or token units, 0 to remove the allowance.",
     undefined,
     types.string
   )
   .addParam(
-    "target",
-    "The target address to be (un)scoped.",
-    undefined,
-    types.string
+    "period",
+    "Length of a period in seconds, 0 for an allowance that never resets.",
+    0,
+    types.int
   )
+  .addParam("kind", KIND_PARAM, "value", types.string)
   .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
-      "ScopeGuard",
-      taskArgs.guard
-    );
-    let tx = await guard.toggleScoped(taskArgs.target);
-    let receipt = await tx.wait();
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const kind = parseAllowanceKind(taskArgs.kind);
+    const call = {
+      method: "setAllowance",
+      args: [taskArgs.target, kind, taskArgs.amount, taskArgs.period],
+    };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
 
+    const { amount, period } = await guard.getAllowance(taskArgs.target, kind);
     console.log(
-      "Scoped set to",
-      await guard.isScoped(taskArgs.target),
+      `Allowance on ${taskArgs.kind} set to`,
+      amount.toString(),
+      "per",
+      period.isZero() ? "ever" : `${period} seconds`,
       "for target address",
       taskArgs.target
     );
+    return amount.toString();
   });
 
-task(
-  "allowFunction",
-  "Allows a function signagure to be called to an allowed target address."
+targetTask(
+  "resetAllowance",
+  "Resets what an avatar has spent of an allowance on a target address.",
+  "The target address of the allowance."
 )
   .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
-    undefined,
-    types.string
-  )
-  .addParam(
-    "target",
-    "The target address on which a function signature should be allowed.",
-    undefined,
-    types.string
-  )
-  .addParam(
-    "sig",
-    "Function signature of to be allowed on the target address.",
+    "avatar",
+    "The avatar whose spending should be reset.",
     undefined,
     types.string
   )
+  .addParam("kind", KIND_PARAM, "value", types.string)
   .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
-      "ScopeGuard",
-      taskArgs.guard
-    );
-    await guard.allowFunction(taskArgs.target, taskArgs.sig);
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const kind = parseAllowanceKind(taskArgs.kind);
+    const call = {
+      method: "resetAllowance",
+      args: [taskArgs.avatar, taskArgs.target, kind],
+    };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
 
     console.log(
-      "Function signature",
-      taskArgs.sig,
-      "allowed for",
+      `Spending of ${taskArgs.kind} by`,
+      taskArgs.avatar,
+      "reset for target address",
       taskArgs.target
     );
   });
 
 task(
-  "disallowFunction",
-  "Allows a function signagure to be called to an disallowed target address."
+  "getAllowance",
+  "Shows an allowance on a target address and what an avatar has left of it."
 )
+  .addParam("guard", "The address of the guard.", undefined, types.string)
   .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
+    "target",
+    "The target address of the allowance.",
     undefined,
     types.string
   )
   .addParam(
-    "target",
-    "The target address on which a function signature should be disallowed.",
+    "avatar",
+    "The avatar whose spending should be shown.",
     undefined,
     types.string
   )
+  .addParam("kind", KIND_PARAM, "value", types.string)
+  .setAction(async (taskArgs, hardhatRuntime): Promise<AllowanceStatus> => {
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const status = await getAllowanceStatus(
+      guard,
+      taskArgs.avatar,
+      taskArgs.target,
+      parseAllowanceKind(taskArgs.kind)
+    );
+    if (status.amount === "0") {
+      console.log(`No allowance on ${taskArgs.kind} for`, taskArgs.target);
+      return status;
+    }
+    console.log(
+      "Allowance:",
+      status.amount,
+      status.period === 0 ? "in total" : `per ${status.period} seconds`
+    );
+    console.log("Spent:", status.spent);
+    console.log("Remaining:", status.remaining);
+    if (status.resetsAt !== undefined) {
+      console.log("Resets at:", new Date(status.resetsAt * 1000).toISOString());
+    }
+    return status;
+  });
+
+// Parameters are found by the types of the function, so a selector alone
+// is not enough.
+const getFunctionFragment = (sig: string): utils.FunctionFragment => {
+  const fragment = parseFunctionFragment(sig);
+  if (fragment === undefined) {
+    throw new Error(`Parameter conditions need a function signature: ${sig}`);
+  }
+  return fragment;
+};
+
+functionTask(
+  "setParameterCondition",
+  "Restricts the values of a parameter of a function on a scoped target address.",
+  "The target address on which the parameter should be restricted."
+)
   .addParam(
-    "sig",
-    "Function signature of to be allowed on the target address.",
+    "condition",
+    'Condition on a parameter given by name or position, e.g. "amount < 1000", "to == 0x..." or "to in [0x..., 0x...]".',
     undefined,
     types.string
   )
   .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
-      "ScopeGuard",
-      taskArgs.guard
-    );
-    await guard.disallowFunction(taskArgs.target, taskArgs.sig);
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const fragment = getFunctionFragment(taskArgs.sig);
+    const selector = utils.Interface.getSighash(fragment);
+    const condition = parseCondition(fragment, taskArgs.condition);
+    const call = {
+      method: "setParameterCondition",
+      args: [
+        taskArgs.target,
+        selector,
+        condition.index,
+        condition.paramType,
+        condition.comparison,
+        condition.compValues,
+      ],
+    };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
 
     console.log(
-      "Function signature",
-      taskArgs.sig,
-      "disallowed for",
+      "Condition",
+      taskArgs.condition,
+      "set on function",
+      formatSelector(selector),
+      "for",
       taskArgs.target
     );
+    return condition;
   });
 
-task(
-  "transferOwnership",
-  "Toggles whether a target address is scoped to specific functions."
+functionTask(
+  "removeParameterCondition",
+  "Removes the condition on a parameter of a function on a scoped target address.",
+  "The target address on which the parameter should no longer be restricted."
 )
   .addParam(
-    "guard",
-    "The address of the guard that you are seting up.",
+    "parameter",
+    "Name or position of the parameter.",
     undefined,
     types.string
   )
-  .addParam(
-    "newowner",
-    "The address that will be the new owner of the gaurd.",
-    undefined,
-    types.string
+  .setAction(async (taskArgs, hardhatRuntime) => {
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const fragment = getFunctionFragment(taskArgs.sig);
+    const selector = utils.Interface.getSighash(fragment);
+    const { index } = findParameter(fragment, taskArgs.parameter);
+    const call = {
+      method: "removeParameterCondition",
+      args: [taskArgs.target, selector, index],
+    };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
+
+    const state: boolean = await guard.isParameterScoped(
+      taskArgs.target,
+      selector,
+      index
+    );
+    console.log(
+      "Parameter",
+      taskArgs.parameter,
+      "of function",
+      formatSelector(selector),
+      state ? "still has a condition for" : "has no condition for",
+      taskArgs.target
+    );
+    return state;
+  });
+
+addOutputParams(
+  task(
+    "setMultiSend",
+    "Checks each transaction batched by delegate calls to a MultiSend contract instead of the delegate call itself."
   )
+    .addParam(
+      "guard",
+      "The address of the guard that you are setting up.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "address",
+      "The address of the MultiSend or MultiSendCallOnly contract, the zero address to stop unpacking.",
+      MULTISEND_CALL_ONLY,
+      types.string
+    )
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const call = { method: "setMultiSend", args: [taskArgs.address] };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const multiSend: string = await guard.multiSend();
+  console.log("MultiSend set to", multiSend);
+  return multiSend;
+});
+
+const guardTask = (
+  name: string,
+  description: string,
+  guard: string,
+  method: string
+) =>
+  addOutputParams(
+    task(name, description)
+      .addParam(
+        "guard",
+        "The address of the guard that you are setting up.",
+        undefined,
+        types.string
+      )
+      .addParam("downstream", guard, undefined, types.string)
+  ).setAction(async (taskArgs, hardhatRuntime) => {
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const call = { method, args: [taskArgs.downstream] };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
+
+    const guards: string[] = await guard.getGuards();
+    console.log("Guards called after the ScopeGuard:", guards);
+    return guards;
+  });
+
+guardTask(
+  "addGuard",
+  "Adds a guard to be called after the ScopeGuard, after the guards already added.",
+  "The address of the guard to be added.",
+  "addGuard"
+);
+
+guardTask(
+  "removeGuard",
+  "Removes a guard called after the ScopeGuard.",
+  "The address of the guard to be removed.",
+  "removeGuard"
+);
+
+task("listGuards", "Lists the guards called after the ScopeGuard, in order.")
+  .addParam("guard", "The address of the guard.", undefined, types.string)
   .setAction(async (taskArgs, hardhatRuntime) => {
-    const [caller] = await hardhatRuntime.ethers.getSigners();
-    console.log("Using the account:", caller.address);
-    const guard = await hardhatRuntime.ethers.getContractAt(
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const guards: string[] = await guard.getGuards();
+    if (guards.length === 0) {
+      console.log("No guards are called after the ScopeGuard");
+    }
+    guards.forEach((address, index) => console.log(`${index + 1}.`, address));
+    return guards;
+  });
+
+targetTask(
+  "allowRecoveryTarget",
+  "Lets transactions to a target address through while the guard is paused.",
+  "The target address to be added to the recovery targets."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, RECOVERY_TARGET, true)
+);
+
+targetTask(
+  "disallowRecoveryTarget",
+  "Blocks transactions to a target address while the guard is paused.",
+  "The target address to be removed from the recovery targets."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setTargetPermission(taskArgs, hardhatRuntime, RECOVERY_TARGET, false)
+);
+
+addOutputParams(
+  task("setGuardian", "Sets the account that can pause the guard.")
+    .addParam(
+      "guard",
+      "The address of the guard that you are setting up.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "guardian",
+      "The address of the guardian, the zero address for none.",
+      undefined,
+      types.string
+    )
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const call = { method: "setGuardian", args: [taskArgs.guardian] };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const guardian: string = await guard.guardian();
+  console.log("Guardian set to", guardian);
+  return guardian;
+});
+
+const pauseTask = (name: string, description: string, paused: boolean) =>
+  addOutputParams(
+    task(name, description).addParam(
+      "guard",
+      "The address of the guard.",
+      undefined,
+      types.string
+    ),
+    { queue: false }
+  ).setAction(async (taskArgs, hardhatRuntime) => {
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const call = { method: paused ? "pause" : "unpause", args: [] };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
+
+    const state: boolean = await guard.paused();
+    console.log(
       "ScopeGuard",
-      taskArgs.guard
+      state ? "paused," : "unpaused,",
+      state ? "only recovery targets can be called" : "permissions restored"
     );
-    let tx = await guard.transferOwnership(taskArgs.newowner);
-    let receipt = await tx.wait();
-
-    console.log("ScopeGuard now owned by: ", await guard.owner());
+    return state;
   });
 
+pauseTask(
+  "pause",
+  "Pauses the guard, blocking every transaction but those to recovery targets. Sent by the guardian or owner.",
+  true
+);
+
+pauseTask("unpause", "Unpauses the guard. Sent by the owner.", false);
+
+addOutputParams(
+  task(
+    "setRefundRule",
+    "Limits the gas refunds paid in a gas token by transactions with a gas price."
+  )
+    .addParam(
+      "guard",
+      "The address of the guard that you are setting up.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "gasToken",
+      "The token refunds are paid in, the zero address for ETH.",
+      constants.AddressZero,
+      types.string
+    )
+    .addParam(
+      "maxGasPrice",
+      "Maximum gas price in wei or token units, 0 to disallow refunds in the gas token.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "maxBaseGas",
+      "Maximum base gas, which is refunded on top of the gas used.",
+      "0",
+      types.string
+    )
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const call = {
+    method: "setRefundRule",
+    args: [taskArgs.gasToken, taskArgs.maxGasPrice, taskArgs.maxBaseGas],
+  };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const { maxGasPrice, maxBaseGas } = await guard.refundRules(
+    taskArgs.gasToken
+  );
+  if (maxGasPrice.isZero()) {
+    console.log("Refunds disallowed in gas token", taskArgs.gasToken);
+  } else {
+    console.log(
+      "Refunds in gas token",
+      taskArgs.gasToken,
+      "limited to a gas price of",
+      maxGasPrice.toString(),
+      "and a base gas of",
+      maxBaseGas.toString()
+    );
+  }
+  return maxGasPrice.toString();
+});
+
+interface RefundReceiverTaskArgs extends OutputTaskArgs {
+  guard: string;
+  receiver: string;
+}
+
+const setRefundReceiver = async (
+  taskArgs: RefundReceiverTaskArgs,
+  hardhatRuntime: HardhatRuntimeEnvironment,
+  allow: boolean
+): Promise<boolean | CallsOutput> => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const call = {
+    method: "setRefundReceiverAllowed",
+    args: [taskArgs.receiver, allow],
+  };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const state: boolean = await guard.refundReceivers(taskArgs.receiver);
+  console.log(
+    "Refunds",
+    state ? "allowed to" : "disallowed to",
+    taskArgs.receiver
+  );
+  return state;
+};
+
+const refundReceiverTask = (name: string, description: string) =>
+  addOutputParams(
+    task(name, description)
+      .addParam(
+        "guard",
+        "The address of the guard that you are setting up.",
+        undefined,
+        types.string
+      )
+      .addParam(
+        "receiver",
+        "The refund receiver, the zero address for whoever executes the transaction.",
+        undefined,
+        types.string
+      )
+  );
+
+refundReceiverTask(
+  "allowRefundReceiver",
+  "Allows gas refunds to be paid to an address."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setRefundReceiver(taskArgs, hardhatRuntime, true)
+);
+
+refundReceiverTask(
+  "disallowRefundReceiver",
+  "Disallows gas refunds to be paid to an address."
+).setAction(async (taskArgs, hardhatRuntime) =>
+  setRefundReceiver(taskArgs, hardhatRuntime, false)
+);
+
+addOutputParams(
+  task("transferOwnership", "Transfers ownership of the guard.")
+    .addParam(
+      "guard",
+      "The address of the guard that you are setting up.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "newowner",
+      "The address that will be the new owner of the guard.",
+      undefined,
+      types.string
+    ),
+  { queue: false }
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const call = { method: "transferOwnership", args: [taskArgs.newowner] };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  console.log("ScopeGuard now owned by: ", await guard.owner());
+});
+
 task(
   "getFunctionSignature",
-  "Returns the four-byte function signature of a given string. e.g. balanceOf\\(address\\)."
+  'Returns the four-byte function signature of a given function, e.g. "balanceOf(address)".'
 )
   .addParam(
     "function",
-    "The string representation of the function selector. For example, balanceOf\\(address\\).",
+    'The function signature or JSON ABI fragment. For example, "function balanceOf(address owner) view returns (uint256)".',
     undefined,
     types.string
   )
-  .setAction(async (taskArgs, hardhatRuntime) => {
-    console.log(
-      hardhatRuntime.ethers.utils
-        .solidityKeccak256(["string"], [taskArgs.function])
-        .substring(0, 10)
-    );
+  .setAction(async (taskArgs) => {
+    const { selector, signature } = parseFunction(taskArgs.function);
+    console.log(selector, signature);
+    return selector;
   });
 
 export {};
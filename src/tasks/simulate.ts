@@ -0,0 +1,115 @@
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+
+import { loadConfig } from "../utils/config";
+import { getGuard } from "../utils/guard";
+import {
+  SimulatedTransaction,
+  UNCHECKED_LOCALLY,
+  Verdict,
+  callCheckTransaction,
+  evaluateTransaction,
+  listTargets,
+  readPauseState,
+} from "../utils/simulate";
+import { readPermissions } from "../utils/state";
+
+task(
+  "simulate",
+  "Predicts whether a ScopeGuard lets a Safe transaction through, without sending anything."
+)
+  .addOptionalParam(
+    "guard",
+    "The address of the guard to check against, unless a snapshot is given.",
+    undefined,
+    types.string
+  )
+  .addParam("to", "Target of the transaction.", undefined, types.string)
+  .addOptionalParam(
+    "value",
+    "Value of the transaction, in wei.",
+    "0",
+    types.string
+  )
+  .addOptionalParam("data", "Data of the transaction.", "0x", types.string)
+  .addOptionalParam(
+    "operation",
+    "Operation of the transaction: 0 for a call, 1 for a delegate call.",
+    0,
+    types.int
+  )
+  .addOptionalParam(
+    "sender",
+    "Account executing the transaction on the Safe, for guards restricting senders.",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "avatar",
+    "The Safe the guard is enabled on, whose allowance spending is checked.",
+    undefined,
+    types.string
+  )
+  .addOptionalParam(
+    "snapshot",
+    "Evaluate against this JSON or YAML permissions file instead of the guard.",
+    undefined,
+    types.inputFile
+  )
+  .addFlag(
+    "local",
+    "Evaluate against the permissions read from the guard events instead of calling checkTransaction."
+  )
+  .setAction(async (taskArgs, hardhatRuntime) => {
+    const transaction: SimulatedTransaction = {
+      to: taskArgs.to,
+      value: taskArgs.value,
+      data: taskArgs.data,
+      operation: taskArgs.operation,
+      sender: taskArgs.sender,
+    };
+
+    let verdict: Verdict;
+    // Checks left out when evaluating the transaction locally.
+    let unchecked: string | undefined;
+    if (taskArgs.snapshot) {
+      const { chainId } = await hardhatRuntime.ethers.provider.getNetwork();
+      verdict = evaluateTransaction(
+        loadConfig(taskArgs.snapshot, chainId),
+        transaction
+      );
+      unchecked = `pausing, ${UNCHECKED_LOCALLY}`;
+    } else if (taskArgs.guard) {
+      const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+      if (taskArgs.local) {
+        const permissions = await readPermissions(guard);
+        verdict = evaluateTransaction(
+          permissions,
+          transaction,
+          await readPauseState(guard, listTargets(permissions, transaction))
+        );
+        unchecked = UNCHECKED_LOCALLY;
+      } else {
+        verdict = await callCheckTransaction(
+          guard,
+          transaction,
+          taskArgs.avatar
+        );
+      }
+    } else {
+      throw new Error("Either a guard or a snapshot file is required");
+    }
+
+    if (verdict.allowed && unchecked !== undefined) {
+      console.log(
+        `Transaction is allowed by the permissions, but ${unchecked} were not checked`
+      );
+    } else if (verdict.allowed) {
+      console.log("Transaction is allowed by the guard");
+    } else {
+      console.log("Transaction is blocked by the guard:", verdict.reason);
+    }
+    return verdict;
+  });
+
+export {};
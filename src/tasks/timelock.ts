@@ -0,0 +1,131 @@
+import "@nomiclabs/hardhat-ethers";
+import { task, types } from "hardhat/config";
+
+import { formatCall } from "../utils/apply";
+import { getGuard } from "../utils/guard";
+import { addOutputParams, outputCalls } from "../utils/output";
+import {
+  PendingChange,
+  findPendingChange,
+  readPendingChanges,
+} from "../utils/timelock";
+
+const formatEta = (eta: number): string => new Date(eta * 1000).toISOString();
+
+const changeTask = (name: string, description: string) =>
+  addOutputParams(
+    task(name, description)
+      .addParam("guard", "The address of the guard.", undefined, types.string)
+      .addParam("id", "Id of the queued change.", undefined, types.string)
+      .addOptionalParam(
+        "fromBlock",
+        "Block to start reading the queued changes at, defaults to the block the guard was set up in.",
+        undefined,
+        types.int
+      ),
+    { queue: false }
+  );
+
+addOutputParams(
+  task(
+    "setDelay",
+    "Sets the delay between queueing a change to the guard and executing it."
+  )
+    .addParam(
+      "guard",
+      "The address of the guard that you are setting up.",
+      undefined,
+      types.string
+    )
+    .addParam(
+      "delay",
+      "Delay in seconds, 0 to let the owner change the guard directly.",
+      undefined,
+      types.int
+    )
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const call = { method: "setDelay", args: [taskArgs.delay] };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+
+  const delay: number = (await guard.delay()).toNumber();
+  console.log("Delay set to", delay, "seconds");
+  return delay;
+});
+
+task("pendingChanges", "Lists the changes queued on a guard.")
+  .addParam("guard", "The address of the guard.", undefined, types.string)
+  .addOptionalParam(
+    "fromBlock",
+    "Block to start reading the queued changes at, defaults to the block the guard was set up in.",
+    undefined,
+    types.int
+  )
+  .setAction(async (taskArgs, hardhatRuntime): Promise<PendingChange[]> => {
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const changes = await readPendingChanges(guard, taskArgs.fromBlock);
+    if (changes.length === 0) {
+      console.log("No pending changes");
+    }
+    const { timestamp } = await hardhatRuntime.ethers.provider.getBlock(
+      "latest"
+    );
+    for (const change of changes) {
+      console.log(
+        change.id,
+        formatCall(change.call),
+        change.eta <= timestamp
+          ? "executable"
+          : `executable from ${formatEta(change.eta)}`
+      );
+    }
+    return changes;
+  });
+
+changeTask(
+  "executeChange",
+  "Executes a queued change to the guard once its delay has passed."
+).setAction(async (taskArgs, hardhatRuntime) => {
+  const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+  const change = await findPendingChange(
+    guard,
+    taskArgs.id,
+    taskArgs.fromBlock
+  );
+  const { timestamp } = await hardhatRuntime.ethers.provider.getBlock("latest");
+  if (change.eta > timestamp) {
+    throw new Error(
+      `Change ${change.id} is not executable until ${formatEta(change.eta)}`
+    );
+  }
+  const call = { method: "executeChange", args: [change.data, change.nonce] };
+  const output = await outputCalls(guard, [call], taskArgs);
+  if (output !== undefined) {
+    return output;
+  }
+  console.log("Executed", formatCall(change.call));
+  return change;
+});
+
+changeTask("cancelChange", "Cancels a queued change to the guard.").setAction(
+  async (taskArgs, hardhatRuntime) => {
+    const guard = await getGuard(taskArgs.guard, hardhatRuntime);
+    const change = await findPendingChange(
+      guard,
+      taskArgs.id,
+      taskArgs.fromBlock
+    );
+    const call = { method: "cancelChange", args: [change.id] };
+    const output = await outputCalls(guard, [call], taskArgs);
+    if (output !== undefined) {
+      return output;
+    }
+    console.log("Cancelled", formatCall(change.call));
+    return change;
+  }
+);
+
+export {};
@@ -0,0 +1,111 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+
+import { utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { findCollisions, parseFunction } from "./signatures";
+
+export interface FunctionSelection {
+  // Function names or signatures to pick, all functions if empty.
+  functions?: string[];
+  // Leave out payable functions.
+  nonPayable?: boolean;
+}
+
+// Reads an ABI from a plain ABI array, a Hardhat or Truffle artifact, or
+// an Etherscan `getabi` response, whose result is the ABI as a string.
+export const parseAbi = (source: string): utils.Interface => {
+  const json = JSON.parse(source);
+  if (Array.isArray(json)) {
+    return new utils.Interface(json);
+  }
+  if (Array.isArray(json?.abi)) {
+    return new utils.Interface(json.abi);
+  }
+  if (typeof json?.result === "string") {
+    return new utils.Interface(JSON.parse(json.result));
+  }
+  throw new Error("Expected an ABI, an artifact or an Etherscan response");
+};
+
+// Loads an ABI from a JSON file or a Hardhat artifact name. Without a
+// source, looks up the target in a local cache of Etherscan responses,
+// stored as `<cache>/<address>.json`.
+export const loadAbi = async (
+  hardhatRuntime: HardhatRuntimeEnvironment,
+  target: string,
+  source: string | undefined,
+  cache: string
+): Promise<utils.Interface> => {
+  if (source === undefined) {
+    const file = [utils.getAddress(target), target.toLowerCase()]
+      .map((address) => join(cache, `${address}.json`))
+      .find(existsSync);
+    if (file === undefined) {
+      throw new Error(`No ABI for ${target} in ${cache}`);
+    }
+    return parseAbi(readFileSync(file, "utf8"));
+  }
+  if (existsSync(source)) {
+    return parseAbi(readFileSync(source, "utf8"));
+  }
+  const artifact = await hardhatRuntime.artifacts.readArtifact(source);
+  return new utils.Interface(artifact.abi);
+};
+
+// Picks the functions of an ABI to allow. A name picks all its overloads.
+export const selectFunctions = (
+  abi: utils.Interface,
+  { functions = [], nonPayable = false }: FunctionSelection
+): utils.FunctionFragment[] => {
+  const fragments = Object.values(abi.functions);
+  let selected = fragments;
+  if (functions.length > 0) {
+    selected = [];
+    for (const fn of functions) {
+      const matches = fragments.filter((fragment) =>
+        fn.includes("(")
+          ? fragment.format() === parseFunction(fn).signature
+          : fragment.name === fn
+      );
+      if (matches.length === 0) {
+        throw new Error(`Function ${fn} is not in the ABI`);
+      }
+      selected.push(...matches.filter((match) => !selected.includes(match)));
+    }
+  }
+  if (nonPayable) {
+    selected = selected.filter((fragment) => !fragment.payable);
+  }
+
+  const collisions = findCollisions(
+    selected.map((fragment) => fragment.format())
+  );
+  if (collisions.length > 0) {
+    throw new Error(
+      `Selector collisions in ABI:\n  ${collisions.join("\n  ")}`
+    );
+  }
+  return selected;
+};
+
+// Splits a comma separated list of function names and signatures, leaving
+// the commas between parameters of a signature alone.
+export const splitFunctionList = (list: string): string[] => {
+  const functions: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of list) {
+    if (char === "," && depth === 0) {
+      functions.push(current);
+      current = "";
+      continue;
+    }
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    current += char;
+  }
+  functions.push(current);
+  return functions.map((fn) => fn.trim()).filter((fn) => fn !== "");
+};
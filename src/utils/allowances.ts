@@ -0,0 +1,61 @@
+import { BigNumber, Contract } from "ethers";
+
+// Mirrors the enum of ScopeGuard.
+export enum AllowanceKind {
+  Value = 0,
+  Token = 1,
+}
+
+export interface AllowanceStatus {
+  amount: string;
+  // Length of a period in seconds, 0 if the allowance never resets.
+  period: number;
+  spent: string;
+  remaining: string;
+  // Timestamp at which the spending resets, undefined while nothing is spent
+  // or if the allowance never resets.
+  resetsAt?: number;
+}
+
+export const parseAllowanceKind = (kind: string): AllowanceKind => {
+  switch (kind.toLowerCase()) {
+    case "value":
+      return AllowanceKind.Value;
+    case "token":
+      return AllowanceKind.Token;
+    default:
+      throw new Error(
+        `Invalid allowance kind: ${kind}, expected value or token`
+      );
+  }
+};
+
+// Reads an allowance on a target and what an avatar has left of it in the
+// current period.
+export const getAllowanceStatus = async (
+  guard: Contract,
+  avatar: string,
+  target: string,
+  kind: AllowanceKind
+): Promise<AllowanceStatus> => {
+  const [amount, period]: [BigNumber, BigNumber] = await guard.getAllowance(
+    target,
+    kind
+  );
+  const [spent, periodStart]: [BigNumber, BigNumber] = await guard.getSpending(
+    avatar,
+    target,
+    kind
+  );
+  const remaining = spent.gte(amount) ? BigNumber.from(0) : amount.sub(spent);
+  return {
+    amount: amount.toString(),
+    period: period.toNumber(),
+    spent: spent.toString(),
+    remaining: remaining.toString(),
+    resetsAt:
+      period.isZero() || periodStart.isZero()
+        ? undefined
+        : periodStart.add(period).toNumber(),
+  };
+};
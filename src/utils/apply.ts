@@ -0,0 +1,189 @@
+import { Contract } from "ethers";
+
+import { TargetFlag } from "./config";
+import { parseFunction } from "./signatures";
+
+export type SetterArg = string | boolean | number | SetterArg[];
+
+export interface SetterCall {
+  method: string;
+  args: SetterArg[];
+}
+
+export const FLAG_SETTERS: Record<TargetFlag, string> = {
+  allowed: "setTargetAllowed",
+  scoped: "setScoped",
+  delegateCallAllowed: "setDelegateCallAllowedOnTarget",
+  valueAllowed: "setValueAllowedOnTarget",
+  fallbackAllowed: "setFallbackAllowedOnTarget",
+  denyList: "setDenyList",
+};
+
+export const FLAG_GETTERS: Record<TargetFlag, string> = {
+  allowed: "isAllowedTarget",
+  scoped: "isScoped",
+  delegateCallAllowed: "isAllowedToDelegateCall",
+  valueAllowed: "isValueAllowed",
+  fallbackAllowed: "isfallbackAllowed",
+  denyList: "isDenyList",
+};
+
+// Setters narrowing permissions when called with true.
+const RESTRICTING_SETTERS = [
+  "setScoped",
+  "setDenyList",
+  "setDeniedFunction",
+  "setSenderRestricted",
+  "setScopedForSender",
+];
+
+// Scoping a target or a sender, denying functions or setting a parameter
+// condition narrows what may be called, every other setter narrows permissions when called
+// with false.
+const isRestriction = ({ method, args }: SetterCall) => {
+  if (RESTRICTING_SETTERS.includes(method)) {
+    return args[args.length - 1] === true;
+  }
+  if (method === "setParameterCondition") {
+    return true;
+  }
+  return args[args.length - 1] === false;
+};
+
+// Position of the function selector in the arguments of setters taking one.
+const FUNCTION_SETTERS: Record<string, number> = {
+  setAllowedFunction: 1,
+  setDeniedFunction: 1,
+  setMaxValueOnFunction: 1,
+  setParameterCondition: 1,
+  removeParameterCondition: 1,
+  setAllowedFunctionForSender: 2,
+  setAllowedFunctions: 1,
+};
+
+// Batch setters taking a list of targets with the value of a flag.
+const TARGET_BATCH_SETTERS: Record<string, string> = {
+  setTargetAllowed: "setTargetsAllowed",
+  setScoped: "setTargetsScoped",
+};
+
+const formatArg = (arg: SetterArg): string =>
+  Array.isArray(arg) ? `[${arg.map(formatArg).join(", ")}]` : String(arg);
+
+const isTargetAllowance = ({ method, args }: SetterCall) =>
+  method === "setTargetAllowed" && args[1] === true;
+
+// Orders calls so that the guard never grants more than either the current
+// or the desired permissions: restrictions first, then grants, and targets
+// are only allowed once everything else about them is in place.
+export const orderCalls = (calls: SetterCall[]): SetterCall[] => [
+  ...calls.filter(isRestriction),
+  ...calls.filter((call) => !isRestriction(call) && !isTargetAllowance(call)),
+  ...calls.filter(isTargetAllowance),
+];
+
+// Formats a call for output, labelling function selectors with their
+// signature when it is known.
+export const formatCall = ({ method, args }: SetterCall): string => {
+  const call = `${method}(${args.map(formatArg).join(", ")})`;
+  if (!(method in FUNCTION_SETTERS)) {
+    return call;
+  }
+  const selectors = [args[FUNCTION_SETTERS[method]]].flat() as string[];
+  const signatures = selectors.map(
+    (selector) => parseFunction(selector).signature
+  );
+  if (signatures.every((signature) => signature === undefined)) {
+    return call;
+  }
+  return `${call} // ${signatures
+    .map((signature, i) => signature ?? selectors[i])
+    .join(", ")}`;
+};
+
+// Guards deployed before the batch setters have a fallback that does not
+// revert, so calls to the batch setters would succeed without changing
+// anything. Whether the deployed guard has them is probed with a view
+// function added in the same release, as the local ABI cannot tell.
+const hasBatchSetters = async (contract: Contract): Promise<boolean> => {
+  try {
+    await contract.callStatic.getAllowedTargetCount();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Merges runs of calls to the same setter into a call to its batch variant,
+// keeping the order of the calls. Calls to contracts without the batch
+// setters, such as the Safe or guards deployed before them, are left as
+// they are.
+export const batchCalls = async (
+  contract: Contract,
+  calls: SetterCall[]
+): Promise<SetterCall[]> => {
+  const hasFunction = (name: string) =>
+    Object.values(contract.interface.functions).some(
+      (fragment) => fragment.name === name
+    );
+  if (
+    !hasFunction("getAllowedTargetCount") ||
+    !(await hasBatchSetters(contract))
+  ) {
+    return calls;
+  }
+  const batchMethod = ({ method }: SetterCall): string | undefined => {
+    const batch =
+      method === "setAllowedFunction"
+        ? "setAllowedFunctions"
+        : TARGET_BATCH_SETTERS[method];
+    return batch !== undefined && hasFunction(batch) ? batch : undefined;
+  };
+  // Functions are batched per target and allow value.
+  const sameBatch = (a: SetterCall, b: SetterCall) =>
+    a.method === b.method &&
+    (a.method !== "setAllowedFunction" ||
+      (a.args[0] === b.args[0] && a.args[2] === b.args[2]));
+
+  const runs: SetterCall[][] = [];
+  for (const call of calls) {
+    const run = runs[runs.length - 1];
+    if (
+      run !== undefined &&
+      batchMethod(call) !== undefined &&
+      sameBatch(run[0], call)
+    ) {
+      run.push(call);
+    } else {
+      runs.push([call]);
+    }
+  }
+  return runs.map((run) => {
+    const method = batchMethod(run[0]);
+    if (run.length === 1 || method === undefined) {
+      return run[0];
+    }
+    if (method === "setAllowedFunctions") {
+      const [target, , allow] = run[0].args;
+      return { method, args: [target, run.map(({ args }) => args[1]), allow] };
+    }
+    return { method, args: [run.map(({ args }) => args)] };
+  });
+};
+
+// Receives a line of progress, e.g. console.log.
+export type Logger = (message: string) => void;
+
+// Sends each call from the guard's signer and waits for it to be mined,
+// logging each executed call if a logger is given.
+export const sendCalls = async (
+  guard: Contract,
+  calls: SetterCall[],
+  log?: Logger
+): Promise<void> => {
+  for (const call of calls) {
+    const tx = await guard[call.method](...call.args);
+    await tx.wait();
+    log?.(`Executed ${formatCall(call)}`);
+  }
+};
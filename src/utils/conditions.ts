@@ -0,0 +1,197 @@
+import { utils } from "ethers";
+
+// Mirror the enums of ScopeGuard.
+export enum ParameterType {
+  Static = 0,
+  Dynamic = 1,
+}
+
+export enum Comparison {
+  EqualTo = 0,
+  GreaterThan = 1,
+  LessThan = 2,
+  OneOf = 3,
+}
+
+export interface ParameterCondition {
+  // Index of the calldata word holding the parameter.
+  index: number;
+  paramType: ParameterType;
+  comparison: Comparison;
+  compValues: string[];
+}
+
+const OPERATORS: Record<string, Comparison> = {
+  "==": Comparison.EqualTo,
+  ">": Comparison.GreaterThan,
+  "<": Comparison.LessThan,
+  in: Comparison.OneOf,
+};
+
+const SYMBOLS: Record<Comparison, string> = {
+  [Comparison.EqualTo]: "==",
+  [Comparison.GreaterThan]: ">",
+  [Comparison.LessThan]: "<",
+  [Comparison.OneOf]: "in",
+};
+
+const CONDITION_PATTERN = /^\s*([\w.]+)\s*(==|<|>|\bin\b)\s*(.+?)\s*$/;
+
+const isDynamic = (param: utils.ParamType): boolean => {
+  if (param.baseType === "string" || param.baseType === "bytes") {
+    return true;
+  }
+  if (param.baseType === "array") {
+    return param.arrayLength < 0 || isDynamic(param.arrayChildren);
+  }
+  if (param.baseType === "tuple") {
+    return param.components.some(isDynamic);
+  }
+  return false;
+};
+
+// Number of calldata words a parameter takes up in the head of the
+// arguments. Dynamic parameters are stored as an offset.
+const headWords = (param: utils.ParamType): number => {
+  if (isDynamic(param)) {
+    return 1;
+  }
+  if (param.baseType === "array") {
+    return param.arrayLength * headWords(param.arrayChildren);
+  }
+  if (param.baseType === "tuple") {
+    return param.components.reduce((sum, child) => sum + headWords(child), 0);
+  }
+  return 1;
+};
+
+// Finds the component of a tuple, or the parameter of a function, with a
+// name or position among `inputs`, along with the number of calldata words
+// before it.
+const findInput = (
+  inputs: utils.ParamType[],
+  name: string
+): { param: utils.ParamType; offset: number } | undefined => {
+  const position = /^\d+$/.test(name)
+    ? parseInt(name, 10)
+    : inputs.findIndex((input) => input.name === name);
+  if (position < 0 || position >= inputs.length) {
+    return undefined;
+  }
+  const offset = inputs
+    .slice(0, position)
+    .reduce((sum, input) => sum + headWords(input), 0);
+  return { param: inputs[position], offset };
+};
+
+// Finds a parameter of a function by name or position, along with the
+// index of the calldata word it starts at. Components of static tuples are
+// given as a path, e.g. `params.recipient`.
+export const findParameter = (
+  fragment: utils.FunctionFragment,
+  parameter: string
+): { param: utils.ParamType; index: number } => {
+  const [name, ...path] = parameter.split(".");
+  const found = findInput(fragment.inputs, name);
+  if (found === undefined) {
+    throw new Error(
+      `Function ${fragment.format()} has no parameter ${parameter}`
+    );
+  }
+  let { param } = found;
+  let index = found.offset;
+  for (const component of path) {
+    // Dynamic tuples are stored behind an offset set by the caller.
+    const child =
+      param.baseType === "tuple" && !isDynamic(param)
+        ? findInput(param.components, component)
+        : undefined;
+    if (child === undefined) {
+      throw new Error(
+        `Function ${fragment.format()} has no static parameter ${parameter}`
+      );
+    }
+    param = child.param;
+    index += child.offset;
+  }
+  return { param, index };
+};
+
+const unquote = (value: string): string =>
+  value.replace(/^(["'])(.*)\1$/, "$2");
+
+// Encodes a value as ScopeGuard compares it: the word itself for static
+// parameters, the hash of the contents for bytes and strings.
+const encodeValue = (param: utils.ParamType, value: string): string => {
+  if (param.baseType === "string") {
+    return utils.keccak256(utils.toUtf8Bytes(value));
+  }
+  if (param.baseType === "bytes") {
+    return utils.keccak256(value);
+  }
+  if (param.baseType === "bool") {
+    if (!["true", "false"].includes(value)) {
+      throw new Error(`Invalid bool value: ${value}`);
+    }
+    return utils.defaultAbiCoder.encode([param], [value === "true"]);
+  }
+  return utils.defaultAbiCoder.encode([param], [value]);
+};
+
+// Parses a condition such as `amount < 1000`, `to == 0x...` or
+// `to in [0x..., 0x...]` on a parameter of a function, given by name or
+// position.
+export const parseCondition = (
+  fragment: utils.FunctionFragment,
+  spec: string
+): ParameterCondition => {
+  const match = CONDITION_PATTERN.exec(spec);
+  if (!match) {
+    throw new Error(`Invalid condition: ${spec}`);
+  }
+  const [, parameter, operator, operand] = match;
+  const { param, index } = findParameter(fragment, parameter);
+  const comparison = OPERATORS[operator];
+
+  if (["array", "tuple"].includes(param.baseType)) {
+    throw new Error(`Cannot scope ${param.format()} parameters`);
+  }
+  if (
+    (comparison === Comparison.GreaterThan ||
+      comparison === Comparison.LessThan) &&
+    !param.baseType.startsWith("uint")
+  ) {
+    throw new Error(`${operator} only applies to uint parameters`);
+  }
+
+  let values = [operand];
+  if (comparison === Comparison.OneOf) {
+    if (!/^\[.*\]$/.test(operand)) {
+      throw new Error(`Expected a list of values after in: ${operand}`);
+    }
+    values = operand
+      .slice(1, -1)
+      .split(",")
+      .map((value) => value.trim())
+      .filter((value) => value !== "");
+  }
+
+  return {
+    index,
+    paramType: isDynamic(param) ? ParameterType.Dynamic : ParameterType.Static,
+    comparison,
+    compValues: values.map((value) => encodeValue(param, unquote(value))),
+  };
+};
+
+// Formats a condition for output, e.g. `word 0 in [0x..., 0x...]`.
+export const formatCondition = ({
+  index,
+  comparison,
+  compValues,
+}: ParameterCondition): string =>
+  `word ${index} ${SYMBOLS[comparison]} ${
+    comparison === Comparison.OneOf
+      ? `[${compValues.join(", ")}]`
+      : compValues[0]
+  }`;
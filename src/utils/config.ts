@@ -0,0 +1,406 @@
+import { readFileSync } from "fs";
+import { extname } from "path";
+
+import { utils } from "ethers";
+import yaml from "js-yaml";
+
+import { PRESETS } from "../presets";
+
+import {
+  Comparison,
+  ParameterCondition,
+  ParameterType,
+  parseCondition,
+} from "./conditions";
+import { applyPresets } from "./presets";
+import {
+  findCollisions,
+  parseFunction,
+  parseFunctionFragment,
+} from "./signatures";
+
+// A parameter condition in a permissions file, either written as for the
+// setParameterCondition task, e.g. `spender in [0x..., 0x...]`, or in the
+// form the guard stores it, as exported.
+export type ConditionConfig =
+  | { function: string; condition: string }
+  | ({ function: string } & ParameterCondition);
+
+// A parameter condition on a function of a target, by selector.
+export interface FunctionCondition extends ParameterCondition {
+  function: string;
+}
+
+export interface TargetConfig {
+  address: string;
+  allowed?: boolean;
+  scoped?: boolean;
+  delegateCallAllowed?: boolean;
+  valueAllowed?: boolean;
+  fallbackAllowed?: boolean;
+  denyList?: boolean;
+  functions?: string[];
+  // Functions denied on the target when it has a deny list.
+  deniedFunctions?: string[];
+  // Conditions on the parameters of the functions of a scoped target.
+  conditions?: ConditionConfig[];
+}
+
+export interface GuardConfig {
+  // Names of presets in PRESETS whose targets are merged with `targets`.
+  presets?: string[];
+  // Avatar the guard is enabled on, for presets targeting it.
+  avatar?: string;
+  // MultiSend whose batches the guard unpacks. Left as is when not given.
+  multiSend?: string;
+  targets: TargetConfig[];
+}
+
+export interface TargetPermissions {
+  address: string;
+  allowed: boolean;
+  scoped: boolean;
+  delegateCallAllowed: boolean;
+  valueAllowed: boolean;
+  fallbackAllowed: boolean;
+  denyList: boolean;
+  functions: string[];
+  deniedFunctions: string[];
+  conditions: FunctionCondition[];
+}
+
+export interface GuardPermissions {
+  // MultiSend whose batches the guard unpacks, if one is set.
+  multiSend?: string;
+  targets: TargetPermissions[];
+}
+
+export const TARGET_FLAGS = [
+  "allowed",
+  "scoped",
+  "delegateCallAllowed",
+  "valueAllowed",
+  "fallbackAllowed",
+  "denyList",
+] as const;
+
+export type TargetFlag = typeof TARGET_FLAGS[number];
+
+const TARGET_KEYS: string[] = [
+  "address",
+  ...TARGET_FLAGS,
+  "functions",
+  "deniedFunctions",
+  "conditions",
+];
+
+export class ConfigError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid guard config:\n  ${errors.join("\n  ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// Returns the four byte selector for a function signature such as
+// `transfer(address,uint256)`, or the selector itself if one is given.
+export const toSelector = (fn: string): string => parseFunction(fn).selector;
+
+const validateFunctions = (functions: any, path: string): string[] => {
+  if (!Array.isArray(functions)) {
+    return [`${path} must be a list`];
+  }
+  const errors: string[] = [];
+  functions.forEach((fn: any, index: number) => {
+    try {
+      if (typeof fn !== "string") {
+        throw new Error();
+      }
+      toSelector(fn);
+    } catch {
+      errors.push(
+        `${path}[${index}] must be a function signature, ABI fragment or selector`
+      );
+    }
+  });
+  if (errors.length === 0) {
+    for (const collision of findCollisions(functions)) {
+      errors.push(`${path}: ${collision}`);
+    }
+  }
+  return errors;
+};
+
+const WORD_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+// Resolves a condition of a permissions file into the form the guard
+// stores it in. Throws if the condition is invalid.
+export const resolveCondition = (
+  condition: ConditionConfig
+): FunctionCondition => {
+  const { selector } = parseFunction(condition.function);
+  if ("condition" in condition) {
+    const fragment = parseFunctionFragment(condition.function);
+    if (fragment === undefined) {
+      throw new Error("function must be a signature to name parameters");
+    }
+    return {
+      function: selector,
+      ...parseCondition(fragment, condition.condition),
+    };
+  }
+  const { index, paramType, comparison, compValues } = condition;
+  if (!Number.isInteger(index) || index < 0 || index > 255) {
+    throw new Error("index must be a calldata word index below 256");
+  }
+  if (typeof paramType !== "number" || !(paramType in ParameterType)) {
+    throw new Error("paramType must be 0 (static) or 1 (dynamic)");
+  }
+  if (typeof comparison !== "number" || !(comparison in Comparison)) {
+    throw new Error("comparison must be 0, 1, 2 or 3");
+  }
+  if (
+    !Array.isArray(compValues) ||
+    compValues.length === 0 ||
+    compValues.some((value) => !WORD_PATTERN.test(value))
+  ) {
+    throw new Error("compValues must be a list of 32 byte words");
+  }
+  return {
+    function: selector,
+    index,
+    paramType,
+    comparison,
+    compValues: compValues.map((value) => value.toLowerCase()),
+  };
+};
+
+const validateConditions = (conditions: any, path: string): string[] => {
+  if (!Array.isArray(conditions)) {
+    return [`${path} must be a list`];
+  }
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  conditions.forEach((condition: any, index: number) => {
+    try {
+      if (
+        typeof condition !== "object" ||
+        condition === null ||
+        typeof condition.function !== "string"
+      ) {
+        throw new Error("must be an object with a function");
+      }
+      const resolved = resolveCondition(condition);
+      const key = `${resolved.function} ${resolved.index}`;
+      if (seen.has(key)) {
+        throw new Error("is set more than once on its parameter");
+      }
+      seen.add(key);
+    } catch (e) {
+      errors.push(`${path}[${index}] ${(e as Error).message}`);
+    }
+  });
+  return errors;
+};
+
+const validateTarget = (target: any, path: string): string[] => {
+  if (typeof target !== "object" || target === null || Array.isArray(target)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(target)) {
+    if (!TARGET_KEYS.includes(key)) {
+      errors.push(`${path}.${key} is not a known property`);
+    }
+  }
+  if (typeof target.address !== "string" || !utils.isAddress(target.address)) {
+    errors.push(`${path}.address must be an address`);
+  }
+  for (const flag of TARGET_FLAGS) {
+    if (target[flag] !== undefined && typeof target[flag] !== "boolean") {
+      errors.push(`${path}.${flag} must be a boolean`);
+    }
+  }
+  for (const key of ["functions", "deniedFunctions"]) {
+    if (target[key] !== undefined) {
+      errors.push(...validateFunctions(target[key], `${path}.${key}`));
+    }
+  }
+  if (target.conditions !== undefined) {
+    errors.push(...validateConditions(target.conditions, `${path}.conditions`));
+  }
+  return errors;
+};
+
+// Checks that a parsed config file matches the GuardConfig shape.
+// Throws a ConfigError listing every problem found.
+export const validateConfig = (config: unknown): GuardConfig => {
+  if (typeof config !== "object" || config === null) {
+    throw new ConfigError(["config must be an object"]);
+  }
+  const { targets } = config as { targets: unknown };
+  if (!Array.isArray(targets)) {
+    throw new ConfigError(["targets must be a list"]);
+  }
+
+  const errors: string[] = [];
+  const { presets, avatar, multiSend } = config as {
+    presets: unknown;
+    avatar: unknown;
+    multiSend: unknown;
+  };
+  if (presets !== undefined) {
+    if (!Array.isArray(presets)) {
+      errors.push("presets must be a list");
+    } else {
+      presets.forEach((name: any, index: number) => {
+        if (typeof name !== "string" || !(name in PRESETS)) {
+          errors.push(
+            `presets[${index}] must be one of ${Object.keys(PRESETS).join(
+              ", "
+            )}`
+          );
+        }
+      });
+    }
+  }
+  if (
+    avatar !== undefined &&
+    (typeof avatar !== "string" || !utils.isAddress(avatar))
+  ) {
+    errors.push("avatar must be an address");
+  }
+  if (
+    multiSend !== undefined &&
+    (typeof multiSend !== "string" || !utils.isAddress(multiSend))
+  ) {
+    errors.push("multiSend must be an address");
+  }
+
+  const seen = new Set<string>();
+  targets.forEach((target: any, index: number) => {
+    const path = `targets[${index}]`;
+    const targetErrors = validateTarget(target, path);
+    errors.push(...targetErrors);
+    if (targetErrors.length === 0) {
+      const address = utils.getAddress(target.address);
+      if (seen.has(address)) {
+        errors.push(`${path}.address ${address} is listed more than once`);
+      }
+      seen.add(address);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+  return config as GuardConfig;
+};
+
+// Sorts conditions by function selector and calldata word.
+export const sortConditions = (
+  conditions: FunctionCondition[]
+): FunctionCondition[] =>
+  [...conditions].sort((a, b) =>
+    a.function === b.function
+      ? a.index - b.index
+      : a.function < b.function
+      ? -1
+      : 1
+  );
+
+// Resolves defaults, checksums addresses and turns function signatures
+// into sorted, de-duplicated selectors.
+export const normalizeConfig = (config: GuardConfig): GuardPermissions => ({
+  ...(config.multiSend !== undefined && {
+    multiSend: utils.getAddress(config.multiSend),
+  }),
+  targets: config.targets.map((target) => ({
+    address: utils.getAddress(target.address),
+    allowed: target.allowed ?? false,
+    scoped: target.scoped ?? false,
+    delegateCallAllowed: target.delegateCallAllowed ?? false,
+    valueAllowed: target.valueAllowed ?? false,
+    fallbackAllowed: target.fallbackAllowed ?? false,
+    denyList: target.denyList ?? false,
+    functions: [...new Set((target.functions ?? []).map(toSelector))].sort(),
+    deniedFunctions: [
+      ...new Set((target.deniedFunctions ?? []).map(toSelector)),
+    ].sort(),
+    conditions: sortConditions(
+      // Later conditions on a parameter replace earlier ones.
+      [
+        ...new Map(
+          (target.conditions ?? [])
+            .map(resolveCondition)
+            .map((condition) => [
+              `${condition.function} ${condition.index}`,
+              condition,
+            ])
+        ).values(),
+      ]
+    ),
+  })),
+});
+
+// Parses a config from its JSON or YAML source. The chain id picks the
+// addresses of the presets the config refers to.
+export const parseConfig = (
+  source: string,
+  format: "json" | "yaml",
+  chainId?: number
+): GuardPermissions =>
+  normalizeConfig(
+    applyPresets(
+      validateConfig(
+        format === "json" ? JSON.parse(source) : yaml.load(source)
+      ),
+      chainId
+    )
+  );
+
+// Reads a `.json`, `.yaml` or `.yml` config file.
+export const loadConfig = (
+  file: string,
+  chainId?: number
+): GuardPermissions => {
+  const extension = extname(file).toLowerCase();
+  if (![".json", ".yaml", ".yml"].includes(extension)) {
+    throw new Error(`Unsupported config file extension: ${extension}`);
+  }
+  return parseConfig(
+    readFileSync(file, "utf8"),
+    extension === ".json" ? "json" : "yaml",
+    chainId
+  );
+};
+
+// Serializes permissions into the canonical config file format: targets
+// sorted by address, flags in a fixed order and selectors sorted.
+export const formatConfig = (permissions: GuardPermissions): string => {
+  const targets = [...permissions.targets]
+    .sort((a, b) => (a.address < b.address ? -1 : 1))
+    .map((target) => ({
+      address: target.address,
+      allowed: target.allowed,
+      scoped: target.scoped,
+      delegateCallAllowed: target.delegateCallAllowed,
+      valueAllowed: target.valueAllowed,
+      fallbackAllowed: target.fallbackAllowed,
+      denyList: target.denyList,
+      functions: [...target.functions].sort(),
+      deniedFunctions: [...target.deniedFunctions].sort(),
+      conditions: sortConditions(target.conditions).map((condition) => ({
+        function: condition.function,
+        index: condition.index,
+        paramType: condition.paramType,
+        comparison: condition.comparison,
+        compValues: condition.compValues,
+      })),
+    }));
+  return `${JSON.stringify(
+    { multiSend: permissions.multiSend, targets },
+    null,
+    2
+  )}\n`;
+};
@@ -0,0 +1,18 @@
+import "@nomiclabs/hardhat-ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { ScopeGuard, ScopeGuardClient } from "../sdk";
+
+export const getClient = async (
+  address: string,
+  hardhatRuntime: HardhatRuntimeEnvironment
+): Promise<ScopeGuardClient> => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  console.log("Using the account:", caller.address);
+  return ScopeGuardClient.connect(address, caller);
+};
+
+export const getGuard = async (
+  address: string,
+  hardhatRuntime: HardhatRuntimeEnvironment
+): Promise<ScopeGuard> => (await getClient(address, hardhatRuntime)).guard;
@@ -0,0 +1,79 @@
+import { MetaTransaction, encodeMultiSend } from "@gnosis.pm/safe-contracts";
+import { BigNumber, BytesLike, Contract, utils } from "ethers";
+
+import { SetterCall } from "./apply";
+
+// Safe v1.3.0 MultiSendCallOnly, deployed at the same address on all
+// supported networks.
+export const MULTISEND_CALL_ONLY = "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D";
+
+export const multiSendInterface = new utils.Interface([
+  "function multiSend(bytes transactions) payable",
+]);
+
+// Encodes the setter calls as the inner transactions of a MultiSend.
+export const encodeSetterCalls = (
+  guard: Contract,
+  calls: SetterCall[]
+): MetaTransaction[] =>
+  calls.map(({ method, args }) => ({
+    to: guard.address,
+    value: 0,
+    data: guard.interface.encodeFunctionData(method, args),
+    operation: 0,
+  }));
+
+// Bundles the setter calls into a single transaction that the Safe owning
+// the guard executes by delegate calling into `multiSend`.
+export const buildMultiSend = (
+  guard: Contract,
+  calls: SetterCall[],
+  multiSend = MULTISEND_CALL_ONLY
+): MetaTransaction => ({
+  to: utils.getAddress(multiSend),
+  value: "0",
+  data: multiSendInterface.encodeFunctionData("multiSend", [
+    encodeMultiSend(encodeSetterCalls(guard, calls)),
+  ]),
+  operation: 1,
+});
+
+// Unpacks the transactions batched by a multiSend call, with the bounds
+// checks of ScopeGuard.checkMultiSend. Returns undefined for calldata the
+// guard rejects as invalid transactions.
+export const decodeMultiSend = (
+  data: BytesLike
+): MetaTransaction[] | undefined => {
+  let packed: Uint8Array;
+  try {
+    const [transactions] = multiSendInterface.decodeFunctionData(
+      "multiSend",
+      data
+    );
+    packed = utils.arrayify(transactions);
+  } catch {
+    return undefined;
+  }
+
+  // Each transaction packs its operation (1 byte), to (20 bytes), value
+  // (32 bytes), data length (32 bytes) and data.
+  const transactions: MetaTransaction[] = [];
+  for (let i = 0; i < packed.length; ) {
+    if (packed.length - i < 85 || packed[i] > 1) {
+      return undefined;
+    }
+    const length = BigNumber.from(packed.slice(i + 53, i + 85));
+    if (length.gt(packed.length - i - 85)) {
+      return undefined;
+    }
+    const end = i + 85 + length.toNumber();
+    transactions.push({
+      operation: packed[i],
+      to: utils.getAddress(utils.hexlify(packed.slice(i + 1, i + 21))),
+      value: BigNumber.from(packed.slice(i + 21, i + 53)),
+      data: utils.hexlify(packed.slice(i + 85, end)),
+    });
+    i = end;
+  }
+  return transactions;
+};
@@ -0,0 +1,131 @@
+import { writeFileSync } from "fs";
+
+import { MetaTransaction } from "@gnosis.pm/safe-contracts";
+import { Contract } from "ethers";
+import { types } from "hardhat/config";
+import { ConfigurableTaskDefinition } from "hardhat/types";
+
+import { SetterCall, batchCalls, sendCalls } from "./apply";
+import { MULTISEND_CALL_ONLY, buildMultiSend } from "./multisend";
+import { PendingChange, queueCalls, sendQueuedCalls } from "./timelock";
+import { BatchFile, buildBatch } from "./txBuilder";
+
+export const OUTPUT_MODES = ["send", "txbuilder", "multisend"] as const;
+
+export type OutputMode = typeof OUTPUT_MODES[number];
+
+export type CallsOutput = BatchFile | MetaTransaction | PendingChange[];
+
+export interface OutputTaskArgs {
+  output: OutputMode;
+  queue?: boolean;
+  safe?: string;
+  batchFile: string;
+  multisend: string;
+}
+
+export interface OutputParamsOptions {
+  // Default output mode of the task.
+  output?: OutputMode;
+  // Whether to add the `safe` parameter, for tasks that define their own.
+  safe?: boolean;
+  // Whether to add the `queue` flag, for tasks calling guard setters.
+  queue?: boolean;
+}
+
+// Adds the parameters selecting how a task hands over its setter calls.
+export const addOutputParams = (
+  definition: ConfigurableTaskDefinition,
+  { output = "send", safe = true, queue = true }: OutputParamsOptions = {}
+): ConfigurableTaskDefinition => {
+  definition.addOptionalParam(
+    "output",
+    `How to output the setter calls: ${OUTPUT_MODES.join(", ")}.`,
+    output,
+    types.string
+  );
+  if (queue) {
+    definition.addFlag(
+      "queue",
+      "Queue the setter calls on the guard, for guards with a delay."
+    );
+  }
+  if (safe) {
+    definition.addOptionalParam(
+      "safe",
+      "Address of the Safe owning the guard, recorded in batch files.",
+      undefined,
+      types.string
+    );
+  }
+  return definition
+    .addOptionalParam(
+      "batchFile",
+      "Path of the Transaction Builder batch or MultiSend transaction file to write.",
+      "scope-guard-batch.json",
+      types.string
+    )
+    .addOptionalParam(
+      "multisend",
+      "Address of the MultiSendCallOnly contract used by the multisend output.",
+      MULTISEND_CALL_ONLY,
+      types.string
+    );
+};
+
+const writeJson = (file: string, json: unknown) =>
+  writeFileSync(file, `${JSON.stringify(json, null, 2)}\n`);
+
+// Sends the calls from the local signer or, if another output mode is
+// selected, writes them out for the owner of the contract to execute.
+// Runs of calls to the same setter are merged into its batch variant. With
+// `queue`, the calls are queued on the guard instead. Returns what was
+// written or queued, if anything.
+export const outputCalls = async (
+  contract: Contract,
+  calls: SetterCall[],
+  taskArgs: OutputTaskArgs
+): Promise<CallsOutput | undefined> => {
+  if (!OUTPUT_MODES.includes(taskArgs.output)) {
+    throw new Error(`Unknown output mode: ${taskArgs.output}`);
+  }
+  if (calls.length === 0) {
+    return undefined;
+  }
+  calls = await batchCalls(contract, calls);
+  if (taskArgs.queue && taskArgs.output === "send") {
+    return sendQueuedCalls(contract, calls);
+  }
+  if (taskArgs.queue) {
+    calls = queueCalls(contract, calls);
+  }
+  if (taskArgs.output === "send") {
+    await sendCalls(contract, calls, console.log);
+    return undefined;
+  }
+
+  if (taskArgs.output === "multisend") {
+    const transaction = buildMultiSend(contract, calls, taskArgs.multisend);
+    writeJson(taskArgs.batchFile, transaction);
+    console.log("MultiSend transaction bundling", calls.length, "calls:");
+    console.log("  to:", transaction.to);
+    console.log("  value:", transaction.value);
+    console.log("  operation:", transaction.operation, "(delegate call)");
+    console.log("  data:", transaction.data);
+    console.log("Written to", taskArgs.batchFile);
+    return transaction;
+  }
+
+  const batch = buildBatch(contract, calls, {
+    chainId: (await contract.provider.getNetwork()).chainId,
+    safe: taskArgs.safe,
+  });
+  writeJson(taskArgs.batchFile, batch);
+  console.log(
+    "Wrote",
+    calls.length,
+    "transactions to Transaction Builder batch file",
+    taskArgs.batchFile
+  );
+  return batch;
+};
@@ -0,0 +1,330 @@
+import { Contract, constants, utils } from "ethers";
+
+import {
+  FLAG_GETTERS,
+  FLAG_SETTERS,
+  SetterCall,
+  formatCall,
+  orderCalls,
+} from "./apply";
+import { formatCondition } from "./conditions";
+import {
+  FunctionCondition,
+  GuardPermissions,
+  TARGET_FLAGS,
+  TargetFlag,
+  TargetPermissions,
+} from "./config";
+import { formatSelector } from "./signatures";
+import { emptyTarget, isEmptyTarget } from "./state";
+
+export interface FlagChange {
+  flag: TargetFlag;
+  from: boolean;
+  to: boolean;
+}
+
+export interface TargetDiff {
+  address: string;
+  kind: "add" | "change" | "remove";
+  flags: FlagChange[];
+  addedFunctions: string[];
+  removedFunctions: string[];
+  addedDeniedFunctions: string[];
+  removedDeniedFunctions: string[];
+  // Conditions set or replaced, and conditions removed from their word.
+  addedConditions: FunctionCondition[];
+  removedConditions: FunctionCondition[];
+}
+
+export interface Plan {
+  targets: TargetDiff[];
+  // Change of the MultiSend, if the config sets another one than the guard.
+  multiSend?: { from: string; to: string };
+  calls: SetterCall[];
+}
+
+const sameWord = (a: FunctionCondition, b: FunctionCondition): boolean =>
+  a.function === b.function && a.index === b.index;
+
+const sameCondition = (a: FunctionCondition, b: FunctionCondition): boolean =>
+  sameWord(a, b) &&
+  a.paramType === b.paramType &&
+  a.comparison === b.comparison &&
+  a.compValues.join() === b.compValues.join();
+
+const diffTarget = (
+  current: TargetPermissions,
+  desired: TargetPermissions
+): TargetDiff | undefined => {
+  const flags = TARGET_FLAGS.filter(
+    (flag) => current[flag] !== desired[flag]
+  ).map((flag) => ({ flag, from: current[flag], to: desired[flag] }));
+  // Selectors in a function list of `to` but not in that of `from`.
+  const missing = (
+    list: "functions" | "deniedFunctions",
+    from: TargetPermissions,
+    to: TargetPermissions
+  ) => to[list].filter((fn) => !from[list].includes(fn));
+  const addedFunctions = missing("functions", current, desired);
+  const removedFunctions = missing("functions", desired, current);
+  const addedDeniedFunctions = missing("deniedFunctions", current, desired);
+  const removedDeniedFunctions = missing("deniedFunctions", desired, current);
+  const addedConditions = desired.conditions.filter(
+    (condition) =>
+      !current.conditions.some((other) => sameCondition(condition, other))
+  );
+  const removedConditions = current.conditions.filter(
+    (condition) =>
+      !desired.conditions.some((other) => sameWord(condition, other))
+  );
+  if (
+    flags.length === 0 &&
+    addedFunctions.length === 0 &&
+    removedFunctions.length === 0 &&
+    addedDeniedFunctions.length === 0 &&
+    removedDeniedFunctions.length === 0 &&
+    addedConditions.length === 0 &&
+    removedConditions.length === 0
+  ) {
+    return undefined;
+  }
+
+  let kind: TargetDiff["kind"] = "change";
+  if (isEmptyTarget(current)) {
+    kind = "add";
+  } else if (isEmptyTarget(desired)) {
+    kind = "remove";
+  }
+  return {
+    address: desired.address,
+    kind,
+    flags,
+    addedFunctions,
+    removedFunctions,
+    addedDeniedFunctions,
+    removedDeniedFunctions,
+    addedConditions,
+    removedConditions,
+  };
+};
+
+// Compares two permission sets target by target. Targets missing from
+// `desired` are treated as having no permissions at all.
+export const diffPermissions = (
+  current: GuardPermissions,
+  desired: GuardPermissions
+): TargetDiff[] => {
+  const currentTargets = new Map(
+    current.targets.map((target) => [target.address, target])
+  );
+  const desiredAddresses = desired.targets.map((target) => target.address);
+  const removedTargets = current.targets
+    .filter((target) => !desiredAddresses.includes(target.address))
+    .map((target) => emptyTarget(target.address));
+
+  const diffs: TargetDiff[] = [];
+  for (const target of [...desired.targets, ...removedTargets]) {
+    const diff = diffTarget(
+      currentTargets.get(target.address) ?? emptyTarget(target.address),
+      target
+    );
+    if (diff !== undefined) {
+      diffs.push(diff);
+    }
+  }
+  return diffs;
+};
+
+const getDiffCalls = (diff: TargetDiff): SetterCall[] => [
+  ...diff.flags.map(({ flag, to }) => ({
+    method: FLAG_SETTERS[flag],
+    args: [diff.address, to],
+  })),
+  ...diff.removedFunctions.map((fn) => ({
+    method: "setAllowedFunction",
+    args: [diff.address, fn, false],
+  })),
+  ...diff.addedFunctions.map((fn) => ({
+    method: "setAllowedFunction",
+    args: [diff.address, fn, true],
+  })),
+  ...diff.removedDeniedFunctions.map((fn) => ({
+    method: "setDeniedFunction",
+    args: [diff.address, fn, false],
+  })),
+  ...diff.addedDeniedFunctions.map((fn) => ({
+    method: "setDeniedFunction",
+    args: [diff.address, fn, true],
+  })),
+  ...diff.removedConditions.map((condition) => ({
+    method: "removeParameterCondition",
+    args: [diff.address, condition.function, condition.index],
+  })),
+  ...diff.addedConditions.map((condition) => ({
+    method: "setParameterCondition",
+    args: [
+      diff.address,
+      condition.function,
+      condition.index,
+      condition.paramType,
+      condition.comparison,
+      condition.compValues,
+    ],
+  })),
+];
+
+export const planPermissions = (
+  current: GuardPermissions,
+  desired: GuardPermissions
+): Plan => {
+  const targets = diffPermissions(current, desired);
+  const from = current.multiSend ?? constants.AddressZero;
+  const multiSend =
+    desired.multiSend !== undefined && desired.multiSend !== from
+      ? { from, to: desired.multiSend }
+      : undefined;
+  return {
+    targets,
+    ...(multiSend && { multiSend }),
+    calls: orderCalls([
+      ...targets.flatMap(getDiffCalls),
+      ...(multiSend ? [{ method: "setMultiSend", args: [multiSend.to] }] : []),
+    ]),
+  };
+};
+
+const SYMBOLS = { add: "+", change: "~", remove: "-" };
+
+// Renders a plan the way `terraform plan` does.
+export const formatPlan = (plan: Plan): string => {
+  if (plan.targets.length === 0 && plan.multiSend === undefined) {
+    return "No changes. The guard matches the configuration.";
+  }
+
+  const lines: string[] = [];
+  if (plan.multiSend) {
+    lines.push(
+      `  ~ multiSend: ${plan.multiSend.from} -> ${plan.multiSend.to}`,
+      ""
+    );
+  }
+  for (const target of plan.targets) {
+    lines.push(`  ${SYMBOLS[target.kind]} target ${target.address}`);
+    for (const { flag, from, to } of target.flags) {
+      lines.push(
+        target.kind === "change"
+          ? `      ~ ${flag}: ${from} -> ${to}`
+          : `      ${SYMBOLS[target.kind]} ${flag}: ${from || to}`
+      );
+    }
+    for (const fn of target.removedFunctions) {
+      lines.push(`      - function ${formatSelector(fn)}`);
+    }
+    for (const fn of target.addedFunctions) {
+      lines.push(`      + function ${formatSelector(fn)}`);
+    }
+    for (const fn of target.removedDeniedFunctions) {
+      lines.push(`      - denied function ${formatSelector(fn)}`);
+    }
+    for (const fn of target.addedDeniedFunctions) {
+      lines.push(`      + denied function ${formatSelector(fn)}`);
+    }
+    for (const condition of target.removedConditions) {
+      lines.push(
+        `      - condition on ${formatSelector(
+          condition.function
+        )}: ${formatCondition(condition)}`
+      );
+    }
+    for (const condition of target.addedConditions) {
+      lines.push(
+        `      + condition on ${formatSelector(
+          condition.function
+        )}: ${formatCondition(condition)}`
+      );
+    }
+    lines.push("");
+  }
+
+  const count = (kind: TargetDiff["kind"]) =>
+    plan.targets.filter((target) => target.kind === kind).length;
+  lines.push(
+    `Plan: ${count("add")} to add, ${count("change")} to change, ${count(
+      "remove"
+    )} to remove.`,
+    "",
+    "Setter calls:",
+    ...plan.calls.map((call, index) => `  ${index + 1}. ${formatCall(call)}`)
+  );
+  return lines.join("\n");
+};
+
+// Reads back the permissions a plan changes and returns a description of
+// every change the guard did not make, e.g. because it lacks the setter.
+export const verifyPlan = async (
+  guard: Contract,
+  plan: Plan
+): Promise<string[]> => {
+  const mismatches: string[] = [];
+  if (
+    plan.multiSend &&
+    utils.getAddress(await guard.multiSend()) !== plan.multiSend.to
+  ) {
+    mismatches.push(`MultiSend is not ${plan.multiSend.to}`);
+  }
+  for (const target of plan.targets) {
+    for (const { flag, to } of target.flags) {
+      if ((await guard[FLAG_GETTERS[flag]](target.address)) !== to) {
+        mismatches.push(`${target.address} ${flag} is not ${to}`);
+      }
+    }
+    const functions = [
+      ...target.removedFunctions.map((fn) => [fn, false] as const),
+      ...target.addedFunctions.map((fn) => [fn, true] as const),
+    ];
+    for (const [fn, allowed] of functions) {
+      if ((await guard.isAllowedFunction(target.address, fn)) !== allowed) {
+        mismatches.push(
+          `${target.address} function ${fn} is ${
+            allowed ? "not allowed" : "still allowed"
+          }`
+        );
+      }
+    }
+    const deniedFunctions = [
+      ...target.removedDeniedFunctions.map((fn) => [fn, false] as const),
+      ...target.addedDeniedFunctions.map((fn) => [fn, true] as const),
+    ];
+    for (const [fn, denied] of deniedFunctions) {
+      if ((await guard.isDeniedFunction(target.address, fn)) !== denied) {
+        mismatches.push(
+          `${target.address} function ${fn} is ${
+            denied ? "not denied" : "still denied"
+          }`
+        );
+      }
+    }
+    const conditions = [
+      ...target.removedConditions.map(
+        (condition) => [condition, false] as const
+      ),
+      ...target.addedConditions.map((condition) => [condition, true] as const),
+    ];
+    for (const [condition, scoped] of conditions) {
+      const onChain: boolean = await guard.isParameterScoped(
+        target.address,
+        condition.function,
+        condition.index
+      );
+      if (onChain !== scoped) {
+        mismatches.push(
+          `${target.address} function ${condition.function} word ${
+            condition.index
+          } ${scoped ? "has no condition" : "still has a condition"}`
+        );
+      }
+    }
+  }
+  return mismatches;
+};
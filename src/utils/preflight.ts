@@ -0,0 +1,66 @@
+import { Contract } from "ethers";
+
+import { SAFE_ADMIN_FUNCTIONS, getModules, safeInterface } from "./safe";
+import { Operation, Verdict, callCheckTransaction } from "./simulate";
+
+export interface PreflightCheck {
+  signature: string;
+  verdict: Verdict;
+}
+
+export interface PreflightReport {
+  checks: PreflightCheck[];
+  modules: string[];
+  passed: boolean;
+}
+
+// Checks that the Safe can still manage itself once the guard is enabled:
+// either the guard lets all admin functions of the Safe through, or a
+// module is enabled, whose transactions are not checked by the guard.
+export const runPreflight = async (
+  safe: Contract,
+  guard: Contract
+): Promise<PreflightReport> => {
+  const checks: PreflightCheck[] = [];
+  for (const name of SAFE_ADMIN_FUNCTIONS) {
+    const fragment = safeInterface.getFunction(name);
+    const verdict = await callCheckTransaction(
+      guard,
+      {
+        to: safe.address,
+        value: 0,
+        data: safeInterface.getSighash(fragment),
+        operation: Operation.Call,
+      },
+      safe.address
+    );
+    checks.push({ signature: fragment.format(), verdict });
+  }
+  const modules = await getModules(safe);
+  return {
+    checks,
+    modules,
+    passed:
+      checks.every((check) => check.verdict.allowed) || modules.length > 0,
+  };
+};
+
+export const formatPreflight = (report: PreflightReport): string => {
+  const lines = report.checks.map(({ signature, verdict }) =>
+    verdict.allowed
+      ? `  ok    ${signature}`
+      : `  FAIL  ${signature}: ${verdict.reason}`
+  );
+  lines.push(
+    report.modules.length > 0
+      ? `  ok    modules enabled: ${report.modules.join(", ")}`
+      : "  --    no module enabled as a recovery path"
+  );
+  lines.push(
+    "",
+    report.passed
+      ? "Preflight passed."
+      : "Preflight failed. Enabling the guard could brick the Safe."
+  );
+  return lines.join("\n");
+};
@@ -0,0 +1,166 @@
+import { utils } from "ethers";
+
+import {
+  ADDRESS_BOOK,
+  PRESETS,
+  PRESET_ABIS,
+  PresetContract,
+  PresetTarget,
+} from "../presets";
+
+import { ConditionConfig, GuardConfig, TargetConfig } from "./config";
+
+const resolveAddress = (
+  contract: PresetContract,
+  chainId: number,
+  avatar: string | undefined
+): string | undefined =>
+  contract === "avatar" ? avatar : ADDRESS_BOOK[chainId]?.[contract];
+
+const usesAvatar = (target: PresetTarget): boolean =>
+  target.contract === "avatar" ||
+  (target.conditions ?? []).some(({ oneOf }) => oneOf.includes("avatar"));
+
+// Turns the conditions of a preset target into conditions on the addresses
+// of a chain, and lists the functions that have a condition with none.
+const resolveConditions = (
+  target: PresetTarget,
+  chainId: number,
+  avatar: string | undefined
+): { conditions: ConditionConfig[]; unavailable: string[] } => {
+  const abi = new utils.Interface(PRESET_ABIS[target.abi]);
+  const conditions: ConditionConfig[] = [];
+  const unavailable: string[] = [];
+  for (const condition of target.conditions ?? []) {
+    const addresses: string[] = [];
+    for (const contract of condition.oneOf) {
+      const address = resolveAddress(contract, chainId, avatar);
+      if (address !== undefined) {
+        addresses.push(utils.getAddress(address));
+      }
+    }
+    if (addresses.length === 0) {
+      unavailable.push(condition.function);
+      continue;
+    }
+    conditions.push({
+      // The full fragment names the parameters.
+      function: abi.getFunction(condition.function).format("full"),
+      condition:
+        addresses.length === 1
+          ? `${condition.parameter} == ${addresses[0]}`
+          : `${condition.parameter} in [${addresses.join(", ")}]`,
+    });
+  }
+  return { conditions, unavailable };
+};
+
+// Turns a preset into the targets it allows on a chain. Contracts that are
+// not deployed on the chain are left out, as are functions limited to
+// contracts that are not.
+export const resolvePreset = (
+  name: string,
+  chainId: number,
+  avatar?: string
+): TargetConfig[] => {
+  const preset = PRESETS[name];
+  if (preset === undefined) {
+    throw new Error(`Unknown preset: ${name}`);
+  }
+  if (avatar === undefined && preset.targets.some(usesAvatar)) {
+    throw new Error(`Preset ${name} needs the address of the avatar`);
+  }
+
+  const targets: TargetConfig[] = [];
+  for (const target of preset.targets) {
+    const address = resolveAddress(target.contract, chainId, avatar);
+    const { conditions, unavailable } = resolveConditions(
+      target,
+      chainId,
+      avatar
+    );
+    const functions = target.functions.filter(
+      (fn) => !unavailable.includes(fn)
+    );
+    if (address !== undefined && functions.length > 0) {
+      targets.push({
+        address: utils.getAddress(address),
+        allowed: true,
+        scoped: true,
+        valueAllowed: target.valueAllowed ?? false,
+        fallbackAllowed: target.fallbackAllowed ?? false,
+        functions,
+        conditions,
+      });
+    }
+  }
+  if (targets.length === 0) {
+    throw new Error(`Preset ${name} is not available on chain ${chainId}`);
+  }
+  return targets;
+};
+
+// Targets shared by several presets get the permissions of each.
+const combineTargets = (a: TargetConfig, b: TargetConfig): TargetConfig => ({
+  address: a.address,
+  allowed: a.allowed || b.allowed,
+  scoped: a.scoped || b.scoped,
+  valueAllowed: a.valueAllowed || b.valueAllowed,
+  fallbackAllowed: a.fallbackAllowed || b.fallbackAllowed,
+  functions: [...(a.functions ?? []), ...(b.functions ?? [])],
+  conditions: [...(a.conditions ?? []), ...(b.conditions ?? [])],
+});
+
+// Flags set on a target of the config override those of the presets, its
+// functions are allowed on top of theirs and its conditions replace theirs
+// on the same parameters.
+const overrideTarget = (
+  preset: TargetConfig,
+  override: TargetConfig
+): TargetConfig => ({
+  ...preset,
+  ...override,
+  address: preset.address,
+  functions: [...(preset.functions ?? []), ...(override.functions ?? [])],
+  conditions: [...(preset.conditions ?? []), ...(override.conditions ?? [])],
+});
+
+// Expands the presets of a config into targets and merges the targets of
+// the config into them. Throws listing every preset that cannot be applied.
+export const applyPresets = (
+  config: GuardConfig,
+  chainId?: number
+): GuardConfig => {
+  if (config.presets === undefined || config.presets.length === 0) {
+    return config;
+  }
+  if (chainId === undefined) {
+    throw new Error("Presets need the chain id of the network");
+  }
+
+  const targets = new Map<string, TargetConfig>();
+  const errors: string[] = [];
+  config.presets.forEach((name, index) => {
+    try {
+      for (const target of resolvePreset(name, chainId, config.avatar)) {
+        const known = targets.get(target.address);
+        targets.set(
+          target.address,
+          known ? combineTargets(known, target) : target
+        );
+      }
+    } catch (e) {
+      errors.push(`presets[${index}]: ${(e as Error).message}`);
+    }
+  });
+  if (errors.length > 0) {
+    throw new Error(`Invalid guard presets:\n  ${errors.join("\n  ")}`);
+  }
+
+  for (const target of config.targets) {
+    const address = utils.getAddress(target.address);
+    const preset = targets.get(address);
+    targets.set(address, preset ? overrideTarget(preset, target) : target);
+  }
+  return { ...config, targets: [...targets.values()] };
+};
@@ -0,0 +1,89 @@
+import "@nomiclabs/hardhat-ethers";
+import { Contract, utils } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export const SENTINEL_MODULES = "0x0000000000000000000000000000000000000001";
+
+// keccak256("guard_manager.guard.address"), where GuardManager stores the
+// guard of the Safe.
+export const GUARD_STORAGE_SLOT =
+  "0x4a204f620c8c5ccdca3fd54d003badd85ba500436a431f0cbda4f558c93c34c8";
+
+// Guards were introduced in Safe 1.3.0.
+export const MIN_GUARD_VERSION = "1.3.0";
+
+export const safeInterface = new utils.Interface([
+  "function VERSION() view returns (string)",
+  "function getModulesPaginated(address start, uint256 pageSize) view returns (address[] array, address next)",
+  "function setGuard(address guard)",
+  "function enableModule(address module)",
+  "function disableModule(address prevModule, address module)",
+  "function addOwnerWithThreshold(address owner, uint256 _threshold)",
+  "function removeOwner(address prevOwner, address owner, uint256 _threshold)",
+  "function swapOwner(address prevOwner, address oldOwner, address newOwner)",
+  "function changeThreshold(uint256 _threshold)",
+]);
+
+// Functions the Safe calls on itself to manage its guard, modules and
+// owners. Blocking them leaves no way to undo a bad guard configuration.
+export const SAFE_ADMIN_FUNCTIONS = [
+  "setGuard",
+  "enableModule",
+  "disableModule",
+  "addOwnerWithThreshold",
+  "removeOwner",
+  "swapOwner",
+  "changeThreshold",
+];
+
+export const getSafe = async (
+  address: string,
+  hardhatRuntime: HardhatRuntimeEnvironment
+): Promise<Contract> => {
+  const [caller] = await hardhatRuntime.ethers.getSigners();
+  return new Contract(address, safeInterface, caller);
+};
+
+export const getModules = async (safe: Contract): Promise<string[]> => {
+  const { array } = await safe.getModulesPaginated(SENTINEL_MODULES, 10);
+  return array;
+};
+
+const parseVersion = (version: string): number[] =>
+  version.split(".").map((part) => parseInt(part, 10) || 0);
+
+export const isVersionAtLeast = (version: string, minimum: string): boolean => {
+  const actual = parseVersion(version);
+  const required = parseVersion(minimum);
+  for (let i = 0; i < required.length; i++) {
+    if ((actual[i] ?? 0) !== required[i]) {
+      return (actual[i] ?? 0) > required[i];
+    }
+  }
+  return true;
+};
+
+// Throws unless the Safe supports guards.
+export const checkSafeVersion = async (safe: Contract): Promise<string> => {
+  let version: string;
+  try {
+    version = await safe.VERSION();
+  } catch (e) {
+    throw new Error(`Could not read the version of Safe ${safe.address}`);
+  }
+  if (!isVersionAtLeast(version, MIN_GUARD_VERSION)) {
+    throw new Error(
+      `Safe ${safe.address} is on version ${version}, guards require ${MIN_GUARD_VERSION} or later`
+    );
+  }
+  return version;
+};
+
+// Reads the guard of the Safe from its storage, as there is no getter.
+export const getSafeGuard = async (safe: Contract): Promise<string> => {
+  const value = await safe.provider.getStorageAt(
+    safe.address,
+    GUARD_STORAGE_SLOT
+  );
+  return utils.getAddress(utils.hexDataSlice(value, 12));
+};
@@ -0,0 +1,89 @@
+import { utils } from "ethers";
+
+export interface FunctionSignature {
+  selector: string;
+  // Canonical signature, e.g. `transfer(address,uint256)`. Unknown when
+  // only a selector was given.
+  signature?: string;
+}
+
+const SELECTOR_PATTERN = /^0x[0-9a-fA-F]{8}$/;
+
+// Canonical signatures of the selectors parsed so far, used to label
+// selectors in output and logs.
+const knownSignatures = new Map<string, string>();
+
+const parseFragment = (fn: string): utils.FunctionFragment => {
+  const source = fn.trim();
+  if (source.startsWith("{")) {
+    return utils.FunctionFragment.from(JSON.parse(source));
+  }
+  if (source.startsWith("function ")) {
+    const fragment = utils.Fragment.from(source);
+    if (!(fragment instanceof utils.FunctionFragment)) {
+      throw new Error(`Not a function: ${fn}`);
+    }
+    return fragment;
+  }
+  return utils.FunctionFragment.from(source);
+};
+
+// Normalizes a four byte selector, a human-readable signature such as
+// `transfer(address,uint256)` or `function transfer(address to, uint256
+// amount) returns (bool)`, or a JSON ABI fragment.
+export const parseFunction = (fn: string): FunctionSignature => {
+  if (SELECTOR_PATTERN.test(fn.trim())) {
+    const selector = fn.trim().toLowerCase();
+    return { selector, signature: knownSignatures.get(selector) };
+  }
+
+  let fragment: utils.FunctionFragment;
+  try {
+    fragment = parseFragment(fn);
+  } catch (e) {
+    throw new Error(`Invalid function signature or selector: ${fn}`);
+  }
+  const selector = utils.Interface.getSighash(fragment);
+  const signature = fragment.format();
+  knownSignatures.set(selector, signature);
+  return { selector, signature };
+};
+
+// Parses a function like parseFunction, keeping the parameter names of
+// signatures and ABI fragments. Selectors resolve to their known signature.
+export const parseFunctionFragment = (
+  fn: string
+): utils.FunctionFragment | undefined => {
+  const { signature } = parseFunction(fn);
+  if (SELECTOR_PATTERN.test(fn.trim())) {
+    return signature ? utils.FunctionFragment.from(signature) : undefined;
+  }
+  return parseFragment(fn);
+};
+
+// Returns the selector followed by its canonical signature, if known.
+export const formatSelector = (selector: string): string => {
+  const signature = knownSignatures.get(selector.toLowerCase());
+  return signature ? `${selector} ${signature}` : selector;
+};
+
+// Finds selectors shared by different signatures. Allowing one of them on
+// the guard also allows the others.
+export const findCollisions = (functions: string[]): string[] => {
+  const bySelector = new Map<string, Set<string>>();
+  for (const fn of functions) {
+    const { selector, signature } = parseFunction(fn);
+    if (signature) {
+      bySelector.set(
+        selector,
+        (bySelector.get(selector) ?? new Set()).add(signature)
+      );
+    }
+  }
+  return [...bySelector.entries()]
+    .filter(([, signatures]) => signatures.size > 1)
+    .map(
+      ([selector, signatures]) =>
+        `${selector} is the selector of ${[...signatures].join(" and ")}`
+    );
+};
@@ -0,0 +1,246 @@
+import { BigNumber, BigNumberish, Contract, constants, utils } from "ethers";
+
+import { GuardPermissions, TargetPermissions } from "./config";
+import { decodeMultiSend, multiSendInterface } from "./multisend";
+import { emptyTarget } from "./state";
+
+export enum Operation {
+  Call = 0,
+  DelegateCall = 1,
+}
+
+export interface SimulatedTransaction {
+  to: string;
+  value: BigNumberish;
+  data: string;
+  operation: Operation;
+  // Account executing the transaction on the avatar, checked against the
+  // restrictions of restricted senders.
+  sender?: string;
+}
+
+export interface Verdict {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Revert reasons of ScopeGuard.checkTransaction, in the order it checks them.
+export const REVERT_REASONS = {
+  refundToken: "Refunds not allowed in this gas token",
+  refundGasPrice: "Gas price exceeds the maximum for this gas token",
+  refundBaseGas: "Base gas exceeds the maximum for this gas token",
+  refundReceiver: "Refund receiver is not allowed",
+  multiSendFunction: "Unsupported MultiSend function",
+  multiSendTransactions: "Invalid MultiSend transactions",
+  paused: "Guard is paused",
+  delegateCall: "Delegate call not allowed to this address",
+  target: "Target address is not allowed",
+  value: "Cannot send ETH to this target",
+  maxValue: "Value exceeds the maximum for this target",
+  maxValueOnFunction: "Value exceeds the maximum for this function",
+  function: "Target function is not allowed",
+  deniedFunction: "Target function is denied",
+  parameter: "Parameter value is not allowed",
+  signature: "Function signature too short",
+  fallback: "Fallback not allowed for this address",
+  valueAllowance: "Value allowance exceeded",
+  tokenAllowance: "Token allowance exceeded",
+  pendingSpend: "Allowance spend already pending",
+  senderTarget: "Target address is not allowed for this sender",
+  senderFunction: "Target function is not allowed for this sender",
+  sender: "Sender is not allowed",
+};
+
+const findTarget = (
+  permissions: GuardPermissions,
+  address: string
+): TargetPermissions =>
+  permissions.targets.find(
+    (target) => target.address === utils.getAddress(address)
+  ) ?? emptyTarget(utils.getAddress(address));
+
+// Whether the guard is paused and which of the targets of a transaction
+// are recovery targets, which are let through while it is paused.
+export interface PauseState {
+  paused: boolean;
+  recoveryTargets: string[];
+}
+
+// Checks that evaluateTransaction leaves to the guard.
+export const UNCHECKED_LOCALLY =
+  "value caps, parameter conditions, allowances and sender restrictions";
+
+// Whether the guard unpacks the transaction as a batch of its MultiSend.
+const isMultiSend = (
+  permissions: GuardPermissions,
+  transaction: SimulatedTransaction
+): boolean =>
+  transaction.operation === Operation.DelegateCall &&
+  permissions.multiSend !== undefined &&
+  permissions.multiSend !== constants.AddressZero &&
+  utils.getAddress(transaction.to) === permissions.multiSend;
+
+// Lists the targets the guard checks for a transaction: its own, or those
+// of the transactions it batches through the MultiSend.
+export const listTargets = (
+  permissions: GuardPermissions,
+  transaction: SimulatedTransaction
+): string[] =>
+  isMultiSend(permissions, transaction)
+    ? (decodeMultiSend(transaction.data) ?? []).flatMap((inner) =>
+        listTargets(permissions, inner)
+      )
+    : [utils.getAddress(transaction.to)];
+
+export const readPauseState = async (
+  guard: Contract,
+  targets: string[]
+): Promise<PauseState> => {
+  const recoveryTargets: string[] = [];
+  for (const target of targets) {
+    if (await guard.recoveryTargets(target)) {
+      recoveryTargets.push(utils.getAddress(target));
+    }
+  }
+  return { paused: await guard.paused(), recoveryTargets };
+};
+
+const denied = (reason: string): Verdict => ({ allowed: false, reason });
+
+// Evaluates each transaction batched by a delegate call to the MultiSend,
+// as ScopeGuard.checkMultiSend does.
+const evaluateMultiSend = (
+  permissions: GuardPermissions,
+  transaction: SimulatedTransaction,
+  pause?: PauseState
+): Verdict => {
+  if (
+    utils.hexDataLength(transaction.data) < 4 ||
+    utils.hexDataSlice(transaction.data, 0, 4) !==
+      multiSendInterface.getSighash("multiSend")
+  ) {
+    return denied(REVERT_REASONS.multiSendFunction);
+  }
+  const transactions = decodeMultiSend(transaction.data);
+  if (transactions === undefined) {
+    return denied(REVERT_REASONS.multiSendTransactions);
+  }
+  for (const inner of transactions) {
+    const verdict = evaluateTransaction(
+      permissions,
+      { ...inner, sender: transaction.sender },
+      pause
+    );
+    if (!verdict.allowed) {
+      return verdict;
+    }
+  }
+  return { allowed: true };
+};
+
+// Evaluates a transaction against a snapshot of the guard permissions,
+// following the same checks as ScopeGuard.checkTransaction, including the
+// unpacking of MultiSend batches. The pause is only checked if its state is
+// given. Value caps, parameter conditions, allowances and sender
+// restrictions are not part of the snapshot and are not checked.
+export const evaluateTransaction = (
+  permissions: GuardPermissions,
+  transaction: SimulatedTransaction,
+  pause?: PauseState
+): Verdict => {
+  if (isMultiSend(permissions, transaction)) {
+    return evaluateMultiSend(permissions, transaction, pause);
+  }
+  const target = findTarget(permissions, transaction.to);
+  const data = utils.arrayify(transaction.data);
+
+  if (
+    pause?.paused &&
+    !pause.recoveryTargets.includes(utils.getAddress(transaction.to))
+  ) {
+    return denied(REVERT_REASONS.paused);
+  }
+
+  if (
+    transaction.operation === Operation.DelegateCall &&
+    !target.delegateCallAllowed
+  ) {
+    return denied(REVERT_REASONS.delegateCall);
+  }
+  if (!target.allowed) {
+    return denied(REVERT_REASONS.target);
+  }
+  if (BigNumber.from(transaction.value).gt(0) && !target.valueAllowed) {
+    return denied(REVERT_REASONS.value);
+  }
+  if (data.length >= 4) {
+    const selector = utils.hexlify(data.slice(0, 4));
+    if (target.scoped && !target.functions.includes(selector)) {
+      return denied(REVERT_REASONS.function);
+    }
+    if (target.denyList && target.deniedFunctions.includes(selector)) {
+      return denied(REVERT_REASONS.deniedFunction);
+    }
+  } else {
+    if (data.length !== 0) {
+      return denied(REVERT_REASONS.signature);
+    }
+    if ((target.scoped || target.denyList) && !target.fallbackAllowed) {
+      return denied(REVERT_REASONS.fallback);
+    }
+  }
+  return { allowed: true };
+};
+
+const REASON_PATTERN = /reverted with reason string '(.*)'/;
+
+// Digs the revert reason out of the error of a failed eth_call or
+// transaction, which is nested differently depending on the provider. Errors
+// of gas estimation carry a generic reason, the revert reason is nested.
+export const getRevertReason = (error: unknown): string => {
+  for (let current = error as any; current; current = current.error) {
+    if (
+      typeof current.reason === "string" &&
+      current.code !== utils.Logger.errors.UNPREDICTABLE_GAS_LIMIT
+    ) {
+      return current.reason;
+    }
+    const match = REASON_PATTERN.exec(current.message ?? "");
+    if (match) {
+      return match[1];
+    }
+  }
+  return (error as Error).message;
+};
+
+// Calls checkTransaction on the guard itself with eth_call. The gas and
+// refund parameters are left empty, so refund rules are not checked. The
+// guard tracks allowances per avatar, so the call is made from the avatar
+// when given.
+export const callCheckTransaction = async (
+  guard: Contract,
+  transaction: SimulatedTransaction,
+  avatar?: string
+): Promise<Verdict> => {
+  // Contracts connected to a signer refuse to call from another account.
+  const caller = avatar === undefined ? guard : guard.connect(guard.provider);
+  try {
+    await caller.callStatic.checkTransaction(
+      transaction.to,
+      transaction.value,
+      transaction.data,
+      transaction.operation,
+      0,
+      0,
+      0,
+      constants.AddressZero,
+      constants.AddressZero,
+      "0x",
+      transaction.sender ?? constants.AddressZero,
+      avatar === undefined ? {} : { from: avatar }
+    );
+    return { allowed: true };
+  } catch (error) {
+    return denied(getRevertReason(error));
+  }
+};
@@ -0,0 +1,315 @@
+import { Contract, constants, utils } from "ethers";
+
+import { FLAG_GETTERS } from "./apply";
+import {
+  FunctionCondition,
+  GuardPermissions,
+  TARGET_FLAGS,
+  TargetFlag,
+  TargetPermissions,
+  sortConditions,
+} from "./config";
+
+const FLAG_EVENTS: Record<string, TargetFlag> = {
+  SetTargetAllowed: "allowed",
+  SetTargetScoped: "scoped",
+  SetDelegateCallAllowedOnTarget: "delegateCallAllowed",
+  SetValueAllowedOnTarget: "valueAllowed",
+  SetFallbackAllowedOnTarget: "fallbackAllowed",
+  SetTargetDenyList: "denyList",
+};
+
+// Events of the setters of the function lists of a target.
+const FUNCTION_EVENTS: Record<string, "functions" | "deniedFunctions"> = {
+  SetFunctionAllowedOnTarget: "functions",
+  SetFunctionDeniedOnTarget: "deniedFunctions",
+};
+
+export const emptyTarget = (address: string): TargetPermissions => ({
+  address,
+  allowed: false,
+  scoped: false,
+  delegateCallAllowed: false,
+  valueAllowed: false,
+  fallbackAllowed: false,
+  denyList: false,
+  functions: [],
+  deniedFunctions: [],
+  conditions: [],
+});
+
+export const isEmptyTarget = (target: TargetPermissions): boolean =>
+  !target.allowed &&
+  !target.scoped &&
+  !target.delegateCallAllowed &&
+  !target.valueAllowed &&
+  !target.fallbackAllowed &&
+  !target.denyList &&
+  target.functions.length === 0 &&
+  target.deniedFunctions.length === 0 &&
+  target.conditions.length === 0;
+
+// Folds the setter events of a guard into the permissions they result in.
+// Targets that end up without any permission are left out.
+export const foldEvents = (
+  events: utils.LogDescription[]
+): GuardPermissions => {
+  const targets = new Map<string, TargetPermissions>();
+  let multiSend = constants.AddressZero;
+  const getTarget = (address: string) => {
+    const key = utils.getAddress(address);
+    if (!targets.has(key)) {
+      targets.set(key, emptyTarget(key));
+    }
+    return targets.get(key) as TargetPermissions;
+  };
+
+  for (const event of events) {
+    if (event.name in FLAG_EVENTS) {
+      // The value of the flag is the last argument of its event.
+      getTarget(event.args.target)[FLAG_EVENTS[event.name]] =
+        event.args[event.args.length - 1];
+    } else if (event.name in FUNCTION_EVENTS) {
+      const target = getTarget(event.args.target);
+      const list = FUNCTION_EVENTS[event.name];
+      const selector = event.args.functionSig.toLowerCase();
+      target[list] = target[list].filter((fn) => fn !== selector);
+      if (event.args[event.args.length - 1]) {
+        target[list].push(selector);
+      }
+    } else if (event.name === "SetMultiSend") {
+      multiSend = utils.getAddress(event.args.multiSend);
+    } else if (
+      event.name === "SetParameterCondition" ||
+      event.name === "RemoveParameterCondition"
+    ) {
+      const target = getTarget(event.args.target);
+      const selector = event.args.functionSig.toLowerCase();
+      const index = event.args.index.toNumber();
+      target.conditions = target.conditions.filter(
+        (condition) =>
+          condition.function !== selector || condition.index !== index
+      );
+      if (event.name === "SetParameterCondition") {
+        target.conditions.push({
+          function: selector,
+          index,
+          paramType: event.args.paramType,
+          comparison: event.args.comparison,
+          compValues: event.args.compValues.map((value: string) =>
+            value.toLowerCase()
+          ),
+        });
+      }
+    }
+  }
+
+  return {
+    ...(multiSend !== constants.AddressZero && { multiSend }),
+    targets: [...targets.values()]
+      .filter((target) => !isEmptyTarget(target))
+      .map((target) => ({
+        ...target,
+        functions: target.functions.sort(),
+        deniedFunctions: target.deniedFunctions.sort(),
+        conditions: sortConditions(target.conditions),
+      }))
+      .sort((a, b) => (a.address < b.address ? -1 : 1)),
+  };
+};
+
+// Returns the block in which the guard was set up, either by its
+// constructor or by the proxy factory.
+export const getSetupBlock = async (guard: Contract): Promise<number> => {
+  const [log] = await guard.provider.getLogs({
+    ...guard.filters.ScopeGuardSetup(),
+    fromBlock: 0,
+    toBlock: "latest",
+  });
+  if (log === undefined) {
+    throw new Error(`No ScopeGuardSetup event found for ${guard.address}`);
+  }
+  return log.blockNumber;
+};
+
+// Reconstructs the permissions of a guard from the events it emitted
+// since `fromBlock`, which defaults to the block the guard was set up in.
+export const readPermissions = async (
+  guard: Contract,
+  fromBlock?: number
+): Promise<GuardPermissions> => {
+  if (fromBlock === undefined) {
+    fromBlock = await getSetupBlock(guard);
+  }
+  const logs = await guard.provider.getLogs({
+    address: guard.address,
+    fromBlock,
+    toBlock: "latest",
+  });
+  const events: utils.LogDescription[] = [];
+  for (const log of logs) {
+    try {
+      events.push(guard.interface.parseLog(log));
+    } catch {
+      // Not a ScopeGuard event.
+    }
+  }
+  return foldEvents(events);
+};
+
+const PAGE_SIZE = 100;
+
+// Reads every page of a list kept by the guard.
+const readPages = async <T>(
+  readPage: (start: number, count: number) => Promise<T[]>,
+  total: number
+): Promise<T[]> => {
+  const items: T[] = [];
+  while (items.length < total) {
+    const page = await readPage(items.length, PAGE_SIZE);
+    if (page.length === 0) {
+      break;
+    }
+    items.push(...page);
+  }
+  return items;
+};
+
+// Lists the allowed targets of a guard, from its registry.
+export const listAllowedTargets = async (guard: Contract): Promise<string[]> =>
+  readPages(
+    (start, count) => guard.getAllowedTargets(start, count),
+    (await guard.getAllowedTargetCount()).toNumber()
+  );
+
+// Lists the allowed function selectors of a target, from the registry of
+// the guard.
+export const listAllowedFunctions = async (
+  guard: Contract,
+  target: string
+): Promise<string[]> => {
+  const selectors: string[] = await readPages(
+    (start, count) => guard.getAllowedFunctions(target, start, count),
+    (await guard.getAllowedFunctionCount(target)).toNumber()
+  );
+  return selectors.map((selector) => selector.toLowerCase()).sort();
+};
+
+// Lists the denied function selectors of a target. The guard keeps no
+// registry of them, so they are read from its events and checked against
+// its state.
+export const listDeniedFunctions = async (
+  guard: Contract,
+  target: string,
+  fromBlock?: number
+): Promise<string[]> => {
+  const { targets } = await readPermissions(guard, fromBlock);
+  const address = utils.getAddress(target);
+  const selectors =
+    targets.find((candidate) => candidate.address === address)
+      ?.deniedFunctions ?? [];
+  const denied: string[] = [];
+  for (const selector of selectors) {
+    if (await guard.isDeniedFunction(address, selector)) {
+      denied.push(selector);
+    }
+  }
+  return denied;
+};
+
+// Lists the parameter conditions of a target, read from the events of the
+// guard like its denied functions.
+export const listConditions = async (
+  guard: Contract,
+  target: string,
+  fromBlock?: number
+): Promise<FunctionCondition[]> => {
+  const { targets } = await readPermissions(guard, fromBlock);
+  const address = utils.getAddress(target);
+  const conditions =
+    targets.find((candidate) => candidate.address === address)?.conditions ??
+    [];
+  const scoped: FunctionCondition[] = [];
+  for (const condition of conditions) {
+    if (
+      await guard.isParameterScoped(
+        address,
+        condition.function,
+        condition.index
+      )
+    ) {
+      scoped.push(condition);
+    }
+  }
+  return scoped;
+};
+
+// Checks permissions read from events against the view functions and the
+// registry of the guard and returns a description of every mismatch found.
+export const verifyPermissions = async (
+  guard: Contract,
+  permissions: GuardPermissions
+): Promise<string[]> => {
+  const mismatches: string[] = [];
+  for (const target of permissions.targets) {
+    for (const flag of TARGET_FLAGS) {
+      const onChain: boolean = await guard[FLAG_GETTERS[flag]](target.address);
+      if (onChain !== target[flag]) {
+        mismatches.push(
+          `${target.address} ${flag} is ${onChain} on-chain but ${target[flag]} in events`
+        );
+      }
+    }
+    for (const selector of target.functions) {
+      if (!(await guard.isAllowedFunction(target.address, selector))) {
+        mismatches.push(
+          `${target.address} function ${selector} is not allowed on-chain`
+        );
+      }
+    }
+    for (const selector of target.deniedFunctions) {
+      if (!(await guard.isDeniedFunction(target.address, selector))) {
+        mismatches.push(
+          `${target.address} function ${selector} is not denied on-chain`
+        );
+      }
+    }
+    for (const condition of target.conditions) {
+      if (
+        !(await guard.isParameterScoped(
+          target.address,
+          condition.function,
+          condition.index
+        ))
+      ) {
+        mismatches.push(
+          `${target.address} function ${condition.function} has no condition on word ${condition.index} on-chain`
+        );
+      }
+    }
+    for (const selector of await listAllowedFunctions(guard, target.address)) {
+      if (!target.functions.includes(selector)) {
+        mismatches.push(
+          `${target.address} function ${selector} is allowed on-chain but not in events`
+        );
+      }
+    }
+  }
+  const known = permissions.targets
+    .filter((target) => target.allowed)
+    .map((target) => target.address);
+  for (const address of await listAllowedTargets(guard)) {
+    if (!known.includes(utils.getAddress(address))) {
+      mismatches.push(`${address} is allowed on-chain but not in events`);
+    }
+  }
+  const multiSend = utils.getAddress(await guard.multiSend());
+  if (multiSend !== (permissions.multiSend ?? constants.AddressZero)) {
+    mismatches.push(
+      `MultiSend is ${multiSend} on-chain but ${
+        permissions.multiSend ?? constants.AddressZero
+      } in events`
+    );
+  }
+  return mismatches;
+};
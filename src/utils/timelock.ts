@@ -0,0 +1,109 @@
+import { Contract, utils } from "ethers";
+
+import { SetterCall, formatCall } from "./apply";
+import { getSetupBlock } from "./state";
+
+export interface PendingChange {
+  id: string;
+  nonce: number;
+  // Calldata of the setter call, as queued.
+  data: string;
+  // Timestamp from which the change can be executed.
+  eta: number;
+  call: SetterCall;
+}
+
+// Decodes the setter call of a queued change.
+export const decodeChange = (guard: Contract, data: string): SetterCall => {
+  const { name, args } = guard.interface.parseTransaction({ data });
+  return { method: name, args: [...args] };
+};
+
+const toPendingChange = (
+  guard: Contract,
+  event: utils.LogDescription
+): PendingChange => ({
+  id: event.args.id,
+  nonce: event.args.nonce.toNumber(),
+  data: event.args.data,
+  eta: event.args.eta.toNumber(),
+  call: decodeChange(guard, event.args.data),
+});
+
+// Wraps setter calls in calls queueing them on the guard.
+export const queueCalls = (
+  guard: Contract,
+  calls: SetterCall[]
+): SetterCall[] =>
+  calls.map(({ method, args }) => ({
+    method: "queueChange",
+    args: [guard.interface.encodeFunctionData(method, args)],
+  }));
+
+// Queues each call from the guard's signer and returns the queued changes.
+export const sendQueuedCalls = async (
+  guard: Contract,
+  calls: SetterCall[]
+): Promise<PendingChange[]> => {
+  const changes: PendingChange[] = [];
+  for (const call of queueCalls(guard, calls)) {
+    const tx = await guard.queueChange(...call.args);
+    const receipt = await tx.wait();
+    const change = toPendingChange(
+      guard,
+      guard.interface.parseLog(
+        receipt.logs.find(
+          (log: { address: string }) => log.address === guard.address
+        )
+      )
+    );
+    console.log(
+      "Queued",
+      formatCall(change.call),
+      "as",
+      change.id,
+      "executable from",
+      new Date(change.eta * 1000).toISOString()
+    );
+    changes.push(change);
+  }
+  return changes;
+};
+
+// Lists the changes queued on a guard since `fromBlock`, which defaults to
+// the block the guard was set up in, that are neither executed nor
+// cancelled.
+export const readPendingChanges = async (
+  guard: Contract,
+  fromBlock?: number
+): Promise<PendingChange[]> => {
+  if (fromBlock === undefined) {
+    fromBlock = await getSetupBlock(guard);
+  }
+  const events = await guard.queryFilter(
+    guard.filters.ChangeQueued(),
+    fromBlock
+  );
+  const changes: PendingChange[] = [];
+  for (const event of events) {
+    const change = toPendingChange(guard, guard.interface.parseLog(event));
+    if (!(await guard.changeEta(change.id)).isZero()) {
+      changes.push(change);
+    }
+  }
+  return changes;
+};
+
+export const findPendingChange = async (
+  guard: Contract,
+  id: string,
+  fromBlock?: number
+): Promise<PendingChange> => {
+  const change = (await readPendingChanges(guard, fromBlock)).find(
+    (pending) => pending.id === id
+  );
+  if (change === undefined) {
+    throw new Error(`No pending change ${id} on ${guard.address}`);
+  }
+  return change;
+};
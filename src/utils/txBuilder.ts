@@ -0,0 +1,139 @@
+import { BigNumber, Contract, utils } from "ethers";
+
+import { SetterCall } from "./apply";
+
+export interface BatchInput {
+  internalType: string;
+  name: string;
+  type: string;
+}
+
+export interface BatchTransaction {
+  to: string;
+  value: string;
+  data: string | null;
+  contractMethod: {
+    inputs: BatchInput[];
+    name: string;
+    payable: boolean;
+  };
+  contractInputsValues: Record<string, string>;
+}
+
+export interface BatchFile {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: BatchTransaction[];
+}
+
+export interface BatchOptions {
+  chainId: number;
+  safe?: string;
+  name?: string;
+  description?: string;
+}
+
+const TX_BUILDER_VERSION = "1.13.3";
+
+// Same serialization as the Transaction Builder uses to checksum its files.
+const serialize = (json: any): string => {
+  if (Array.isArray(json)) {
+    return `[${json.map(serialize).join(",")}]`;
+  }
+  if (typeof json === "object" && json !== null) {
+    const keys = Object.keys(json).sort();
+    return `{${JSON.stringify(keys)}${keys
+      .map((key) => `${serialize(json[key])},`)
+      .join("")}}`;
+  }
+  return JSON.stringify(json);
+};
+
+export const calculateChecksum = (batch: BatchFile): string =>
+  utils.keccak256(
+    utils.toUtf8Bytes(
+      serialize({ ...batch, meta: { ...batch.meta, name: null } })
+    )
+  );
+
+// Arrays, including arrays of tuples, are given as JSON of their elements.
+// Booleans and numbers stay native JSON values, since the string "false"
+// would be encoded as true.
+const formatElement = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(formatElement);
+  }
+  if (typeof value === "boolean" || typeof value === "number") {
+    return value;
+  }
+  return formatValue(value);
+};
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map(formatElement));
+  }
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  return String(value);
+};
+
+const toBatchTransaction = (
+  guard: Contract,
+  { method, args }: SetterCall
+): BatchTransaction => {
+  const fragment = guard.interface.getFunction(method);
+  const contractInputsValues: Record<string, string> = {};
+  fragment.inputs.forEach((input, index) => {
+    contractInputsValues[input.name] = formatValue(args[index]);
+  });
+  return {
+    to: guard.address,
+    value: "0",
+    data: null,
+    contractMethod: {
+      inputs: fragment.inputs.map((input) => ({
+        internalType: input.type,
+        name: input.name,
+        type: input.type,
+      })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues,
+  };
+};
+
+// Builds a batch file that can be imported into the Safe Transaction
+// Builder app, so that a Safe owning the guard can approve the calls.
+export const buildBatch = (
+  guard: Contract,
+  calls: SetterCall[],
+  options: BatchOptions
+): BatchFile => {
+  const batch: BatchFile = {
+    version: "1.0",
+    chainId: options.chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: options.name ?? "ScopeGuard configuration",
+      description: options.description ?? "",
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: options.safe ?? "",
+      createdFromOwnerAddress: "",
+    },
+    transactions: calls.map((call) => toBatchTransaction(guard, call)),
+  };
+  batch.meta.checksum = calculateChecksum(batch);
+  return batch;
+};
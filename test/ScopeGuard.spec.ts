@@ -1,10 +1,15 @@
+import { AddressZero } from "@ethersproject/constants";
+import {
+  MetaTransaction,
+  encodeMultiSend,
+  executeContractCallWithSigners,
+} from "@gnosis.pm/safe-contracts";
 import { expect } from "chai";
 import hre, { deployments, waffle, ethers } from "hardhat";
 import "@nomiclabs/hardhat-ethers";
-import { AddressZero } from "@ethersproject/constants";
 
 describe("ScopeGuard", async () => {
-  const [user1, user2] = waffle.provider.getWallets();
+  const [user1, user2, user3] = waffle.provider.getWallets();
   const abiCoder = new ethers.utils.AbiCoder();
   const initializeParams = abiCoder.encode(["address"], [user1.address]);
 
@@ -620,4 +625,1902 @@ describe("ScopeGuard", async () => {
       );
     });
   });
+
+  describe("setDenyList()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setDenyList(guard.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set the deny list of a target and emit SetTargetDenyList", async () => {
+      const { guard } = await setupTests();
+      expect(await guard.isDenyList(guard.address)).to.be.equals(false);
+      await expect(guard.setDenyList(guard.address, true))
+        .to.emit(guard, "SetTargetDenyList")
+        .withArgs(guard.address, true);
+      expect(await guard.isDenyList(guard.address)).to.be.equals(true);
+      await guard.setDenyList(guard.address, false);
+      expect(await guard.isDenyList(guard.address)).to.be.equals(false);
+    });
+  });
+
+  describe("setDeniedFunction()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .setDeniedFunction(guard.address, "0x12345678", true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should deny a function and emit SetFunctionDeniedOnTarget", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.setDeniedFunction(guard.address, "0x12345678", true))
+        .to.emit(guard, "SetFunctionDeniedOnTarget")
+        .withArgs(guard.address, "0x12345678", true);
+      expect(
+        await guard.isDeniedFunction(guard.address, "0x12345678")
+      ).to.be.equals(true);
+      await guard.setDeniedFunction(guard.address, "0x12345678", false);
+      expect(
+        await guard.isDeniedFunction(guard.address, "0x12345678")
+      ).to.be.equals(false);
+    });
+  });
+
+  describe("checkTransaction() with function modes", async () => {
+    const allowedSig = "0x12345678";
+    const deniedSig = "0x87654321";
+    const otherSig = "0xaabbccdd";
+
+    const setupModes = async () => {
+      const { guard, tx } = await setupTests();
+      await guard.setTargetAllowed(tx.to, true);
+      await guard.setAllowedFunction(tx.to, allowedSig, true);
+      await guard.setDeniedFunction(tx.to, deniedSig, true);
+      const check = (data: string) =>
+        guard.checkTransaction(
+          tx.to,
+          tx.value,
+          data,
+          tx.operation,
+          tx.avatarTxGas,
+          tx.baseGas,
+          tx.gasPrice,
+          tx.gasToken,
+          tx.refundReceiver,
+          tx.signatures,
+          user1.address
+        );
+      return { guard, tx, check };
+    };
+
+    it("should allow every function and the fallback on unscoped targets", async () => {
+      const { check } = await setupModes();
+      await check(allowedSig);
+      await check(deniedSig);
+      await check(otherSig);
+      await check("0x");
+    });
+
+    it("should only allow allowed functions on scoped targets", async () => {
+      const { guard, tx, check } = await setupModes();
+      await guard.setScoped(tx.to, true);
+      await check(allowedSig);
+      await expect(check(otherSig)).to.be.revertedWith(
+        "Target function is not allowed"
+      );
+      await expect(check("0x")).to.be.revertedWith(
+        "Fallback not allowed for this address"
+      );
+      await guard.setFallbackAllowedOnTarget(tx.to, true);
+      await check("0x");
+    });
+
+    it("should allow every function but the denied ones on deny list targets", async () => {
+      const { guard, tx, check } = await setupModes();
+      await guard.setDenyList(tx.to, true);
+      await check(allowedSig);
+      await check(otherSig);
+      await expect(check(deniedSig)).to.be.revertedWith(
+        "Target function is denied"
+      );
+      await expect(check("0x")).to.be.revertedWith(
+        "Fallback not allowed for this address"
+      );
+      await guard.setFallbackAllowedOnTarget(tx.to, true);
+      await check("0x");
+    });
+
+    it("should require functions to be allowed and not denied on scoped deny list targets", async () => {
+      const { guard, tx, check } = await setupModes();
+      await guard.setScoped(tx.to, true);
+      await guard.setDenyList(tx.to, true);
+      await guard.setAllowedFunction(tx.to, deniedSig, true);
+      await check(allowedSig);
+      await expect(check(otherSig)).to.be.revertedWith(
+        "Target function is not allowed"
+      );
+      await expect(check(deniedSig)).to.be.revertedWith(
+        "Target function is denied"
+      );
+    });
+
+    it("should ignore denied functions once the deny list is disabled", async () => {
+      const { guard, tx, check } = await setupModes();
+      await guard.setDenyList(tx.to, true);
+      await guard.setDenyList(tx.to, false);
+      await check(deniedSig);
+    });
+  });
+
+  describe("setParameterCondition()", async () => {
+    const transfer = "0xa9059cbb";
+    const value = ethers.utils.hexZeroPad("0x01", 32);
+
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .setParameterCondition(guard.address, transfer, 0, 0, 0, [value])
+      ).to.be.revertedWith("caller is not the owner");
+    });
+
+    it("should revert if index is out of range", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.setParameterCondition(guard.address, transfer, 256, 0, 0, [value])
+      ).to.be.revertedWith("Parameter index out of range");
+    });
+
+    it("should revert on ordering comparisons of dynamic parameters", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.setParameterCondition(guard.address, transfer, 0, 1, 2, [value])
+      ).to.be.revertedWith("Comparison not supported for dynamic parameters");
+    });
+
+    it("should revert if the number of values does not match", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.setParameterCondition(guard.address, transfer, 0, 0, 0, [
+          value,
+          value,
+        ])
+      ).to.be.revertedWith("Comparison takes exactly one value");
+      await expect(
+        guard.setParameterCondition(guard.address, transfer, 0, 0, 3, [])
+      ).to.be.revertedWith("OneOf takes at least one value");
+    });
+
+    it("should set a condition on a parameter", async () => {
+      const { guard } = await setupTests();
+      expect(
+        await guard.isParameterScoped(guard.address, transfer, 1)
+      ).to.be.equals(false);
+      await expect(
+        guard.setParameterCondition(guard.address, transfer, 1, 0, 3, [
+          value,
+          value,
+        ])
+      )
+        .to.emit(guard, "SetParameterCondition")
+        .withArgs(guard.address, transfer, 1, 0, 3, [value, value]);
+      expect(
+        await guard.isParameterScoped(guard.address, transfer, 1)
+      ).to.be.equals(true);
+      const condition = await guard.getParameterCondition(
+        guard.address,
+        transfer,
+        1
+      );
+      expect(condition.paramType).to.be.equals(0);
+      expect(condition.comparison).to.be.equals(3);
+      expect(condition.compValues).to.deep.equal([value, value]);
+    });
+  });
+
+  describe("removeParameterCondition()", async () => {
+    const transfer = "0xa9059cbb";
+    const value = ethers.utils.hexZeroPad("0x01", 32);
+
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .removeParameterCondition(guard.address, transfer, 0)
+      ).to.be.revertedWith("caller is not the owner");
+    });
+
+    it("should remove the condition on a parameter", async () => {
+      const { guard } = await setupTests();
+      await guard.setParameterCondition(guard.address, transfer, 1, 0, 0, [
+        value,
+      ]);
+      await expect(guard.removeParameterCondition(guard.address, transfer, 1))
+        .to.emit(guard, "RemoveParameterCondition")
+        .withArgs(guard.address, transfer, 1);
+      expect(
+        await guard.isParameterScoped(guard.address, transfer, 1)
+      ).to.be.equals(false);
+      const condition = await guard.getParameterCondition(
+        guard.address,
+        transfer,
+        1
+      );
+      expect(condition.compValues).to.deep.equal([]);
+    });
+  });
+
+  describe("checkTransaction() with parameter conditions", async () => {
+    const token = new ethers.utils.Interface([
+      "function transfer(address to, uint256 amount)",
+      "function execute(address to, bytes data, string memo)",
+    ]);
+    const transfer = token.getSighash("transfer");
+    const execute = token.getSighash("execute");
+    const word = (value: number | string) =>
+      ethers.utils.hexZeroPad(ethers.utils.hexlify(value), 32);
+    const hash = (value: string) =>
+      ethers.utils.keccak256(ethers.utils.toUtf8Bytes(value));
+
+    const setupConditions = async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(avatar.address, true);
+      await guard.setScoped(avatar.address, true);
+      await guard.setAllowedFunction(avatar.address, transfer, true);
+      await guard.setAllowedFunction(avatar.address, execute, true);
+      const check = (data: string) =>
+        guard.checkTransaction(
+          avatar.address,
+          0,
+          data,
+          0,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x",
+          user1.address
+        );
+      return { avatar, guard, check };
+    };
+
+    it("should check static parameters equal to a value", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, transfer, 0, 0, 0, [
+        word(user2.address),
+      ]);
+      await check(token.encodeFunctionData("transfer", [user2.address, 1000]));
+      await expect(
+        check(token.encodeFunctionData("transfer", [user1.address, 1000]))
+      ).to.be.revertedWith("Parameter value is not allowed");
+    });
+
+    it("should check uint parameters greater than a value", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, transfer, 1, 0, 1, [
+        word(100),
+      ]);
+      await check(token.encodeFunctionData("transfer", [user2.address, 101]));
+      await expect(
+        check(token.encodeFunctionData("transfer", [user2.address, 100]))
+      ).to.be.revertedWith("Parameter value is not allowed");
+    });
+
+    it("should check uint parameters less than a value", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, transfer, 1, 0, 2, [
+        word(100),
+      ]);
+      await check(token.encodeFunctionData("transfer", [user2.address, 99]));
+      await expect(
+        check(token.encodeFunctionData("transfer", [user2.address, 100]))
+      ).to.be.revertedWith("Parameter value is not allowed");
+    });
+
+    it("should check static parameters against one of several values", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, transfer, 0, 0, 3, [
+        word(user1.address),
+        word(user2.address),
+      ]);
+      await check(token.encodeFunctionData("transfer", [user1.address, 1]));
+      await check(token.encodeFunctionData("transfer", [user2.address, 1]));
+      await expect(
+        check(token.encodeFunctionData("transfer", [avatar.address, 1]))
+      ).to.be.revertedWith("Parameter value is not allowed");
+    });
+
+    it("should check all scoped parameters", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, transfer, 0, 0, 0, [
+        word(user2.address),
+      ]);
+      await guard.setParameterCondition(avatar.address, transfer, 1, 0, 2, [
+        word(100),
+      ]);
+      await check(token.encodeFunctionData("transfer", [user2.address, 99]));
+      await expect(
+        check(token.encodeFunctionData("transfer", [user2.address, 100]))
+      ).to.be.revertedWith("Parameter value is not allowed");
+      await expect(
+        check(token.encodeFunctionData("transfer", [user1.address, 99]))
+      ).to.be.revertedWith("Parameter value is not allowed");
+    });
+
+    it("should check dynamic parameters equal to a value", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, execute, 1, 1, 0, [
+        ethers.utils.keccak256("0x12345678"),
+      ]);
+      await check(
+        token.encodeFunctionData("execute", [user2.address, "0x12345678", ""])
+      );
+      await expect(
+        check(
+          token.encodeFunctionData("execute", [user2.address, "0x1234", ""])
+        )
+      ).to.be.revertedWith("Parameter value is not allowed");
+    });
+
+    it("should check dynamic parameters against one of several values", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, execute, 2, 1, 3, [
+        hash("payroll"),
+        hash("grants"),
+      ]);
+      await check(
+        token.encodeFunctionData("execute", [user2.address, "0x", "grants"])
+      );
+      await expect(
+        check(
+          token.encodeFunctionData("execute", [user2.address, "0x", "other"])
+        )
+      ).to.be.revertedWith("Parameter value is not allowed");
+    });
+
+    it("should revert if calldata is too short for a scoped parameter", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, transfer, 1, 0, 0, [
+        word(1),
+      ]);
+      await expect(
+        check(`${transfer}${word(user2.address).slice(2)}`)
+      ).to.be.revertedWith("Calldata too short for scoped parameter");
+    });
+
+    it("should revert if a dynamic parameter points outside the calldata", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, execute, 1, 1, 0, [
+        hash(""),
+      ]);
+      const data = token.encodeFunctionData("execute", [
+        user2.address,
+        "0x",
+        "",
+      ]);
+      // Point the bytes parameter past the end of the calldata.
+      const invalid = `${data.slice(0, 74)}${word(0x1000).slice(2)}${data.slice(
+        138
+      )}`;
+      await expect(check(invalid)).to.be.revertedWith(
+        "Calldata too short for scoped parameter"
+      );
+    });
+
+    it("should ignore conditions if the target is not scoped", async () => {
+      const { avatar, guard, check } = await setupConditions();
+      await guard.setParameterCondition(avatar.address, transfer, 0, 0, 0, [
+        word(user2.address),
+      ]);
+      await guard.setScoped(avatar.address, false);
+      await check(token.encodeFunctionData("transfer", [user1.address, 1]));
+    });
+  });
+
+  describe("setMaxValueOnTarget()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setMaxValueOnTarget(guard.address, 100)
+      ).to.be.revertedWith("caller is not the owner");
+    });
+
+    it("should set the maximum value of a target", async () => {
+      const { guard } = await setupTests();
+      expect(await guard.getMaxValue(guard.address)).to.be.equals(0);
+      await expect(guard.setMaxValueOnTarget(guard.address, 100))
+        .to.emit(guard, "SetMaxValueOnTarget")
+        .withArgs(guard.address, 100);
+      expect(await guard.getMaxValue(guard.address)).to.be.equals(100);
+    });
+  });
+
+  describe("setMaxValueOnFunction()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .setMaxValueOnFunction(guard.address, "0x12345678", 100)
+      ).to.be.revertedWith("caller is not the owner");
+    });
+
+    it("should set the maximum value of a function", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.setMaxValueOnFunction(guard.address, "0x12345678", 100)
+      )
+        .to.emit(guard, "SetMaxValueOnFunction")
+        .withArgs(guard.address, "0x12345678", 100);
+      expect(
+        await guard.getMaxValueOnFunction(guard.address, "0x12345678")
+      ).to.be.equals(100);
+      expect(await guard.getMaxValue(guard.address)).to.be.equals(0);
+    });
+  });
+
+  describe("checkTransaction() with value caps", async () => {
+    const sig = "0x12345678";
+
+    const setupCaps = async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(avatar.address, true);
+      await guard.setValueAllowedOnTarget(avatar.address, true);
+      const check = (value: number | string, data = "0x") =>
+        guard.checkTransaction(
+          avatar.address,
+          value,
+          data,
+          0,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x",
+          user1.address
+        );
+      return { avatar, guard, check };
+    };
+
+    it("should not cap the value by default", async () => {
+      const { check } = await setupCaps();
+      await check(ethers.constants.MaxUint256.toString());
+    });
+
+    it("should allow values up to the maximum of the target", async () => {
+      const { avatar, guard, check } = await setupCaps();
+      await guard.setMaxValueOnTarget(avatar.address, 100);
+      await check(100);
+      await check(100, sig);
+      await expect(check(101)).to.be.revertedWith(
+        "Value exceeds the maximum for this target"
+      );
+    });
+
+    it("should still require value to be allowed", async () => {
+      const { avatar, guard, check } = await setupCaps();
+      await guard.setMaxValueOnTarget(avatar.address, 100);
+      await guard.setValueAllowedOnTarget(avatar.address, false);
+      await expect(check(1)).to.be.revertedWith(
+        "Cannot send ETH to this target"
+      );
+      await check(0);
+    });
+
+    it("should allow values up to the maximum of the function", async () => {
+      const { avatar, guard, check } = await setupCaps();
+      await guard.setMaxValueOnFunction(avatar.address, sig, 10);
+      await check(10, sig);
+      await check(11, "0x87654321");
+      await check(11);
+      await expect(check(11, sig)).to.be.revertedWith(
+        "Value exceeds the maximum for this function"
+      );
+    });
+
+    it("should apply both the target and the function maximum", async () => {
+      const { avatar, guard, check } = await setupCaps();
+      await guard.setMaxValueOnTarget(avatar.address, 100);
+      await guard.setMaxValueOnFunction(avatar.address, sig, 1000);
+      await check(100, sig);
+      await expect(check(101, sig)).to.be.revertedWith(
+        "Value exceeds the maximum for this target"
+      );
+    });
+
+    it("should remove caps set to 0", async () => {
+      const { avatar, guard, check } = await setupCaps();
+      await guard.setMaxValueOnTarget(avatar.address, 100);
+      await guard.setMaxValueOnFunction(avatar.address, sig, 10);
+      await guard.setMaxValueOnTarget(avatar.address, 0);
+      await guard.setMaxValueOnFunction(avatar.address, sig, 0);
+      await check(1000, sig);
+    });
+  });
+
+  describe("setAllowance()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setAllowance(user2.address, 0, 100, 3600)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set an allowance and emit SetAllowance", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.setAllowance(user2.address, 1, 100, 3600))
+        .to.emit(guard, "SetAllowance")
+        .withArgs(user2.address, 1, 100, 3600);
+      const [amount, period] = await guard.getAllowance(user2.address, 1);
+      expect(amount).to.be.equals(100);
+      expect(period).to.be.equals(3600);
+      expect((await guard.getAllowance(user2.address, 0))[0]).to.be.equals(0);
+    });
+  });
+
+  describe("resetAllowance()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).resetAllowance(user1.address, user2.address, 0)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should reset the spending of an avatar", async () => {
+      const { guard } = await setupTests();
+      await guard.setTargetAllowed(user2.address, true);
+      await guard.setValueAllowedOnTarget(user2.address, true);
+      await guard.setAllowance(user2.address, 0, 100, 0);
+      await guard.checkTransaction(
+        user2.address,
+        60,
+        "0x",
+        0,
+        0,
+        0,
+        0,
+        AddressZero,
+        AddressZero,
+        "0x",
+        user1.address
+      );
+      await guard.checkAfterExecution(ethers.constants.HashZero, true);
+      expect(
+        (await guard.getSpending(user1.address, user2.address, 0))[0]
+      ).to.be.equals(60);
+
+      await expect(guard.resetAllowance(user1.address, user2.address, 0))
+        .to.emit(guard, "ResetAllowance")
+        .withArgs(user1.address, user2.address, 0);
+      expect(
+        (await guard.getSpending(user1.address, user2.address, 0))[0]
+      ).to.be.equals(0);
+    });
+  });
+
+  describe("checkTransaction() with allowances", async () => {
+    const erc20 = new ethers.utils.Interface([
+      "function transfer(address to, uint256 amount)",
+      "function transferFrom(address from, address to, uint256 amount)",
+    ]);
+
+    // Calls the guard the way an avatar does, the caller being the avatar.
+    const setupAllowances = async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(user2.address, true);
+      await guard.setValueAllowedOnTarget(user2.address, true);
+      const check = (value: number, data = "0x") =>
+        guard.checkTransaction(
+          user2.address,
+          value,
+          data,
+          0,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x",
+          user1.address
+        );
+      const execute = async (value: number, data = "0x", success = true) => {
+        await check(value, data);
+        await guard.checkAfterExecution(ethers.constants.HashZero, success);
+      };
+      const spent = async (kind: number) =>
+        (await guard.getSpending(user1.address, user2.address, kind))[0];
+      return { avatar, guard, check, execute, spent };
+    };
+
+    it("should not record spending without an allowance", async () => {
+      const { execute, spent } = await setupAllowances();
+      await execute(100);
+      expect(await spent(0)).to.be.equals(0);
+    });
+
+    it("should commit value spent by an avatar once executed", async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(user2.address, true);
+      await guard.setValueAllowedOnTarget(user2.address, true);
+      await guard.setAllowance(user2.address, 0, 100, 3600);
+      await user1.sendTransaction({ to: avatar.address, value: 200 });
+      const execute = (value: number) =>
+        avatar.execTransaction(
+          user2.address,
+          value,
+          "0x",
+          0,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x"
+        );
+
+      await execute(60);
+      expect(
+        (await guard.getSpending(avatar.address, user2.address, 0))[0]
+      ).to.be.equals(60);
+      await expect(execute(41)).to.be.revertedWith("Value allowance exceeded");
+      await execute(40);
+    });
+
+    it("should revert once the value allowance is used up", async () => {
+      const { guard, check, execute } = await setupAllowances();
+      await guard.setAllowance(user2.address, 0, 100, 0);
+      await expect(check(101)).to.be.revertedWith("Value allowance exceeded");
+      await execute(100);
+      await expect(check(1)).to.be.revertedWith("Value allowance exceeded");
+      await check(0);
+    });
+
+    it("should decode the amounts of token transfers", async () => {
+      const { guard, check, execute, spent } = await setupAllowances();
+      await guard.setAllowance(user2.address, 1, 100, 0);
+      await execute(
+        0,
+        erc20.encodeFunctionData("transfer", [user1.address, 30])
+      );
+      await execute(
+        0,
+        erc20.encodeFunctionData("transferFrom", [
+          user2.address,
+          user1.address,
+          50,
+        ])
+      );
+      expect(await spent(1)).to.be.equals(80);
+      await expect(
+        check(0, erc20.encodeFunctionData("transfer", [user1.address, 21]))
+      ).to.be.revertedWith("Token allowance exceeded");
+      await check(0, "0x12345678");
+    });
+
+    it("should not commit spending of failed transactions", async () => {
+      const { guard, execute, spent } = await setupAllowances();
+      await guard.setAllowance(user2.address, 0, 100, 0);
+      await execute(60, "0x", false);
+      expect(await spent(0)).to.be.equals(0);
+      await execute(100);
+    });
+
+    it("should revert while a spend is pending", async () => {
+      const { guard, check } = await setupAllowances();
+      await guard.setAllowance(user2.address, 0, 100, 0);
+      await check(10);
+      await expect(check(10)).to.be.revertedWith(
+        "Allowance spend already pending"
+      );
+      await guard.checkAfterExecution(ethers.constants.HashZero, true);
+      await check(10);
+    });
+
+    it("should start over once the period elapsed", async () => {
+      const { guard, check, execute, spent } = await setupAllowances();
+      await guard.setAllowance(user2.address, 0, 100, 3600);
+      await execute(100);
+      await expect(check(1)).to.be.revertedWith("Value allowance exceeded");
+
+      await hre.network.provider.send("evm_increaseTime", [3600]);
+      await hre.network.provider.send("evm_mine");
+      expect(await spent(0)).to.be.equals(0);
+      await execute(100);
+      expect(await spent(0)).to.be.equals(100);
+    });
+
+    it("should never start over without a period", async () => {
+      const { guard, check, execute } = await setupAllowances();
+      await guard.setAllowance(user2.address, 0, 100, 0);
+      await execute(100);
+      await hre.network.provider.send("evm_increaseTime", [365 * 86400]);
+      await hre.network.provider.send("evm_mine");
+      await expect(check(1)).to.be.revertedWith("Value allowance exceeded");
+    });
+
+    it("should track spending per avatar", async () => {
+      const { guard, execute } = await setupAllowances();
+      await guard.setAllowance(user2.address, 0, 100, 0);
+      await execute(100);
+      await guard
+        .connect(user2)
+        .checkTransaction(
+          user2.address,
+          100,
+          "0x",
+          0,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x",
+          user2.address
+        );
+    });
+  });
+
+  describe("setSenderRestricted()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setSenderRestricted(user2.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should restrict a sender and emit SetSenderRestricted", async () => {
+      const { guard } = await setupTests();
+      expect(await guard.isRestrictedSender(user2.address)).to.be.equals(false);
+      await expect(guard.setSenderRestricted(user2.address, true))
+        .to.emit(guard, "SetSenderRestricted")
+        .withArgs(user2.address, true);
+      expect(await guard.isRestrictedSender(user2.address)).to.be.equals(true);
+    });
+  });
+
+  describe("setExecutorAllowed()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setExecutorAllowed(user2.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should allow an executor and emit SetExecutorAllowed", async () => {
+      const { guard } = await setupTests();
+      expect(await guard.isAllowedExecutor(user2.address)).to.be.equals(false);
+      await expect(guard.setExecutorAllowed(user2.address, true))
+        .to.emit(guard, "SetExecutorAllowed")
+        .withArgs(user2.address, true);
+      expect(await guard.isAllowedExecutor(user2.address)).to.be.equals(true);
+    });
+  });
+
+  describe("setTargetAllowedForSender()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { avatar, guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .setTargetAllowedForSender(user2.address, avatar.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should allow a target for a sender and emit SetTargetAllowedForSender", async () => {
+      const { avatar, guard } = await setupTests();
+      await expect(
+        guard.setTargetAllowedForSender(user2.address, avatar.address, true)
+      )
+        .to.emit(guard, "SetTargetAllowedForSender")
+        .withArgs(user2.address, avatar.address, true);
+      expect(
+        await guard.isAllowedTargetForSender(user2.address, avatar.address)
+      ).to.be.equals(true);
+      expect(
+        await guard.isAllowedTargetForSender(user1.address, avatar.address)
+      ).to.be.equals(false);
+    });
+  });
+
+  describe("setScopedForSender()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { avatar, guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .setScopedForSender(user2.address, avatar.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should scope a target for a sender and emit SetTargetScopedForSender", async () => {
+      const { avatar, guard } = await setupTests();
+      await expect(
+        guard.setScopedForSender(user2.address, avatar.address, true)
+      )
+        .to.emit(guard, "SetTargetScopedForSender")
+        .withArgs(user2.address, avatar.address, true);
+      expect(
+        await guard.isScopedForSender(user2.address, avatar.address)
+      ).to.be.equals(true);
+    });
+  });
+
+  describe("setAllowedFunctionForSender()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { avatar, guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .setAllowedFunctionForSender(
+            user2.address,
+            avatar.address,
+            "0x12345678",
+            true
+          )
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should allow a function for a sender and emit SetFunctionAllowedForSender", async () => {
+      const { avatar, guard } = await setupTests();
+      await expect(
+        guard.setAllowedFunctionForSender(
+          user2.address,
+          avatar.address,
+          "0x12345678",
+          true
+        )
+      )
+        .to.emit(guard, "SetFunctionAllowedForSender")
+        .withArgs(user2.address, avatar.address, "0x12345678", true);
+      expect(
+        await guard.isAllowedFunctionForSender(
+          user2.address,
+          avatar.address,
+          "0x12345678"
+        )
+      ).to.be.equals(true);
+    });
+  });
+
+  describe("checkTransaction() with restricted senders", async () => {
+    const sig = "0x12345678";
+
+    const setupSenders = async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(avatar.address, true);
+      await guard.setTargetAllowed(user1.address, true);
+      await guard.setSenderRestricted(user2.address, true);
+      const check = (sender: string, to: string, data = "0x") =>
+        guard.checkTransaction(
+          to,
+          0,
+          data,
+          0,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x",
+          sender
+        );
+      return { avatar, guard, check };
+    };
+
+    it("should only let allowed executors through among other senders", async () => {
+      const { avatar, guard, check } = await setupSenders();
+      await expect(check(user1.address, avatar.address)).to.be.revertedWith(
+        "Sender is not allowed"
+      );
+      await guard.setExecutorAllowed(user1.address, true);
+      await check(user1.address, avatar.address, sig);
+      await check(user1.address, user1.address);
+    });
+
+    it("should let every sender through once no sender is restricted", async () => {
+      const { avatar, guard, check } = await setupSenders();
+      await guard.setSenderRestricted(user2.address, false);
+      await guard.setSenderRestricted(user2.address, false);
+      expect(await guard.restrictedSenderCount()).to.be.equals(0);
+      await check(user1.address, avatar.address);
+    });
+
+    it("should only allow the targets allowed for a restricted sender", async () => {
+      const { avatar, guard, check } = await setupSenders();
+      await expect(check(user2.address, avatar.address)).to.be.revertedWith(
+        "Target address is not allowed for this sender"
+      );
+      await guard.setTargetAllowedForSender(
+        user2.address,
+        avatar.address,
+        true
+      );
+      await check(user2.address, avatar.address, sig);
+      await expect(check(user2.address, user1.address)).to.be.revertedWith(
+        "Target address is not allowed for this sender"
+      );
+    });
+
+    it("should still require the target to be allowed for everyone", async () => {
+      const { avatar, guard, check } = await setupSenders();
+      await guard.setTargetAllowedForSender(
+        user2.address,
+        avatar.address,
+        true
+      );
+      await guard.setTargetAllowed(avatar.address, false);
+      await expect(check(user2.address, avatar.address)).to.be.revertedWith(
+        "Target address is not allowed"
+      );
+    });
+
+    it("should only allow the functions allowed for a restricted sender on a target scoped for it", async () => {
+      const { avatar, guard, check } = await setupSenders();
+      await guard.setTargetAllowedForSender(
+        user2.address,
+        avatar.address,
+        true
+      );
+      await guard.setScopedForSender(user2.address, avatar.address, true);
+      await expect(
+        check(user2.address, avatar.address, sig)
+      ).to.be.revertedWith("Target function is not allowed for this sender");
+      await guard.setAllowedFunctionForSender(
+        user2.address,
+        avatar.address,
+        sig,
+        true
+      );
+      await check(user2.address, avatar.address, sig);
+      await guard.setExecutorAllowed(user1.address, true);
+      await check(user1.address, avatar.address, "0x87654321");
+    });
+
+    it("should apply the fallback of the target on a target scoped for a restricted sender", async () => {
+      const { avatar, guard, check } = await setupSenders();
+      await guard.setTargetAllowedForSender(
+        user2.address,
+        avatar.address,
+        true
+      );
+      await guard.setScopedForSender(user2.address, avatar.address, true);
+      await expect(check(user2.address, avatar.address)).to.be.revertedWith(
+        "Fallback not allowed for this address"
+      );
+      await expect(
+        check(user2.address, avatar.address, "0x1234")
+      ).to.be.revertedWith("Function signature too short");
+      await guard.setFallbackAllowedOnTarget(avatar.address, true);
+      await check(user2.address, avatar.address);
+    });
+
+    it("should check the account executing the transaction on the avatar", async () => {
+      const { avatar, guard } = await setupSenders();
+      await guard.setTargetAllowedForSender(user2.address, user1.address, true);
+      await guard.setExecutorAllowed(user1.address, true);
+      const execute = (signer: typeof user1) =>
+        avatar
+          .connect(signer)
+          .execTransaction(
+            avatar.address,
+            0,
+            "0x",
+            0,
+            0,
+            0,
+            0,
+            AddressZero,
+            AddressZero,
+            "0x"
+          );
+      await execute(user1);
+      await expect(execute(user2)).to.be.revertedWith(
+        "Target address is not allowed for this sender"
+      );
+    });
+
+    it("should not let another account submit the transactions of a restricted owner", async () => {
+      const { guard } = await setupTests();
+      const singleton = await (
+        await hre.ethers.getContractFactory("GnosisSafe")
+      ).deploy();
+      const proxyFactory = await (
+        await hre.ethers.getContractFactory("GnosisSafeProxyFactory")
+      ).deploy();
+      const initializer = singleton.interface.encodeFunctionData("setup", [
+        [user2.address],
+        1,
+        AddressZero,
+        "0x",
+        AddressZero,
+        AddressZero,
+        0,
+        AddressZero,
+      ]);
+      const receipt = await proxyFactory
+        .createProxy(singleton.address, initializer)
+        .then((tx: any) => tx.wait());
+      const { proxy } = receipt.events.find(
+        ({ event }: { event: string }) => event === "ProxyCreation"
+      ).args;
+      const safe = singleton.attach(proxy);
+      await executeContractCallWithSigners(
+        safe.connect(user2),
+        safe,
+        "setGuard",
+        [guard.address],
+        [user2]
+      );
+      await guard.setTargetAllowed(safe.address, true);
+      await guard.setSenderRestricted(user2.address, true);
+
+      const changeThreshold = (executor: typeof user1) =>
+        executeContractCallWithSigners(
+          safe.connect(executor),
+          safe,
+          "changeThreshold",
+          [1],
+          [user2]
+        );
+      await expect(changeThreshold(user2)).to.be.revertedWith(
+        "Target address is not allowed for this sender"
+      );
+      await expect(changeThreshold(user3)).to.be.revertedWith(
+        "Sender is not allowed"
+      );
+      await guard.setTargetAllowedForSender(user2.address, safe.address, true);
+      await changeThreshold(user2);
+    });
+  });
+
+  describe("setTargetsAllowed()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setTargetsAllowed([[user2.address, true]])
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set each target and emit SetTargetAllowed for each", async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(user2.address, true);
+      const tx = guard.setTargetsAllowed([
+        [avatar.address, true],
+        [user2.address, false],
+      ]);
+      await expect(tx)
+        .to.emit(guard, "SetTargetAllowed")
+        .withArgs(avatar.address, true);
+      await expect(tx)
+        .to.emit(guard, "SetTargetAllowed")
+        .withArgs(user2.address, false);
+      expect(await guard.isAllowedTarget(avatar.address)).to.be.equals(true);
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(false);
+    });
+  });
+
+  describe("setTargetsScoped()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setTargetsScoped([[user2.address, true]])
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set each target and emit SetTargetScoped for each", async () => {
+      const { avatar, guard } = await setupTests();
+      const tx = guard.setTargetsScoped([
+        [avatar.address, true],
+        [user2.address, true],
+      ]);
+      await expect(tx)
+        .to.emit(guard, "SetTargetScoped")
+        .withArgs(avatar.address, true);
+      await expect(tx)
+        .to.emit(guard, "SetTargetScoped")
+        .withArgs(user2.address, true);
+      expect(await guard.isScoped(avatar.address)).to.be.equals(true);
+      expect(await guard.isScoped(user2.address)).to.be.equals(true);
+    });
+  });
+
+  describe("setAllowedFunctions()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { avatar, guard } = await setupTests();
+      await expect(
+        guard
+          .connect(user2)
+          .setAllowedFunctions(avatar.address, ["0x12345678"], true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set each function and emit SetFunctionAllowedOnTarget for each", async () => {
+      const { avatar, guard } = await setupTests();
+      const tx = guard.setAllowedFunctions(
+        avatar.address,
+        ["0x12345678", "0x87654321"],
+        true
+      );
+      await expect(tx)
+        .to.emit(guard, "SetFunctionAllowedOnTarget")
+        .withArgs(avatar.address, "0x12345678", true);
+      await expect(tx)
+        .to.emit(guard, "SetFunctionAllowedOnTarget")
+        .withArgs(avatar.address, "0x87654321", true);
+      expect(
+        await guard.isAllowedFunction(avatar.address, "0x12345678")
+      ).to.be.equals(true);
+      expect(
+        await guard.isAllowedFunction(avatar.address, "0x87654321")
+      ).to.be.equals(true);
+    });
+  });
+
+  describe("setMultiSend()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setMultiSend(user2.address)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set the MultiSend and emit SetMultiSend", async () => {
+      const { guard } = await setupTests();
+      expect(await guard.multiSend()).to.be.equals(AddressZero);
+      await expect(guard.setMultiSend(user2.address))
+        .to.emit(guard, "SetMultiSend")
+        .withArgs(user2.address);
+      expect(await guard.multiSend()).to.be.equals(user2.address);
+    });
+  });
+
+  describe("checkTransaction() with MultiSend", async () => {
+    const sig = "0x12345678";
+
+    const setupMultiSend = async () => {
+      const { avatar, guard } = await setupTests();
+      const multiSendFactory = await hre.ethers.getContractFactory("MultiSend");
+      const multiSend = await multiSendFactory.deploy();
+      await guard.setMultiSend(multiSend.address);
+      await guard.setTargetAllowed(user2.address, true);
+      await guard.setScoped(user2.address, true);
+      await guard.setAllowedFunction(user2.address, sig, true);
+      const call = (
+        to: string,
+        overrides: Partial<MetaTransaction> = {}
+      ): MetaTransaction => ({
+        to,
+        value: 0,
+        data: sig,
+        operation: 0,
+        ...overrides,
+      });
+      const encode = (transactions: MetaTransaction[]) =>
+        multiSend.interface.encodeFunctionData("multiSend", [
+          encodeMultiSend(transactions),
+        ]);
+      const execute = (data: string, to = multiSend.address) =>
+        avatar.execTransaction(
+          to,
+          0,
+          data,
+          1,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x"
+        );
+      return { avatar, guard, multiSend, call, encode, execute };
+    };
+
+    it("should check delegate calls to the MultiSend as such until it is set", async () => {
+      const { guard, call, encode, execute } = await setupMultiSend();
+      await guard.setMultiSend(AddressZero);
+      await expect(execute(encode([call(user2.address)]))).to.be.revertedWith(
+        "Delegate call not allowed to this address"
+      );
+    });
+
+    it("should allow batches of allowed transactions", async () => {
+      const { guard, call, encode, execute } = await setupMultiSend();
+      await guard.setTargetAllowed(user1.address, true);
+      await execute(
+        encode([call(user2.address), call(user1.address, { data: "0x" })])
+      );
+    });
+
+    it("should check every transaction of the batch", async () => {
+      const { call, encode, execute } = await setupMultiSend();
+      await expect(
+        execute(encode([call(user2.address), call(user1.address)]))
+      ).to.be.revertedWith("Target address is not allowed");
+      await expect(
+        execute(
+          encode([
+            call(user2.address),
+            call(user2.address, { data: "0x87654321" }),
+          ])
+        )
+      ).to.be.revertedWith("Target function is not allowed");
+      await expect(
+        execute(encode([call(user2.address, { value: 1 })]))
+      ).to.be.revertedWith("Cannot send ETH to this target");
+    });
+
+    it("should check delegate calls within the batch", async () => {
+      const { guard, call, encode, execute } = await setupMultiSend();
+      await expect(
+        execute(encode([call(user2.address, { operation: 1 })]))
+      ).to.be.revertedWith("Delegate call not allowed to this address");
+      await guard.setDelegateCallAllowedOnTarget(user2.address, true);
+      await execute(encode([call(user2.address, { operation: 1 })]));
+    });
+
+    it("should unpack nested batches", async () => {
+      const { multiSend, call, encode, execute } = await setupMultiSend();
+      const nested = call(multiSend.address, {
+        operation: 1,
+        data: encode([call(user1.address)]),
+      });
+      await expect(
+        execute(encode([call(user2.address), nested]))
+      ).to.be.revertedWith("Target address is not allowed");
+    });
+
+    it("should apply sender restrictions to each transaction", async () => {
+      const { guard, call, encode, execute } = await setupMultiSend();
+      await guard.setSenderRestricted(user1.address, true);
+      await expect(execute(encode([call(user2.address)]))).to.be.revertedWith(
+        "Target address is not allowed for this sender"
+      );
+      await guard.setTargetAllowedForSender(user1.address, user2.address, true);
+      await execute(encode([call(user2.address)]));
+    });
+
+    it("should count the spending of the whole batch against allowances", async () => {
+      const { avatar, guard, call, encode, execute } = await setupMultiSend();
+      await guard.setValueAllowedOnTarget(user2.address, true);
+      await guard.setAllowance(user2.address, 0, 100, 0);
+      await user1.sendTransaction({ to: avatar.address, value: 200 });
+
+      await expect(
+        execute(
+          encode([
+            call(user2.address, { value: 60 }),
+            call(user2.address, { value: 60 }),
+          ])
+        )
+      ).to.be.revertedWith("Value allowance exceeded");
+      await execute(
+        encode([
+          call(user2.address, { value: 50 }),
+          call(user2.address, { value: 40 }),
+        ])
+      );
+      expect(
+        (await guard.getSpending(avatar.address, user2.address, 0))[0]
+      ).to.be.equals(90);
+    });
+
+    it("should revert on other functions of the MultiSend", async () => {
+      const { execute } = await setupMultiSend();
+      await expect(execute(sig)).to.be.revertedWith(
+        "Unsupported MultiSend function"
+      );
+    });
+
+    it("should revert on malformed batches", async () => {
+      const { multiSend, call, encode, execute } = await setupMultiSend();
+      const valid = encodeMultiSend([call(user2.address)]);
+      // Cut off the last byte of the data of the transaction.
+      const truncated = multiSend.interface.encodeFunctionData("multiSend", [
+        valid.slice(0, -2),
+      ]);
+      await expect(execute(truncated)).to.be.revertedWith(
+        "Invalid MultiSend transactions"
+      );
+      const badOperation = multiSend.interface.encodeFunctionData("multiSend", [
+        `0x02${valid.slice(4)}`,
+      ]);
+      await expect(execute(badOperation)).to.be.revertedWith(
+        "Invalid MultiSend transactions"
+      );
+      await execute(encode([]));
+    });
+  });
+
+  describe("setGuardian()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setGuardian(user2.address)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set the guardian and emit SetGuardian", async () => {
+      const { guard } = await setupTests();
+      expect(await guard.guardian()).to.be.equals(AddressZero);
+      await expect(guard.setGuardian(user2.address))
+        .to.emit(guard, "SetGuardian")
+        .withArgs(user2.address);
+      expect(await guard.guardian()).to.be.equals(user2.address);
+    });
+  });
+
+  describe("setRecoveryTarget()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setRecoveryTarget(user2.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set a recovery target and emit SetRecoveryTarget", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.setRecoveryTarget(user2.address, true))
+        .to.emit(guard, "SetRecoveryTarget")
+        .withArgs(user2.address, true);
+      expect(await guard.recoveryTargets(user2.address)).to.be.equals(true);
+      await guard.setRecoveryTarget(user2.address, false);
+      expect(await guard.recoveryTargets(user2.address)).to.be.equals(false);
+    });
+  });
+
+  describe("pause() / unpause()", async () => {
+    it("should revert if caller is not the guardian or owner", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.connect(user2).pause()).to.be.revertedWith(
+        "Caller is not the guardian or owner"
+      );
+    });
+
+    it("should let the guardian pause and emit Paused", async () => {
+      const { guard } = await setupTests();
+      await guard.setGuardian(user2.address);
+      await expect(guard.connect(user2).pause())
+        .to.emit(guard, "Paused")
+        .withArgs(user2.address);
+      expect(await guard.paused()).to.be.equals(true);
+      await expect(guard.pause()).to.be.revertedWith("Guard is paused");
+    });
+
+    it("should let only the owner unpause and emit Unpaused", async () => {
+      const { guard } = await setupTests();
+      await guard.setGuardian(user2.address);
+      await expect(guard.unpause()).to.be.revertedWith("Guard is not paused");
+      await guard.connect(user2).pause();
+      await expect(guard.connect(user2).unpause()).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+      await expect(guard.unpause())
+        .to.emit(guard, "Unpaused")
+        .withArgs(user1.address);
+      expect(await guard.paused()).to.be.equals(false);
+    });
+
+    it("should pause and unpause without queueing while there is a delay", async () => {
+      const { guard } = await setupTests();
+      await guard.setDelay(86400);
+      await guard.pause();
+      await guard.unpause();
+    });
+  });
+
+  describe("checkTransaction() while paused", async () => {
+    const setupPaused = async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(avatar.address, true);
+      await guard.setTargetAllowed(user2.address, true);
+      await guard.setRecoveryTarget(avatar.address, true);
+      const execute = (to: string, data = "0x", operation = 0) =>
+        avatar.execTransaction(
+          to,
+          0,
+          data,
+          operation,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x"
+        );
+      return { avatar, guard, execute };
+    };
+
+    it("should allow transactions to allowed targets while not paused", async () => {
+      const { avatar, execute } = await setupPaused();
+      await execute(user2.address);
+      await execute(avatar.address);
+    });
+
+    it("should only allow transactions to recovery targets while paused", async () => {
+      const { avatar, guard, execute } = await setupPaused();
+      await guard.pause();
+      await expect(execute(user2.address)).to.be.revertedWith(
+        "Guard is paused"
+      );
+      await execute(avatar.address);
+    });
+
+    it("should still check transactions to recovery targets", async () => {
+      const { avatar, guard, execute } = await setupPaused();
+      await guard.setScoped(avatar.address, true);
+      await guard.pause();
+      await expect(execute(avatar.address, "0x12345678")).to.be.revertedWith(
+        "Target function is not allowed"
+      );
+    });
+
+    it("should check each transaction of a MultiSend batch", async () => {
+      const { avatar, guard } = await setupPaused();
+      const multiSendFactory = await hre.ethers.getContractFactory("MultiSend");
+      const multiSend = await multiSendFactory.deploy();
+      await guard.setMultiSend(multiSend.address);
+      await guard.pause();
+      const call = (to: string): MetaTransaction => ({
+        to,
+        value: 0,
+        data: "0x",
+        operation: 0,
+      });
+      const data = (transactions: MetaTransaction[]) =>
+        multiSend.interface.encodeFunctionData("multiSend", [
+          encodeMultiSend(transactions),
+        ]);
+      const execute = (transactions: MetaTransaction[]) =>
+        avatar.execTransaction(
+          multiSend.address,
+          0,
+          data(transactions),
+          1,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x"
+        );
+
+      await execute([call(avatar.address)]);
+      await expect(
+        execute([call(avatar.address), call(user2.address)])
+      ).to.be.revertedWith("Guard is paused");
+    });
+
+    it("should allow transactions again once unpaused", async () => {
+      const { guard, execute } = await setupPaused();
+      await guard.pause();
+      await guard.unpause();
+      await execute(user2.address);
+    });
+  });
+
+  describe("setRefundRule()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setRefundRule(AddressZero, 1, 0)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should set the rule of a gas token and emit SetRefundRule", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.setRefundRule(user2.address, 10, 5000))
+        .to.emit(guard, "SetRefundRule")
+        .withArgs(user2.address, 10, 5000);
+      const [maxGasPrice, maxBaseGas] = await guard.refundRules(user2.address);
+      expect(maxGasPrice).to.be.equals(10);
+      expect(maxBaseGas).to.be.equals(5000);
+    });
+  });
+
+  describe("setRefundReceiverAllowed()", async () => {
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(
+        guard.connect(user2).setRefundReceiverAllowed(user2.address, true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should allow a refund receiver and emit SetRefundReceiverAllowed", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.setRefundReceiverAllowed(user2.address, true))
+        .to.emit(guard, "SetRefundReceiverAllowed")
+        .withArgs(user2.address, true);
+      expect(await guard.refundReceivers(user2.address)).to.be.equals(true);
+      await guard.setRefundReceiverAllowed(user2.address, false);
+      expect(await guard.refundReceivers(user2.address)).to.be.equals(false);
+    });
+  });
+
+  describe("checkTransaction() with refunds", async () => {
+    const setupRefunds = async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setTargetAllowed(avatar.address, true);
+      const execute = (
+        baseGas: number,
+        gasPrice: number,
+        gasToken: string,
+        refundReceiver: string
+      ) =>
+        avatar.execTransaction(
+          avatar.address,
+          0,
+          "0x",
+          0,
+          0,
+          baseGas,
+          gasPrice,
+          gasToken,
+          refundReceiver,
+          "0x"
+        );
+      return { avatar, guard, execute };
+    };
+
+    it("should allow transactions without a gas price", async () => {
+      const { execute } = await setupRefunds();
+      await execute(50000, 0, user1.address, user2.address);
+    });
+
+    it("should revert refunds in gas tokens without a rule", async () => {
+      const { guard, execute } = await setupRefunds();
+      await guard.setRefundReceiverAllowed(AddressZero, true);
+      await expect(execute(0, 1, AddressZero, AddressZero)).to.be.revertedWith(
+        "Refunds not allowed in this gas token"
+      );
+      await guard.setRefundRule(AddressZero, 10, 0);
+      await expect(
+        execute(0, 1, user1.address, AddressZero)
+      ).to.be.revertedWith("Refunds not allowed in this gas token");
+      await execute(0, 1, AddressZero, AddressZero);
+    });
+
+    it("should revert if the gas price exceeds the maximum", async () => {
+      const { guard, execute } = await setupRefunds();
+      await guard.setRefundRule(AddressZero, 10, 0);
+      await guard.setRefundReceiverAllowed(AddressZero, true);
+      await execute(0, 10, AddressZero, AddressZero);
+      await expect(execute(0, 11, AddressZero, AddressZero)).to.be.revertedWith(
+        "Gas price exceeds the maximum for this gas token"
+      );
+    });
+
+    it("should revert if the base gas exceeds the maximum", async () => {
+      const { guard, execute } = await setupRefunds();
+      await guard.setRefundRule(user1.address, 10, 30000);
+      await guard.setRefundReceiverAllowed(AddressZero, true);
+      await execute(30000, 1, user1.address, AddressZero);
+      await expect(
+        execute(30001, 1, user1.address, AddressZero)
+      ).to.be.revertedWith("Base gas exceeds the maximum for this gas token");
+    });
+
+    it("should only allow refunds to allowed receivers", async () => {
+      const { guard, execute } = await setupRefunds();
+      await guard.setRefundRule(AddressZero, 10, 0);
+      await guard.setRefundReceiverAllowed(user1.address, true);
+      await execute(0, 1, AddressZero, user1.address);
+      await expect(
+        execute(0, 1, AddressZero, user2.address)
+      ).to.be.revertedWith("Refund receiver is not allowed");
+      await expect(execute(0, 1, AddressZero, AddressZero)).to.be.revertedWith(
+        "Refund receiver is not allowed"
+      );
+    });
+  });
+
+  describe("addGuard()", async () => {
+    const setupGuards = async () => {
+      const { avatar, guard } = await setupTests();
+      const testGuardFactory = await hre.ethers.getContractFactory("TestGuard");
+      const first = await testGuardFactory.deploy();
+      const second = await testGuardFactory.deploy();
+      return { avatar, guard, first, second };
+    };
+
+    it("should revert if caller is not owner", async () => {
+      const { guard, first } = await setupGuards();
+      await expect(
+        guard.connect(user2).addGuard(first.address)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should add guards in order and emit AddGuard", async () => {
+      const { guard, first, second } = await setupGuards();
+      await expect(guard.addGuard(first.address))
+        .to.emit(guard, "AddGuard")
+        .withArgs(first.address);
+      await guard.addGuard(second.address);
+      expect(await guard.getGuards()).to.deep.equal([
+        first.address,
+        second.address,
+      ]);
+    });
+
+    it("should revert if the guard is already added", async () => {
+      const { guard, first } = await setupGuards();
+      await guard.addGuard(first.address);
+      await expect(guard.addGuard(first.address)).to.be.revertedWith(
+        "Guard already added"
+      );
+      await expect(guard.addGuard(guard.address)).to.be.revertedWith(
+        "Cannot add the guard to itself"
+      );
+    });
+
+    it("should revert if the guard does not implement IGuard", async () => {
+      const { avatar, guard } = await setupGuards();
+      await expect(guard.addGuard(user2.address)).to.be.revertedWith(
+        "Guard does not implement IGuard"
+      );
+      await expect(guard.addGuard(avatar.address)).to.be.revertedWith(
+        "Guard does not implement IGuard"
+      );
+    });
+  });
+
+  describe("removeGuard()", async () => {
+    it("should remove a guard, keep the order of the others and emit RemoveGuard", async () => {
+      const { guard } = await setupTests();
+      const testGuardFactory = await hre.ethers.getContractFactory("TestGuard");
+      const guards = await Promise.all(
+        [0, 1, 2].map(() => testGuardFactory.deploy())
+      );
+      for (const added of guards) {
+        await guard.addGuard(added.address);
+      }
+
+      await expect(guard.removeGuard(guards[0].address))
+        .to.emit(guard, "RemoveGuard")
+        .withArgs(guards[0].address);
+      expect(await guard.getGuards()).to.deep.equal([
+        guards[1].address,
+        guards[2].address,
+      ]);
+      await guard.removeGuard(guards[2].address);
+      expect(await guard.getGuards()).to.deep.equal([guards[1].address]);
+      await expect(guard.removeGuard(guards[2].address)).to.be.revertedWith(
+        "Guard not added"
+      );
+      await expect(
+        guard.connect(user2).removeGuard(guards[1].address)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("checkTransaction() with added guards", async () => {
+    const setupComposed = async () => {
+      const { avatar, guard } = await setupTests();
+      const testGuardFactory = await hre.ethers.getContractFactory("TestGuard");
+      const first = await testGuardFactory.deploy();
+      const second = await testGuardFactory.deploy();
+      await guard.addGuard(first.address);
+      await guard.addGuard(second.address);
+      await guard.setTargetAllowed(avatar.address, true);
+      const execute = (to: string) =>
+        avatar.execTransaction(
+          to,
+          0,
+          "0x",
+          0,
+          0,
+          0,
+          0,
+          AddressZero,
+          AddressZero,
+          "0x"
+        );
+      return { avatar, guard, first, second, execute };
+    };
+
+    it("should call each guard in order after its own checks", async () => {
+      const { avatar, guard, first, second, execute } = await setupComposed();
+      const receipt = await execute(avatar.address).then((tx: any) =>
+        tx.wait()
+      );
+      const checked = receipt.logs
+        .filter((log: any) => log.address !== guard.address)
+        .map((log: any) => ({
+          address: log.address,
+          name: first.interface.parseLog(log).name,
+        }));
+      expect(checked).to.deep.equal([
+        { address: first.address, name: "Checked" },
+        { address: second.address, name: "Checked" },
+        { address: first.address, name: "CheckedAfterExecution" },
+        { address: second.address, name: "CheckedAfterExecution" },
+      ]);
+    });
+
+    it("should forward the transaction with the guard as caller", async () => {
+      const { avatar, guard, first, execute } = await setupComposed();
+      await expect(execute(avatar.address))
+        .to.emit(first, "Checked")
+        .withArgs(avatar.address, user1.address, guard.address)
+        .and.to.emit(first, "CheckedAfterExecution")
+        .withArgs(true, guard.address);
+    });
+
+    it("should revert with the reason of a reverting guard", async () => {
+      const { avatar, second, execute } = await setupComposed();
+      await second.setReason("Blocked by second guard");
+      await expect(execute(avatar.address)).to.be.revertedWith(
+        "Blocked by second guard"
+      );
+    });
+
+    it("should not call the guards if the transaction is not allowed", async () => {
+      const { first, execute } = await setupComposed();
+      await expect(execute(user2.address)).to.be.revertedWith(
+        "Target address is not allowed"
+      );
+      expect(await first.queryFilter(first.filters.Checked())).to.deep.equal(
+        []
+      );
+    });
+
+    it("should stop calling a removed guard", async () => {
+      const { avatar, guard, second, execute } = await setupComposed();
+      await second.setReason("Blocked by second guard");
+      await guard.removeGuard(second.address);
+      await execute(avatar.address);
+    });
+  });
+
+  describe("timelock", async () => {
+    const day = 86400;
+
+    const increaseTime = async (seconds: number) => {
+      await hre.network.provider.send("evm_increaseTime", [seconds]);
+      await hre.network.provider.send("evm_mine");
+    };
+
+    const setupTimelock = async () => {
+      const { avatar, guard } = await setupTests();
+      await guard.setDelay(day);
+      const queue = async (method: string, args: unknown[]) => {
+        const data = guard.interface.encodeFunctionData(method, args);
+        const receipt = await guard
+          .queueChange(data)
+          .then((tx: any) => tx.wait());
+        const { id, nonce } = receipt.events[0].args;
+        return { data, id, nonce };
+      };
+      return { avatar, guard, queue };
+    };
+
+    it("should revert if caller is not owner", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.connect(user2).setDelay(day)).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+      await expect(guard.connect(user2).queueChange("0x")).to.be.revertedWith(
+        "Ownable: caller is not the owner"
+      );
+      await expect(
+        guard.connect(user2).executeChange("0x", 0)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(
+        guard.connect(user2).cancelChange(ethers.constants.HashZero)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("should emit SetDelay", async () => {
+      const { guard } = await setupTests();
+      await expect(guard.setDelay(day))
+        .to.emit(guard, "SetDelay")
+        .withArgs(day);
+      expect(await guard.delay()).to.be.equals(day);
+    });
+
+    it("should require changes to be queued once there is a delay", async () => {
+      const { avatar, guard } = await setupTimelock();
+      await expect(
+        guard.setTargetAllowed(avatar.address, true)
+      ).to.be.revertedWith("Changes have to be queued");
+      await expect(
+        guard.setAllowedFunctions(avatar.address, ["0x12345678"], true)
+      ).to.be.revertedWith("Changes have to be queued");
+      await expect(guard.setDelay(0)).to.be.revertedWith(
+        "Changes have to be queued"
+      );
+    });
+
+    it("should queue a change and emit ChangeQueued", async () => {
+      const { avatar, guard } = await setupTimelock();
+      const data = guard.interface.encodeFunctionData("setTargetAllowed", [
+        avatar.address,
+        true,
+      ]);
+      const tx = await guard.queueChange(data);
+      const { timestamp } = await ethers.provider.getBlock(tx.blockNumber);
+      const id = ethers.utils.keccak256(
+        abiCoder.encode(["bytes", "uint256"], [data, 0])
+      );
+      await expect(tx)
+        .to.emit(guard, "ChangeQueued")
+        .withArgs(id, 0, data, timestamp + day);
+      expect(await guard.changeEta(id)).to.be.equals(timestamp + day);
+      expect(await guard.changeNonce()).to.be.equals(1);
+    });
+
+    it("should execute a change once the delay has passed", async () => {
+      const { avatar, guard, queue } = await setupTimelock();
+      const { data, id, nonce } = await queue("setTargetAllowed", [
+        avatar.address,
+        true,
+      ]);
+
+      await expect(guard.executeChange(data, nonce)).to.be.revertedWith(
+        "Change is not due yet"
+      );
+      await increaseTime(day);
+      await expect(guard.executeChange(data, nonce))
+        .to.emit(guard, "ChangeExecuted")
+        .withArgs(id)
+        .and.to.emit(guard, "SetTargetAllowed")
+        .withArgs(avatar.address, true);
+      expect(await guard.isAllowedTarget(avatar.address)).to.be.equals(true);
+      expect(await guard.changeEta(id)).to.be.equals(0);
+      await expect(guard.executeChange(data, nonce)).to.be.revertedWith(
+        "Change is not queued"
+      );
+    });
+
+    it("should bubble up the revert reason of a change", async () => {
+      const { avatar, guard, queue } = await setupTimelock();
+      const { data, nonce } = await queue("setParameterCondition", [
+        avatar.address,
+        "0x12345678",
+        0,
+        1,
+        1,
+        [ethers.constants.HashZero],
+      ]);
+      await increaseTime(day);
+      await expect(guard.executeChange(data, nonce)).to.be.revertedWith(
+        "Comparison not supported for dynamic parameters"
+      );
+    });
+
+    it("should only apply a new delay once it is executed", async () => {
+      const { avatar, guard, queue } = await setupTimelock();
+      const change = await queue("setDelay", [0]);
+      await increaseTime(day);
+      await guard.executeChange(change.data, change.nonce);
+      expect(await guard.delay()).to.be.equals(0);
+      await guard.setTargetAllowed(avatar.address, true);
+    });
+
+    it("should cancel a queued change and emit ChangeCancelled", async () => {
+      const { avatar, guard, queue } = await setupTimelock();
+      const { data, id, nonce } = await queue("setTargetAllowed", [
+        avatar.address,
+        true,
+      ]);
+      await expect(guard.cancelChange(id))
+        .to.emit(guard, "ChangeCancelled")
+        .withArgs(id);
+      await increaseTime(day);
+      await expect(guard.executeChange(data, nonce)).to.be.revertedWith(
+        "Change is not queued"
+      );
+      await expect(guard.cancelChange(id)).to.be.revertedWith(
+        "Change is not queued"
+      );
+    });
+  });
 });
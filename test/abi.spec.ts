@@ -0,0 +1,201 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { expect } from "chai";
+import { utils } from "ethers";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { parseAbi, selectFunctions, splitFunctionList } from "../src/utils/abi";
+
+describe("ABI", async () => {
+  const [user1, user2] = waffle.provider.getWallets();
+  const erc20 = new utils.Interface([
+    "function balanceOf(address owner) view returns (uint256)",
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function mint(address to) payable",
+    "function mint(address to, uint256 amount) payable",
+  ]);
+  const abi = JSON.parse(erc20.format(utils.FormatTypes.json) as string);
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { guard };
+  });
+
+  const names = (fragments: utils.FunctionFragment[]) =>
+    fragments.map((fragment) => fragment.format());
+
+  describe("parseAbi()", async () => {
+    it("should read ABIs, artifacts and Etherscan responses", async () => {
+      const sources = [
+        abi,
+        { contractName: "ERC20", abi },
+        { status: "1", message: "OK", result: JSON.stringify(abi) },
+      ];
+      for (const source of sources) {
+        expect(
+          Object.keys(parseAbi(JSON.stringify(source)).functions)
+        ).to.deep.equal(Object.keys(erc20.functions));
+      }
+    });
+
+    it("should throw on other JSON", async () => {
+      expect(() => parseAbi('{"status":"0"}')).to.throw(
+        "Expected an ABI, an artifact or an Etherscan response"
+      );
+    });
+  });
+
+  describe("selectFunctions()", async () => {
+    it("should select all functions by default", async () => {
+      expect(selectFunctions(erc20, {})).to.have.length(5);
+    });
+
+    it("should select functions by name or signature", async () => {
+      expect(
+        names(
+          selectFunctions(erc20, {
+            functions: ["mint", "transfer(address,uint256)"],
+          })
+        )
+      ).to.deep.equal([
+        "mint(address)",
+        "mint(address,uint256)",
+        "transfer(address,uint256)",
+      ]);
+    });
+
+    it("should leave out payable functions", async () => {
+      expect(names(selectFunctions(erc20, { nonPayable: true }))).to.deep.equal(
+        [
+          "balanceOf(address)",
+          "transfer(address,uint256)",
+          "approve(address,uint256)",
+        ]
+      );
+    });
+
+    it("should throw on functions missing from the ABI", async () => {
+      expect(() => selectFunctions(erc20, { functions: ["burn"] })).to.throw(
+        "Function burn is not in the ABI"
+      );
+    });
+
+    it("should throw on selector collisions", async () => {
+      const colliding = new utils.Interface([
+        "function burn(uint256)",
+        "function collate_propagate_storage(bytes16)",
+      ]);
+      expect(() => selectFunctions(colliding, {})).to.throw(
+        "0x42966c68 is the selector of burn(uint256) and collate_propagate_storage(bytes16)"
+      );
+    });
+  });
+
+  describe("splitFunctionList()", async () => {
+    it("should keep signatures together", async () => {
+      expect(
+        splitFunctionList("transfer, approve(address,uint256),,mint")
+      ).to.deep.equal(["transfer", "approve(address,uint256)", "mint"]);
+    });
+  });
+
+  describe("allowAbi", async () => {
+    it("should scope the target and allow functions of an artifact", async () => {
+      const { guard } = await setupTests();
+      const avatar = await hre.artifacts.readArtifact("TestAvatar");
+      const avatarInterface = new utils.Interface(avatar.abi);
+
+      const { functions, calls } = await hre.run("allowAbi", {
+        guard: guard.address,
+        target: user2.address,
+        abi: "TestAvatar",
+        nonPayable: true,
+      });
+
+      expect(functions).to.not.include(
+        avatarInterface.getFunction("execTransaction").format()
+      );
+      expect(calls).to.have.length(functions.length + 1);
+      expect(await guard.isScoped(user2.address)).to.be.equals(true);
+      for (const fn of functions) {
+        expect(
+          await guard.isAllowedFunction(
+            user2.address,
+            avatarInterface.getSighash(fn)
+          )
+        ).to.be.equals(true);
+      }
+      expect(
+        await guard.isAllowedFunction(
+          user2.address,
+          avatarInterface.getSighash("execTransaction")
+        )
+      ).to.be.equals(false);
+    });
+
+    it("should read the ABI of the target from the cache", async () => {
+      const { guard } = await setupTests();
+      const cache = join(tmpdir(), "abi-cache");
+      mkdirSync(cache, { recursive: true });
+      writeFileSync(
+        join(cache, `${user2.address}.json`),
+        JSON.stringify({
+          status: "1",
+          message: "OK",
+          result: JSON.stringify(abi),
+        })
+      );
+
+      await hre.run("allowAbi", {
+        guard: guard.address,
+        target: user2.address,
+        abiCache: cache,
+        functions: "transfer,approve(address,uint256)",
+      });
+
+      expect(
+        await guard.isAllowedFunction(
+          user2.address,
+          erc20.getSighash("transfer")
+        )
+      ).to.be.equals(true);
+      expect(
+        await guard.isAllowedFunction(
+          user2.address,
+          erc20.getSighash("balanceOf")
+        )
+      ).to.be.equals(false);
+    });
+
+    it("should only send the calls that are missing", async () => {
+      const { guard } = await setupTests();
+      const file = join(tmpdir(), "erc20.json");
+      writeFileSync(file, JSON.stringify(abi));
+      const args = {
+        guard: guard.address,
+        target: user2.address,
+        abi: file,
+        functions: "transfer",
+      };
+
+      await hre.run("allowAbi", args);
+      const { calls } = await hre.run("allowAbi", {
+        ...args,
+        functions: "transfer,approve",
+      });
+
+      expect(calls).to.deep.equal([
+        {
+          method: "setAllowedFunction",
+          args: [user2.address, erc20.getSighash("approve"), true],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  Comparison,
+  ParameterType,
+  findParameter,
+  formatCondition,
+  parseCondition,
+} from "../src/utils/conditions";
+
+describe("Conditions", async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets();
+  const transfer = utils.FunctionFragment.from(
+    "transfer(address to, uint256 amount)"
+  );
+  const word = (value: number | string) =>
+    utils.hexZeroPad(utils.hexlify(value), 32);
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { guard };
+  });
+
+  describe("findParameter()", async () => {
+    it("should find parameters by name or position", async () => {
+      expect(findParameter(transfer, "amount").index).to.be.equals(1);
+      expect(findParameter(transfer, "1").index).to.be.equals(1);
+      expect(() => findParameter(transfer, "from")).to.throw(
+        "Function transfer(address,uint256) has no parameter from"
+      );
+    });
+
+    it("should count the calldata words of static tuples and arrays", async () => {
+      const fragment = utils.FunctionFragment.from(
+        "swap((address,uint256) order, uint256[2] limits, bytes data, uint256 deadline)"
+      );
+      expect(findParameter(fragment, "limits").index).to.be.equals(2);
+      expect(findParameter(fragment, "data").index).to.be.equals(4);
+      expect(findParameter(fragment, "deadline").index).to.be.equals(5);
+    });
+
+    it("should find the components of static tuples by path", async () => {
+      const fragment = utils.FunctionFragment.from(
+        "swap(uint256 amount, (address token, address recipient) order, (bytes path, address recipient) route)"
+      );
+      expect(findParameter(fragment, "order.recipient").index).to.be.equals(2);
+      expect(findParameter(fragment, "1.0").index).to.be.equals(1);
+      expect(() => findParameter(fragment, "route.recipient")).to.throw(
+        "has no static parameter route.recipient"
+      );
+      expect(() => findParameter(fragment, "amount.recipient")).to.throw(
+        "has no static parameter amount.recipient"
+      );
+    });
+  });
+
+  describe("parseCondition()", async () => {
+    it("should encode equal to conditions", async () => {
+      expect(parseCondition(transfer, `to == ${user2.address}`)).to.deep.equal({
+        index: 0,
+        paramType: ParameterType.Static,
+        comparison: Comparison.EqualTo,
+        compValues: [word(user2.address)],
+      });
+    });
+
+    it("should encode greater and less than conditions on uints", async () => {
+      expect(parseCondition(transfer, "amount > 100")).to.deep.equal({
+        index: 1,
+        paramType: ParameterType.Static,
+        comparison: Comparison.GreaterThan,
+        compValues: [word(100)],
+      });
+      expect(parseCondition(transfer, "1 < 1000").comparison).to.be.equals(
+        Comparison.LessThan
+      );
+      expect(() => parseCondition(transfer, "to < 1000")).to.throw(
+        "< only applies to uint parameters"
+      );
+    });
+
+    it("should encode one of conditions", async () => {
+      expect(
+        parseCondition(transfer, `to in [${user2.address}, ${user3.address}]`)
+          .compValues
+      ).to.deep.equal([word(user2.address), word(user3.address)]);
+      expect(() => parseCondition(transfer, "to in 0x12")).to.throw(
+        "Expected a list of values after in"
+      );
+    });
+
+    it("should hash dynamic parameters", async () => {
+      const fragment = utils.FunctionFragment.from(
+        "execute(bytes data, string memo)"
+      );
+      expect(parseCondition(fragment, 'memo in ["a", b]')).to.deep.equal({
+        index: 1,
+        paramType: ParameterType.Dynamic,
+        comparison: Comparison.OneOf,
+        compValues: [utils.id("a"), utils.id("b")],
+      });
+      expect(
+        parseCondition(fragment, "data == 0x1234").compValues
+      ).to.deep.equal([utils.keccak256("0x1234")]);
+    });
+
+    it("should encode conditions on the components of static tuples", async () => {
+      const fragment = utils.FunctionFragment.from(
+        "swap((address tokenIn, address recipient, uint256 amount) params)"
+      );
+      expect(
+        parseCondition(fragment, `params.recipient == ${user2.address}`)
+      ).to.deep.equal({
+        index: 1,
+        paramType: ParameterType.Static,
+        comparison: Comparison.EqualTo,
+        compValues: [word(user2.address)],
+      });
+    });
+
+    it("should reject parameters that cannot be scoped", async () => {
+      const fragment = utils.FunctionFragment.from(
+        "batch(address[] targets, (uint256,uint256) range)"
+      );
+      expect(() => parseCondition(fragment, "targets == 0x")).to.throw(
+        "Cannot scope address[] parameters"
+      );
+      expect(() => parseCondition(fragment, "range == 0x")).to.throw(
+        "Cannot scope (uint256,uint256) parameters"
+      );
+      expect(() => parseCondition(transfer, "amount ~ 1")).to.throw(
+        "Invalid condition: amount ~ 1"
+      );
+    });
+  });
+
+  describe("formatCondition()", async () => {
+    it("should format the word and values of a condition", async () => {
+      expect(formatCondition(parseCondition(transfer, "amount < 5"))).to.equal(
+        `word 1 < ${word(5)}`
+      );
+      expect(
+        formatCondition(parseCondition(transfer, `to in [${user2.address}]`))
+      ).to.equal(`word 0 in [${word(user2.address)}]`);
+    });
+  });
+
+  describe("setParameterCondition / removeParameterCondition", async () => {
+    it("should set and remove conditions from a human-readable spec", async () => {
+      const { guard } = await setupTests();
+      const selector = utils.Interface.getSighash(transfer);
+      const args = {
+        guard: guard.address,
+        target: user2.address,
+        sig: "transfer(address to, uint256 amount)",
+      };
+
+      const condition = await hre.run("setParameterCondition", {
+        ...args,
+        condition: "amount < 1000",
+      });
+      expect(condition.index).to.be.equals(1);
+      const stored = await guard.getParameterCondition(
+        user2.address,
+        selector,
+        1
+      );
+      expect(stored.comparison).to.be.equals(Comparison.LessThan);
+      expect(stored.compValues).to.deep.equal([word(1000)]);
+
+      expect(
+        await hre.run("removeParameterCondition", {
+          ...args,
+          parameter: "amount",
+        })
+      ).to.be.equals(false);
+      expect(
+        await guard.isParameterScoped(user2.address, selector, 1)
+      ).to.be.equals(false);
+    });
+
+    it("should need a function signature", async () => {
+      const { guard } = await setupTests();
+      try {
+        await hre.run("setParameterCondition", {
+          guard: guard.address,
+          target: user2.address,
+          sig: "0xdeadbeef",
+          condition: "0 == 1",
+        });
+        expect.fail("setParameterCondition should fail");
+      } catch (e) {
+        expect((e as Error).message).to.be.equals(
+          "Parameter conditions need a function signature: 0xdeadbeef"
+        );
+      }
+    });
+  });
+});
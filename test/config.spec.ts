@@ -0,0 +1,429 @@
+import { writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { expect } from "chai";
+import { AbiCoder } from "ethers/lib/utils";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { ConfigError, parseConfig } from "../src/utils/config";
+
+describe("Config", async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets();
+  const transfer = "0xa9059cbb";
+  const approve = "0x095ea7b3";
+
+  const config = {
+    targets: [
+      {
+        address: user2.address,
+        allowed: true,
+        scoped: true,
+        functions: ["transfer(address,uint256)", approve],
+      },
+      {
+        address: user3.address,
+        allowed: true,
+        valueAllowed: true,
+        delegateCallAllowed: true,
+      },
+    ],
+  };
+
+  const writeConfig = (name: string, contents: string) => {
+    const file = join(tmpdir(), name);
+    writeFileSync(file, contents);
+    return file;
+  };
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { guard };
+  });
+
+  describe("parseConfig()", async () => {
+    it("should resolve defaults and function selectors", async () => {
+      const { targets } = parseConfig(JSON.stringify(config), "json");
+      expect(targets[0]).to.deep.equal({
+        address: user2.address,
+        allowed: true,
+        scoped: true,
+        delegateCallAllowed: false,
+        valueAllowed: false,
+        fallbackAllowed: false,
+        denyList: false,
+        functions: [approve, transfer],
+        deniedFunctions: [],
+        conditions: [],
+      });
+      expect(targets[1].functions).to.deep.equal([]);
+    });
+
+    it("should resolve denied functions", async () => {
+      const { targets } = parseConfig(
+        JSON.stringify({
+          targets: [
+            {
+              address: user2.address,
+              allowed: true,
+              denyList: true,
+              deniedFunctions: ["transfer(address,uint256)", approve],
+            },
+          ],
+        }),
+        "json"
+      );
+      expect(targets[0].denyList).to.be.equals(true);
+      expect(targets[0].deniedFunctions).to.deep.equal([approve, transfer]);
+    });
+
+    it("should resolve parameter conditions", async () => {
+      const recipient = user3.address.toLowerCase();
+      const { targets } = parseConfig(
+        JSON.stringify({
+          targets: [
+            {
+              address: user2.address,
+              conditions: [
+                {
+                  function: "transfer(address to, uint256 amount)",
+                  condition: `to == ${user3.address}`,
+                },
+                {
+                  function: approve,
+                  index: 0,
+                  paramType: 0,
+                  comparison: 3,
+                  compValues: [`0x${recipient.slice(2).padStart(64, "0")}`],
+                },
+              ],
+            },
+          ],
+        }),
+        "json"
+      );
+      expect(targets[0].conditions).to.deep.equal([
+        {
+          function: approve,
+          index: 0,
+          paramType: 0,
+          comparison: 3,
+          compValues: [`0x${recipient.slice(2).padStart(64, "0")}`],
+        },
+        {
+          function: transfer,
+          index: 0,
+          paramType: 0,
+          comparison: 0,
+          compValues: [`0x${recipient.slice(2).padStart(64, "0")}`],
+        },
+      ]);
+    });
+
+    it("should parse YAML", async () => {
+      const yaml = [
+        "targets:",
+        `  - address: "${user2.address}"`,
+        "    allowed: true",
+        "    functions:",
+        '      - "transfer(address,uint256)"',
+      ].join("\n");
+      const { targets } = parseConfig(yaml, "yaml");
+      expect(targets[0].allowed).to.be.equals(true);
+      expect(targets[0].functions).to.deep.equal([transfer]);
+    });
+
+    it("should report every invalid property", async () => {
+      const invalid = {
+        multiSend: "0x1234",
+        targets: [
+          { address: "0x1234", allowed: "yes" },
+          { address: user2.address, functions: ["transfer(address"] },
+          { address: user2.address, owner: user1.address },
+          { address: user3.address, deniedFunctions: "transfer" },
+          {
+            address: user1.address,
+            conditions: [
+              { function: "transfer(address to,uint256)", condition: "x == 1" },
+              {
+                function: transfer,
+                index: 256,
+                paramType: 0,
+                comparison: 0,
+                compValues: [],
+              },
+              { condition: "to == 0x" },
+            ],
+          },
+        ],
+      };
+      try {
+        parseConfig(JSON.stringify(invalid), "json");
+        expect.fail("config should be invalid");
+      } catch (e) {
+        expect(e).to.be.instanceOf(ConfigError);
+        expect((e as ConfigError).errors).to.deep.equal([
+          "multiSend must be an address",
+          "targets[0].address must be an address",
+          "targets[0].allowed must be a boolean",
+          "targets[1].functions[0] must be a function signature, ABI fragment or selector",
+          "targets[2].owner is not a known property",
+          "targets[3].deniedFunctions must be a list",
+          "targets[4].conditions[0] Function transfer(address,uint256) has no parameter x",
+          "targets[4].conditions[1] index must be a calldata word index below 256",
+          "targets[4].conditions[2] must be an object with a function",
+        ]);
+      }
+    });
+
+    it("should reject functions with colliding selectors", async () => {
+      const colliding = {
+        targets: [
+          {
+            address: user2.address,
+            functions: ["burn(uint256)", "collate_propagate_storage(bytes16)"],
+          },
+        ],
+      };
+      expect(() => parseConfig(JSON.stringify(colliding), "json")).to.throw(
+        ConfigError,
+        "targets[0].functions: 0x42966c68 is the selector of burn(uint256) and collate_propagate_storage(bytes16)"
+      );
+    });
+
+    it("should reject duplicated targets", async () => {
+      const duplicated = {
+        targets: [{ address: user2.address }, { address: user2.address }],
+      };
+      expect(() => parseConfig(JSON.stringify(duplicated), "json")).to.throw(
+        ConfigError,
+        "is listed more than once"
+      );
+    });
+  });
+
+  describe("applyConfig", async () => {
+    it("should make the guard match the config", async () => {
+      const { guard } = await setupTests();
+      const file = writeConfig("guard.json", JSON.stringify(config));
+
+      await hre.run("applyConfig", { guard: guard.address, file });
+
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(true);
+      expect(await guard.isScoped(user2.address)).to.be.equals(true);
+      expect(await guard.isAllowedFunction(user2.address, transfer)).to.be.true;
+      expect(await guard.isAllowedFunction(user2.address, approve)).to.be.true;
+      expect(await guard.isAllowedTarget(user3.address)).to.be.equals(true);
+      expect(await guard.isValueAllowed(user3.address)).to.be.equals(true);
+      expect(await guard.isAllowedToDelegateCall(user3.address)).to.be.true;
+      expect(await guard.isScoped(user3.address)).to.be.equals(false);
+    });
+
+    it("should only send the calls that change the guard", async () => {
+      const { guard } = await setupTests();
+      await guard.setTargetAllowed(user2.address, true);
+      await guard.setAllowedFunction(user2.address, transfer, true);
+      await guard.setScoped(user3.address, true);
+      const file = writeConfig("partial.json", JSON.stringify(config));
+
+      const { calls } = await hre.run("applyConfig", {
+        guard: guard.address,
+        file,
+      });
+
+      expect(calls).to.deep.equal([
+        { method: "setScoped", args: [user2.address, true] },
+        {
+          method: "setAllowedFunction",
+          args: [user2.address, approve, true],
+        },
+        { method: "setScoped", args: [user3.address, false] },
+        {
+          method: "setDelegateCallAllowedOnTarget",
+          args: [user3.address, true],
+        },
+        { method: "setValueAllowedOnTarget", args: [user3.address, true] },
+        { method: "setTargetAllowed", args: [user3.address, true] },
+      ]);
+      const rerun = await hre.run("applyConfig", {
+        guard: guard.address,
+        file,
+      });
+      expect(rerun.calls).to.deep.equal([]);
+    });
+
+    it("should emit the events of each change when batching", async () => {
+      const { guard } = await setupTests();
+      const file = writeConfig("batched.json", JSON.stringify(config));
+
+      await hre.run("applyConfig", { guard: guard.address, file });
+
+      const functionEvents = await guard.queryFilter(
+        guard.filters.SetFunctionAllowedOnTarget()
+      );
+      expect(
+        functionEvents.map(({ args }) => args && args.functionSig)
+      ).to.have.members([transfer, approve]);
+      const targetEvents = await guard.queryFilter(
+        guard.filters.SetTargetAllowed()
+      );
+      expect(
+        targetEvents.map(({ args }) => args && args.target)
+      ).to.have.members([user2.address, user3.address]);
+      expect(
+        new Set(targetEvents.map(({ transactionHash }) => transactionHash)).size
+      ).to.be.equals(1);
+    });
+
+    it("should apply deny lists", async () => {
+      const { guard } = await setupTests();
+      const file = writeConfig(
+        "deny-list.json",
+        JSON.stringify({
+          targets: [
+            {
+              address: user2.address,
+              allowed: true,
+              denyList: true,
+              deniedFunctions: ["transfer(address,uint256)"],
+            },
+          ],
+        })
+      );
+
+      await hre.run("applyConfig", { guard: guard.address, file });
+
+      expect(await guard.isDenyList(user2.address)).to.be.equals(true);
+      expect(await guard.isDeniedFunction(user2.address, transfer)).to.be.true;
+      const rerun = await hre.run("plan", { guard: guard.address, file });
+      expect(rerun.calls).to.deep.equal([]);
+    });
+
+    it("should apply parameter conditions", async () => {
+      const { guard } = await setupTests();
+      const file = writeConfig(
+        "conditions.json",
+        JSON.stringify({
+          targets: [
+            {
+              address: user2.address,
+              allowed: true,
+              scoped: true,
+              functions: ["transfer(address,uint256)"],
+              conditions: [
+                {
+                  function: "transfer(address to, uint256 amount)",
+                  condition: "amount < 1000",
+                },
+              ],
+            },
+          ],
+        })
+      );
+
+      await hre.run("applyConfig", { guard: guard.address, file });
+
+      expect(await guard.isParameterScoped(user2.address, transfer, 1)).to.be
+        .true;
+      const rerun = await hre.run("plan", { guard: guard.address, file });
+      expect(rerun.calls).to.deep.equal([]);
+
+      writeFileSync(
+        file,
+        JSON.stringify({
+          targets: [
+            {
+              address: user2.address,
+              allowed: true,
+              scoped: true,
+              functions: ["transfer(address,uint256)"],
+            },
+          ],
+        })
+      );
+      await hre.run("applyConfig", { guard: guard.address, file });
+      expect(await guard.isParameterScoped(user2.address, transfer, 1)).to.be
+        .false;
+    });
+
+    it("should not batch calls to a guard without the batch setters", async () => {
+      const Legacy = await hre.ethers.getContractFactory("TestLegacyGuard");
+      const legacy = await Legacy.deploy();
+      const guard = await hre.ethers.getContractAt(
+        "ScopeGuard",
+        legacy.address
+      );
+      const file = writeConfig(
+        "legacy.json",
+        JSON.stringify({
+          targets: [
+            { address: user2.address, allowed: true },
+            { address: user3.address, allowed: true },
+          ],
+        })
+      );
+
+      await hre.run("applyConfig", {
+        guard: guard.address,
+        file,
+        fromBlock: 0,
+      });
+
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(true);
+      expect(await guard.isAllowedTarget(user3.address)).to.be.equals(true);
+    });
+
+    it("should fail if the guard does not make a change", async () => {
+      const Legacy = await hre.ethers.getContractFactory("TestLegacyGuard");
+      const legacy = await Legacy.deploy();
+      const file = writeConfig(
+        "legacy-scoped.json",
+        JSON.stringify({
+          targets: [{ address: user2.address, allowed: true, scoped: true }],
+        })
+      );
+
+      try {
+        await hre.run("applyConfig", {
+          guard: legacy.address,
+          file,
+          fromBlock: 0,
+        });
+        expect.fail("applyConfig should fail");
+      } catch (error) {
+        expect((error as Error).message).to.be.equals(
+          `Guard state does not match the config after applying:\n  ${user2.address} scoped is not true`
+        );
+      }
+    });
+
+    it("should configure a guard deployed through the factory", async () => {
+      const Factory = await hre.ethers.getContractFactory("ModuleProxyFactory");
+      const factory = await Factory.deploy();
+      const Guard = await hre.ethers.getContractFactory("ScopeGuard");
+      const masterCopy = await Guard.deploy(user1.address);
+      const initParams = masterCopy.interface.encodeFunctionData("setUp", [
+        new AbiCoder().encode(["address"], [user1.address]),
+      ]);
+      const receipt = await factory
+        .deployModule(masterCopy.address, initParams, "0xfa")
+        .then((tx: any) => tx.wait());
+      const {
+        args: [proxyAddress],
+      } = receipt.events.find(
+        ({ event }: { event: string }) => event === "ModuleProxyCreation"
+      );
+      const file = writeConfig("proxied.json", JSON.stringify(config));
+
+      await hre.run("applyConfig", { guard: proxyAddress, file });
+
+      const proxy = await hre.ethers.getContractAt("ScopeGuard", proxyAddress);
+      expect(await proxy.isAllowedTarget(user2.address)).to.be.equals(true);
+      expect(await proxy.isAllowedFunction(user2.address, transfer)).to.be.true;
+      expect(await masterCopy.isAllowedTarget(user2.address)).to.be.false;
+    });
+  });
+});
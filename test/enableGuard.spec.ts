@@ -0,0 +1,176 @@
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { AddressZero } from "@ethersproject/constants";
+import {
+  buildSafeTransaction,
+  executeTxWithSigners,
+  MetaTransaction,
+} from "@gnosis.pm/safe-contracts";
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { getSafeGuard, isVersionAtLeast } from "../src/utils/safe";
+
+describe("enableGuard", async () => {
+  const [user1] = waffle.provider.getWallets();
+  const batchFile = join(tmpdir(), "enable-guard.json");
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const singleton = await (
+      await hre.ethers.getContractFactory("GnosisSafe")
+    ).deploy();
+    const proxyFactory = await (
+      await hre.ethers.getContractFactory("GnosisSafeProxyFactory")
+    ).deploy();
+    const initializer = singleton.interface.encodeFunctionData("setup", [
+      [user1.address],
+      1,
+      AddressZero,
+      "0x",
+      AddressZero,
+      AddressZero,
+      0,
+      AddressZero,
+    ]);
+    const receipt = await proxyFactory
+      .createProxy(singleton.address, initializer)
+      .then((tx: any) => tx.wait());
+    const { proxy } = receipt.events.find(
+      ({ event }: { event: string }) => event === "ProxyCreation"
+    ).args;
+    const safe = singleton.attach(proxy);
+
+    const multiSend = await (
+      await hre.ethers.getContractFactory("MultiSendCallOnly")
+    ).deploy();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    await guard.setTargetAllowed(safe.address, true);
+    return { safe, guard, multiSend };
+  });
+
+  const execute = async (safe: any, transaction: MetaTransaction) =>
+    executeTxWithSigners(
+      safe,
+      buildSafeTransaction({ ...transaction, nonce: await safe.nonce() }),
+      [user1]
+    );
+
+  describe("isVersionAtLeast()", async () => {
+    it("should compare versions part by part", async () => {
+      expect(isVersionAtLeast("1.3.0", "1.3.0")).to.be.equals(true);
+      expect(isVersionAtLeast("1.4.1", "1.3.0")).to.be.equals(true);
+      expect(isVersionAtLeast("1.10.0", "1.3.0")).to.be.equals(true);
+      expect(isVersionAtLeast("1.2.0", "1.3.0")).to.be.equals(false);
+      expect(isVersionAtLeast("0.1.0", "1.3.0")).to.be.equals(false);
+    });
+  });
+
+  describe("enableGuard", async () => {
+    it("should write a Transaction Builder batch calling setGuard", async () => {
+      const { safe, guard } = await setupTests();
+      const batch = await hre.run("enableGuard", {
+        safe: safe.address,
+        guard: guard.address,
+        batchFile,
+      });
+      expect(batch.meta.createdFromSafeAddress).to.be.equals(safe.address);
+      expect(batch.transactions).to.have.length(1);
+      expect(batch.transactions[0].to).to.be.equals(safe.address);
+      expect(batch.transactions[0].contractMethod.name).to.be.equals(
+        "setGuard"
+      );
+      expect(batch.transactions[0].contractInputsValues).to.deep.equal({
+        guard: guard.address,
+      });
+    });
+
+    it("should write a MultiSend transaction the Safe can execute", async () => {
+      const { safe, guard, multiSend } = await setupTests();
+      const transaction = await hre.run("enableGuard", {
+        safe: safe.address,
+        guard: guard.address,
+        output: "multisend",
+        multisend: multiSend.address,
+        batchFile,
+      });
+
+      await execute(safe, transaction);
+
+      expect(await getSafeGuard(safe)).to.be.equals(guard.address);
+    });
+
+    it("should refuse to send the transaction from the local account", async () => {
+      const { safe, guard } = await setupTests();
+      try {
+        await hre.run("enableGuard", {
+          safe: safe.address,
+          guard: guard.address,
+          output: "send",
+        });
+        expect.fail("enableGuard should fail");
+      } catch (e) {
+        expect((e as Error).message).to.include(
+          "setGuard has to be executed by the Safe"
+        );
+      }
+    });
+
+    it("should throw if the version of the Safe cannot be read", async () => {
+      const { guard } = await setupTests();
+      const avatar = await (
+        await hre.ethers.getContractFactory("TestAvatar")
+      ).deploy();
+      try {
+        await hre.run("enableGuard", {
+          safe: avatar.address,
+          guard: guard.address,
+          batchFile,
+        });
+        expect.fail("enableGuard should fail");
+      } catch (e) {
+        expect((e as Error).message).to.be.equals(
+          `Could not read the version of Safe ${avatar.address}`
+        );
+      }
+    });
+
+    it("should run the preflight checks", async () => {
+      const { safe, guard } = await setupTests();
+      await guard.setTargetAllowed(safe.address, false);
+      try {
+        await hre.run("enableGuard", {
+          safe: safe.address,
+          guard: guard.address,
+          batchFile,
+        });
+        expect.fail("enableGuard should fail");
+      } catch (e) {
+        expect((e as Error).message).to.include("Refusing to enable the guard");
+      }
+    });
+  });
+
+  describe("verifyGuard", async () => {
+    it("should confirm the guard is active on the Safe", async () => {
+      const { safe, guard, multiSend } = await setupTests();
+      const args = { safe: safe.address, guard: guard.address };
+      expect(await hre.run("verifyGuard", args)).to.be.equals(false);
+
+      await execute(
+        safe,
+        await hre.run("enableGuard", {
+          ...args,
+          output: "multisend",
+          multisend: multiSend.address,
+          batchFile,
+        })
+      );
+
+      expect(await hre.run("verifyGuard", args)).to.be.equals(true);
+    });
+  });
+});
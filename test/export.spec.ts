@@ -0,0 +1,164 @@
+import { readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { getSetupBlock } from "../src/utils/state";
+
+describe("exportConfig", async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets();
+  const transfer = "0xa9059cbb";
+  const approve = "0x095ea7b3";
+  const file = join(tmpdir(), "export.json");
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    await guard.setTargetAllowed(user3.address, true);
+    await guard.setScoped(user3.address, true);
+    await guard.setAllowedFunction(user3.address, transfer, true);
+    await guard.setAllowedFunction(user3.address, approve, true);
+    await guard.setTargetAllowed(user2.address, true);
+    await guard.setDelegateCallAllowedOnTarget(user2.address, true);
+    await guard.setAllowedFunction(user3.address, transfer, false);
+    return { guard };
+  });
+
+  it("should find the block the guard was set up in", async () => {
+    const { guard } = await setupTests();
+    const receipt = await guard.deployTransaction.wait();
+    expect(await getSetupBlock(guard)).to.be.equals(receipt.blockNumber);
+  });
+
+  it("should write the permissions as canonical JSON", async () => {
+    const { guard } = await setupTests();
+
+    await hre.run("exportConfig", { guard: guard.address, file });
+
+    const [first, second] = [user2.address, user3.address].sort();
+    const targets = {
+      [user2.address]: {
+        address: user2.address,
+        allowed: true,
+        scoped: false,
+        delegateCallAllowed: true,
+        valueAllowed: false,
+        fallbackAllowed: false,
+        denyList: false,
+        functions: [],
+        deniedFunctions: [],
+        conditions: [],
+      },
+      [user3.address]: {
+        address: user3.address,
+        allowed: true,
+        scoped: true,
+        delegateCallAllowed: false,
+        valueAllowed: false,
+        fallbackAllowed: false,
+        denyList: false,
+        functions: [approve],
+        deniedFunctions: [],
+        conditions: [],
+      },
+    };
+    expect(readFileSync(file, "utf8")).to.be.equals(
+      `${JSON.stringify(
+        { targets: [targets[first], targets[second]] },
+        null,
+        2
+      )}\n`
+    );
+  });
+
+  it("should produce a file that plans no changes", async () => {
+    const { guard } = await setupTests();
+
+    await hre.run("exportConfig", { guard: guard.address, file });
+    const plan = await hre.run("plan", { guard: guard.address, file });
+
+    expect(plan.calls).to.deep.equal([]);
+  });
+
+  it("should export deny lists and plan no changes for them", async () => {
+    const { guard } = await setupTests();
+    await guard.setDenyList(user2.address, true);
+    await guard.setDeniedFunction(user2.address, transfer, true);
+    await guard.setDeniedFunction(user2.address, approve, true);
+    await guard.setDeniedFunction(user2.address, approve, false);
+
+    const { targets } = await hre.run("exportConfig", {
+      guard: guard.address,
+      file,
+    });
+    const plan = await hre.run("plan", { guard: guard.address, file });
+
+    const target = targets.find(
+      ({ address }: { address: string }) => address === user2.address
+    );
+    expect(target.denyList).to.be.equals(true);
+    expect(target.deniedFunctions).to.deep.equal([transfer]);
+    expect(plan.calls).to.deep.equal([]);
+  });
+
+  it("should export the MultiSend and plan no changes for it", async () => {
+    const { guard } = await setupTests();
+    await guard.setMultiSend(user1.address);
+
+    const config = await hre.run("exportConfig", {
+      guard: guard.address,
+      file,
+    });
+    const plan = await hre.run("plan", { guard: guard.address, file });
+
+    expect(config.multiSend).to.be.equals(user1.address);
+    expect(JSON.parse(readFileSync(file, "utf8")).multiSend).to.be.equals(
+      user1.address
+    );
+    expect(plan.calls).to.deep.equal([]);
+  });
+
+  it("should throw if events do not match the guard state", async () => {
+    const { guard } = await setupTests();
+    const receipt = await guard
+      .setScoped(user2.address, true)
+      .then((tx: any) => tx.wait());
+
+    try {
+      await hre.run("exportConfig", {
+        guard: guard.address,
+        file,
+        fromBlock: receipt.blockNumber,
+      });
+      expect.fail("export should fail");
+    } catch (e) {
+      expect((e as Error).message).to.include(
+        `${user2.address} allowed is true on-chain but false in events`
+      );
+    }
+  });
+
+  it("should throw if the registry lists permissions missing from events", async () => {
+    const { guard } = await setupTests();
+    const receipt = await guard
+      .setScoped(user2.address, true)
+      .then((tx: any) => tx.wait());
+
+    try {
+      await hre.run("exportConfig", {
+        guard: guard.address,
+        file,
+        fromBlock: receipt.blockNumber,
+      });
+      expect.fail("export should fail");
+    } catch (e) {
+      expect((e as Error).message).to.include(
+        `${user3.address} is allowed on-chain but not in events`
+      );
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { writeFileSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  MULTISEND_CALL_ONLY,
+  buildMultiSend,
+  decodeMultiSend,
+  encodeSetterCalls,
+  multiSendInterface,
+} from "../src/utils/multisend";
+
+describe("MultiSend output", async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets();
+  const transfer = "0xa9059cbb";
+  const batchFile = join(tmpdir(), "multisend.json");
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const avatarFactory = await hre.ethers.getContractFactory("TestAvatar");
+    const avatar = await avatarFactory.deploy();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(avatar.address);
+    const multiSendFactory = await hre.ethers.getContractFactory(
+      "MultiSendCallOnly"
+    );
+    const multiSend = await multiSendFactory.deploy();
+    await avatar.enableModule(user1.address);
+    return { avatar, guard, multiSend };
+  });
+
+  const calls = [
+    { method: "setTargetAllowed", args: [user2.address, true] },
+    { method: "setScoped", args: [user2.address, true] },
+    { method: "setAllowedFunction", args: [user2.address, transfer, true] },
+  ];
+
+  describe("buildMultiSend()", async () => {
+    it("should delegate call MultiSendCallOnly by default", async () => {
+      const { guard } = await setupTests();
+      const transaction = buildMultiSend(guard, calls);
+      expect(transaction.to).to.be.equals(MULTISEND_CALL_ONLY);
+      expect(transaction.value).to.be.equals("0");
+      expect(transaction.operation).to.be.equals(1);
+    });
+
+    it("should pack every setter call", async () => {
+      const { guard } = await setupTests();
+      const { data } = buildMultiSend(guard, calls);
+      const [transactions] = multiSendInterface.decodeFunctionData(
+        "multiSend",
+        data
+      );
+      const setScoped = guard.interface.encodeFunctionData("setScoped", [
+        user2.address,
+        true,
+      ]);
+      expect(transactions).to.include(setScoped.slice(2));
+      expect(transactions).to.include(guard.address.slice(2).toLowerCase());
+    });
+
+    it("should apply all calls atomically from the owning avatar", async () => {
+      const { avatar, guard, multiSend } = await setupTests();
+      const { to, data } = buildMultiSend(guard, calls, multiSend.address);
+
+      await avatar.execTransactionFromModule(to, 0, data, 1);
+
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(true);
+      expect(await guard.isScoped(user2.address)).to.be.equals(true);
+      expect(await guard.isAllowedFunction(user2.address, transfer)).to.be.true;
+    });
+  });
+
+  describe("decodeMultiSend()", async () => {
+    it("should unpack the transactions of a batch", async () => {
+      const { guard } = await setupTests();
+      const { data } = buildMultiSend(guard, calls);
+      expect(
+        decodeMultiSend(data)?.map(({ to, value, data, operation }) => ({
+          to,
+          value: value.toString(),
+          data,
+          operation,
+        }))
+      ).to.deep.equal(
+        encodeSetterCalls(guard, calls).map((transaction) => ({
+          ...transaction,
+          value: "0",
+        }))
+      );
+    });
+
+    it("should reject truncated transactions", async () => {
+      const { guard } = await setupTests();
+      const { data } = buildMultiSend(guard, calls);
+      const [transactions] = multiSendInterface.decodeFunctionData(
+        "multiSend",
+        data
+      );
+      expect(
+        decodeMultiSend(
+          multiSendInterface.encodeFunctionData("multiSend", [
+            transactions.slice(0, -2),
+          ])
+        )
+      ).to.be.equals(undefined);
+      expect(decodeMultiSend(transfer)).to.be.equals(undefined);
+    });
+  });
+
+  describe("applyConfig", async () => {
+    it("should print and export a single MultiSend transaction", async () => {
+      const { avatar, guard, multiSend } = await setupTests();
+      const file = join(tmpdir(), "multisend-config.json");
+      writeFileSync(
+        file,
+        JSON.stringify({
+          targets: [
+            { address: user2.address, allowed: true },
+            { address: user3.address, allowed: true, valueAllowed: true },
+          ],
+        })
+      );
+
+      const { output } = await hre.run("applyConfig", {
+        guard: guard.address,
+        file,
+        output: "multisend",
+        multisend: multiSend.address,
+        batchFile,
+      });
+
+      expect(JSON.parse(readFileSync(batchFile, "utf8"))).to.deep.equal(output);
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(false);
+
+      await avatar.execTransactionFromModule(output.to, 0, output.data, 1);
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(true);
+      expect(await guard.isValueAllowed(user3.address)).to.be.equals(true);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { AddressZero } from "@ethersproject/constants";
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { GuardPermissions } from "../src/utils/config";
+import { formatPlan, planPermissions } from "../src/utils/plan";
+import { emptyTarget, readPermissions } from "../src/utils/state";
+
+describe("Plan", async () => {
+  const [user1, user2, user3, user4] = waffle.provider.getWallets();
+  const transfer = "0xa9059cbb";
+  const approve = "0x095ea7b3";
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    await guard.setTargetAllowed(user2.address, true);
+    await guard.setScoped(user2.address, true);
+    await guard.setAllowedFunction(user2.address, transfer, true);
+    await guard.setAllowedFunction(user2.address, approve, true);
+    await guard.setAllowedFunction(user2.address, approve, false);
+    await guard.setTargetAllowed(user3.address, true);
+    await guard.setValueAllowedOnTarget(user3.address, true);
+    return { guard };
+  });
+
+  const writeConfig = (permissions: any) => {
+    const file = join(tmpdir(), "plan.json");
+    writeFileSync(file, JSON.stringify(permissions));
+    return file;
+  };
+
+  describe("readPermissions()", async () => {
+    it("should fold the setter events of a guard", async () => {
+      const { guard } = await setupTests();
+      const { targets } = await readPermissions(guard);
+      expect(targets).to.deep.include({
+        ...emptyTarget(user2.address),
+        allowed: true,
+        scoped: true,
+        functions: [transfer],
+      });
+      expect(targets).to.deep.include({
+        ...emptyTarget(user3.address),
+        allowed: true,
+        valueAllowed: true,
+      });
+      expect(targets).to.have.length(2);
+    });
+
+    it("should leave out targets without permissions", async () => {
+      const { guard } = await setupTests();
+      await guard.setValueAllowedOnTarget(user3.address, false);
+      await guard.setTargetAllowed(user3.address, false);
+      const { targets } = await readPermissions(guard);
+      expect(targets.map((target) => target.address)).to.deep.equal([
+        user2.address,
+      ]);
+    });
+  });
+
+  describe("planPermissions()", async () => {
+    const current: GuardPermissions = {
+      targets: [
+        { ...emptyTarget(user2.address), allowed: true, functions: [approve] },
+        { ...emptyTarget(user3.address), allowed: true },
+      ],
+    };
+    const desired: GuardPermissions = {
+      targets: [
+        {
+          ...emptyTarget(user2.address),
+          allowed: true,
+          scoped: true,
+          functions: [transfer],
+        },
+        { ...emptyTarget(user4.address), allowed: true, valueAllowed: true },
+      ],
+    };
+
+    it("should diff targets to add, change and remove", async () => {
+      const { targets } = planPermissions(current, desired);
+      expect(targets).to.deep.equal([
+        {
+          address: user2.address,
+          kind: "change",
+          flags: [{ flag: "scoped", from: false, to: true }],
+          addedFunctions: [transfer],
+          removedFunctions: [approve],
+          addedDeniedFunctions: [],
+          removedDeniedFunctions: [],
+          addedConditions: [],
+          removedConditions: [],
+        },
+        {
+          address: user4.address,
+          kind: "add",
+          flags: [
+            { flag: "allowed", from: false, to: true },
+            { flag: "valueAllowed", from: false, to: true },
+          ],
+          addedFunctions: [],
+          removedFunctions: [],
+          addedDeniedFunctions: [],
+          removedDeniedFunctions: [],
+          addedConditions: [],
+          removedConditions: [],
+        },
+        {
+          address: user3.address,
+          kind: "remove",
+          flags: [{ flag: "allowed", from: true, to: false }],
+          addedFunctions: [],
+          removedFunctions: [],
+          addedDeniedFunctions: [],
+          removedDeniedFunctions: [],
+          addedConditions: [],
+          removedConditions: [],
+        },
+      ]);
+    });
+
+    it("should order restrictions before grants", async () => {
+      const { calls } = planPermissions(current, desired);
+      expect(calls).to.deep.equal([
+        { method: "setScoped", args: [user2.address, true] },
+        { method: "setAllowedFunction", args: [user2.address, approve, false] },
+        { method: "setTargetAllowed", args: [user3.address, false] },
+        { method: "setAllowedFunction", args: [user2.address, transfer, true] },
+        { method: "setValueAllowedOnTarget", args: [user4.address, true] },
+        { method: "setTargetAllowed", args: [user4.address, true] },
+      ]);
+    });
+
+    it("should plan deny lists and denied functions", async () => {
+      const denied: GuardPermissions = {
+        targets: [
+          {
+            ...emptyTarget(user2.address),
+            allowed: true,
+            denyList: true,
+            functions: [approve],
+            deniedFunctions: [transfer],
+          },
+          { ...emptyTarget(user3.address), allowed: true },
+        ],
+      };
+      const plan = planPermissions(current, denied);
+      expect(plan.calls).to.deep.equal([
+        { method: "setDenyList", args: [user2.address, true] },
+        { method: "setDeniedFunction", args: [user2.address, transfer, true] },
+      ]);
+      expect(formatPlan(plan)).to.include(
+        `      + denied function ${transfer}`
+      );
+      expect(planPermissions(denied, current).calls).to.deep.equal([
+        { method: "setDenyList", args: [user2.address, false] },
+        { method: "setDeniedFunction", args: [user2.address, transfer, false] },
+      ]);
+    });
+
+    it("should plan the MultiSend only when the config sets one", async () => {
+      const plan = planPermissions(current, {
+        ...current,
+        multiSend: user4.address,
+      });
+      expect(plan.multiSend).to.deep.equal({
+        from: AddressZero,
+        to: user4.address,
+      });
+      expect(plan.calls).to.deep.equal([
+        { method: "setMultiSend", args: [user4.address] },
+      ]);
+      expect(formatPlan(plan)).to.include(
+        `  ~ multiSend: ${AddressZero} -> ${user4.address}`
+      );
+      expect(
+        planPermissions({ ...current, multiSend: user4.address }, current)
+      ).to.deep.equal({ targets: [], calls: [] });
+    });
+
+    it("should be empty if permissions match", async () => {
+      const plan = planPermissions(current, current);
+      expect(plan).to.deep.equal({ targets: [], calls: [] });
+      expect(formatPlan(plan)).to.be.equals(
+        "No changes. The guard matches the configuration."
+      );
+    });
+
+    it("should format the plan", async () => {
+      const output = formatPlan(planPermissions(current, desired));
+      expect(output).to.include(`  ~ target ${user2.address}`);
+      expect(output).to.include("      ~ scoped: false -> true");
+      expect(output).to.include(`      - function ${approve}`);
+      expect(output).to.include(`      + function ${transfer}`);
+      expect(output).to.include(`  + target ${user4.address}`);
+      expect(output).to.include(`  - target ${user3.address}`);
+      expect(output).to.include("Plan: 1 to add, 1 to change, 1 to remove.");
+      expect(output).to.include(`  1. setScoped(${user2.address}, true)`);
+    });
+  });
+
+  describe("plan", async () => {
+    it("should not send any transaction", async () => {
+      const { guard } = await setupTests();
+      const file = writeConfig({ targets: [{ address: user4.address }] });
+      const blockNumber = await hre.ethers.provider.getBlockNumber();
+
+      const plan = await hre.run("plan", { guard: guard.address, file });
+
+      expect(plan.calls).to.have.length(5);
+      expect(await hre.ethers.provider.getBlockNumber()).to.be.equals(
+        blockNumber
+      );
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(true);
+    });
+  });
+
+  describe("applyConfig", async () => {
+    it("should remove permissions missing from the config", async () => {
+      const { guard } = await setupTests();
+      const file = writeConfig({
+        targets: [{ address: user3.address, allowed: true }],
+      });
+
+      await hre.run("applyConfig", { guard: guard.address, file });
+
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(false);
+      expect(await guard.isScoped(user2.address)).to.be.equals(false);
+      expect(await guard.isAllowedFunction(user2.address, transfer)).to.be
+        .false;
+      expect(await guard.isAllowedTarget(user3.address)).to.be.equals(true);
+      expect(await guard.isValueAllowed(user3.address)).to.be.equals(false);
+      expect((await readPermissions(guard)).targets).to.deep.equal([
+        { ...emptyTarget(user3.address), allowed: true },
+      ]);
+    });
+  });
+});
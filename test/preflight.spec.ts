@@ -0,0 +1,176 @@
+import { AddressZero } from "@ethersproject/constants";
+import { executeContractCallWithSigners } from "@gnosis.pm/safe-contracts";
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { runPreflight } from "../src/utils/preflight";
+import { SAFE_ADMIN_FUNCTIONS, safeInterface } from "../src/utils/safe";
+
+describe("Preflight", async () => {
+  const [user1, user2] = waffle.provider.getWallets();
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const singleton = await (
+      await hre.ethers.getContractFactory("GnosisSafe")
+    ).deploy();
+    const proxyFactory = await (
+      await hre.ethers.getContractFactory("GnosisSafeProxyFactory")
+    ).deploy();
+    const initializer = singleton.interface.encodeFunctionData("setup", [
+      [user1.address],
+      1,
+      AddressZero,
+      "0x",
+      AddressZero,
+      AddressZero,
+      0,
+      AddressZero,
+    ]);
+    const receipt = await proxyFactory
+      .createProxy(singleton.address, initializer)
+      .then((tx: any) => tx.wait());
+    const { proxy } = receipt.events.find(
+      ({ event }: { event: string }) => event === "ProxyCreation"
+    ).args;
+    const safe = singleton.attach(proxy);
+
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { safe, guard };
+  });
+
+  const allowAdminFunctions = async (guard: any, safe: any) => {
+    await guard.setTargetAllowed(safe.address, true);
+    await guard.setScoped(safe.address, true);
+    for (const name of SAFE_ADMIN_FUNCTIONS) {
+      await guard.setAllowedFunction(
+        safe.address,
+        safeInterface.getSighash(name),
+        true
+      );
+    }
+  };
+
+  describe("runPreflight()", async () => {
+    it("should fail if the Safe is not an allowed target", async () => {
+      const { safe, guard } = await setupTests();
+      const report = await runPreflight(safe, guard);
+      expect(report.passed).to.be.equals(false);
+      expect(report.modules).to.deep.equal([]);
+      expect(report.checks).to.have.length(SAFE_ADMIN_FUNCTIONS.length);
+      expect(report.checks[0]).to.deep.equal({
+        signature: "setGuard(address)",
+        verdict: { allowed: false, reason: "Target address is not allowed" },
+      });
+    });
+
+    it("should fail if an admin function is not allowed", async () => {
+      const { safe, guard } = await setupTests();
+      await allowAdminFunctions(guard, safe);
+      await guard.setAllowedFunction(
+        safe.address,
+        safeInterface.getSighash("swapOwner"),
+        false
+      );
+      const report = await runPreflight(safe, guard);
+      expect(report.passed).to.be.equals(false);
+      expect(
+        report.checks.filter((check) => !check.verdict.allowed)
+      ).to.deep.equal([
+        {
+          signature: "swapOwner(address,address,address)",
+          verdict: {
+            allowed: false,
+            reason: "Target function is not allowed",
+          },
+        },
+      ]);
+    });
+
+    it("should pass if all admin functions are allowed", async () => {
+      const { safe, guard } = await setupTests();
+      await allowAdminFunctions(guard, safe);
+      expect((await runPreflight(safe, guard)).passed).to.be.equals(true);
+    });
+
+    it("should pass if the Safe is allowed without scoping", async () => {
+      const { safe, guard } = await setupTests();
+      await guard.setTargetAllowed(safe.address, true);
+      expect((await runPreflight(safe, guard)).passed).to.be.equals(true);
+    });
+
+    it("should pass if a recovery module is enabled", async () => {
+      const { safe, guard } = await setupTests();
+      await executeContractCallWithSigners(
+        safe,
+        safe,
+        "enableModule",
+        [user2.address],
+        [user1]
+      );
+      const report = await runPreflight(safe, guard);
+      expect(report.modules).to.deep.equal([user2.address]);
+      expect(report.passed).to.be.equals(true);
+    });
+  });
+
+  describe("preflight", async () => {
+    it("should refuse to produce the setGuard transaction", async () => {
+      const { safe, guard } = await setupTests();
+      try {
+        await hre.run("preflight", {
+          safe: safe.address,
+          guard: guard.address,
+        });
+        expect.fail("preflight should fail");
+      } catch (e) {
+        expect((e as Error).message).to.include("Refusing to enable the guard");
+      }
+    });
+
+    it("should produce the setGuard transaction when forced", async () => {
+      const { safe, guard } = await setupTests();
+      const { report, transaction } = await hre.run("preflight", {
+        safe: safe.address,
+        guard: guard.address,
+        force: true,
+      });
+      expect(report.passed).to.be.equals(false);
+      expect(transaction).to.deep.equal({
+        to: safe.address,
+        value: "0",
+        data: safe.interface.encodeFunctionData("setGuard", [guard.address]),
+      });
+    });
+
+    it("should leave the Safe in control once the guard is enabled", async () => {
+      const { safe, guard } = await setupTests();
+      await allowAdminFunctions(guard, safe);
+      await hre.run("preflight", { safe: safe.address, guard: guard.address });
+
+      await executeContractCallWithSigners(
+        safe,
+        safe,
+        "setGuard",
+        [guard.address],
+        [user1]
+      );
+      await executeContractCallWithSigners(
+        safe,
+        safe,
+        "changeThreshold",
+        [1],
+        [user1]
+      );
+      await executeContractCallWithSigners(
+        safe,
+        safe,
+        "setGuard",
+        [AddressZero],
+        [user1]
+      );
+    });
+  });
+});
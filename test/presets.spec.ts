@@ -0,0 +1,407 @@
+import { writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { expect } from "chai";
+import { utils } from "ethers";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { ADDRESS_BOOK, PRESETS, PRESET_ABIS } from "../src/presets";
+import { findParameter } from "../src/utils/conditions";
+import { ConfigError, parseConfig } from "../src/utils/config";
+import { applyPresets, resolvePreset } from "../src/utils/presets";
+
+describe("Presets", async () => {
+  const [user1, user2] = waffle.provider.getWallets();
+  const mainnet = ADDRESS_BOOK[1];
+  const approve = "0x095ea7b3";
+  const deposit = "0xd0e30db0";
+  const withdraw = "0x2e1a7d4d";
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { guard };
+  });
+
+  describe("PRESETS", async () => {
+    for (const [name, preset] of Object.entries(PRESETS)) {
+      it(`${name} should only allow functions of the ABIs it covers`, async () => {
+        for (const target of preset.targets) {
+          const abi = new utils.Interface(PRESET_ABIS[target.abi]);
+          for (const fn of target.functions) {
+            const fragment = abi.getFunction(utils.id(fn).slice(0, 10));
+            expect(fragment.format()).to.be.equals(fn);
+            if (fragment.payable) {
+              expect(target.valueAllowed, `${fn} is payable`).to.be.true;
+            }
+          }
+        }
+      });
+    }
+
+    it("should limit the spenders and recipients it allows", async () => {
+      // Address parameters of a fragment, with the path into its tuples.
+      const addresses = (params: utils.ParamType[], prefix = ""): string[] =>
+        params.flatMap((param) =>
+          param.baseType === "tuple"
+            ? addresses(param.components, `${prefix}${param.name}.`)
+            : param.type === "address"
+            ? [`${prefix}${param.name}`]
+            : []
+        );
+      for (const preset of Object.values(PRESETS)) {
+        for (const target of preset.targets) {
+          if (target.contract === "avatar") {
+            continue;
+          }
+          const abi = new utils.Interface(PRESET_ABIS[target.abi]);
+          for (const fn of target.functions) {
+            const limited = (target.conditions ?? [])
+              .filter((condition) => condition.function === fn)
+              .map(({ parameter }) => parameter);
+            // Tokens to swap are not sent anything by the call.
+            const recipients = addresses(abi.getFunction(fn).inputs).filter(
+              (parameter) => !/(^|\.)token/.test(parameter)
+            );
+            expect(limited, `${fn} has a condition`).to.include.members(
+              recipients
+            );
+          }
+        }
+      }
+    });
+
+    it("should only set conditions on functions it allows", async () => {
+      for (const preset of Object.values(PRESETS)) {
+        for (const target of preset.targets) {
+          const abi = new utils.Interface(PRESET_ABIS[target.abi]);
+          for (const condition of target.conditions ?? []) {
+            expect(target.functions).to.include(condition.function);
+            expect(() =>
+              findParameter(
+                abi.getFunction(condition.function),
+                condition.parameter
+              )
+            ).to.not.throw();
+          }
+        }
+      }
+    });
+
+    it("should have the well-known selectors", async () => {
+      const selectors = Object.values(PRESETS).flatMap((preset) =>
+        preset.targets.flatMap((target) =>
+          target.functions.map((fn) => utils.id(fn).slice(0, 10))
+        )
+      );
+      expect(selectors).to.include.members([
+        approve,
+        deposit,
+        withdraw,
+        "0x38ed1739", // swapExactTokensForTokens
+        "0x7ff36ab5", // swapExactETHForTokens
+        "0x18cbafe5", // swapExactTokensForETH
+        "0x414bf389", // exactInputSingle
+        "0xdb3e2198", // exactOutputSingle
+        "0x0d582f13", // addOwnerWithThreshold
+        "0xf8dc5dd9", // removeOwner
+        "0xe318b52b", // swapOwner
+        "0x694e80c3", // changeThreshold
+      ]);
+    });
+
+    it("should match the functions of the compiled Safe", async () => {
+      const { abi } = await hre.artifacts.readArtifact("GnosisSafe");
+      const safe = new utils.Interface(abi);
+      for (const fn of PRESET_ABIS.OwnerManager) {
+        const fragment = utils.FunctionFragment.from(fn.slice(9));
+        expect(safe.getFunction(fragment.format()).format("full")).to.be.equals(
+          fragment.format("full")
+        );
+      }
+    });
+
+    it("should refer to contracts in the address book", async () => {
+      const contracts = Object.values(ADDRESS_BOOK).flatMap(Object.keys);
+      for (const preset of Object.values(PRESETS)) {
+        for (const target of preset.targets) {
+          if (target.contract !== "avatar") {
+            expect(contracts).to.include(target.contract);
+          }
+        }
+      }
+    });
+  });
+
+  describe("ADDRESS_BOOK", async () => {
+    it("should hold checksummed addresses", async () => {
+      for (const addresses of Object.values(ADDRESS_BOOK)) {
+        for (const address of Object.values(addresses)) {
+          expect(utils.getAddress(address as string)).to.be.equals(address);
+        }
+      }
+    });
+  });
+
+  describe("resolvePreset()", async () => {
+    it("should resolve the targets of a preset on a chain", async () => {
+      expect(resolvePreset("wrap-native", 1)).to.deep.equal([
+        {
+          address: mainnet.wrappedNative,
+          allowed: true,
+          scoped: true,
+          valueAllowed: true,
+          fallbackAllowed: false,
+          functions: ["deposit()", "withdraw(uint256)"],
+          conditions: [],
+        },
+      ]);
+    });
+
+    it("should limit spenders and recipients to the routers and the avatar", async () => {
+      const [weth] = resolvePreset("erc20-approve", 1);
+      expect(weth.conditions).to.deep.equal([
+        {
+          function:
+            "function approve(address spender, uint256 amount) returns (bool)",
+          condition: `spender in [${mainnet.uniswapV2Router}, ${mainnet.uniswapV3Router}]`,
+        },
+      ]);
+      const [router] = resolvePreset("uniswap-v3-router", 1, user2.address);
+      expect(
+        router.conditions?.map(
+          (condition) => "condition" in condition && condition.condition
+        )
+      ).to.deep.equal([
+        `params.recipient == ${user2.address}`,
+        `params.recipient == ${user2.address}`,
+        `recipient == ${user2.address}`,
+      ]);
+      expect(() => resolvePreset("uniswap-v2-router", 1)).to.throw(
+        "Preset uniswap-v2-router needs the address of the avatar"
+      );
+    });
+
+    it("should leave out contracts missing on the chain", async () => {
+      expect(
+        resolvePreset("erc20-approve", 4).map(({ address }) => address)
+      ).to.deep.equal([ADDRESS_BOOK[4].wrappedNative]);
+    });
+
+    it("should leave out functions limited to contracts missing on the chain", async () => {
+      expect(
+        resolvePreset("erc20-approve", 137)[0].conditions?.[0]
+      ).to.have.property(
+        "condition",
+        `spender == ${ADDRESS_BOOK[137].uniswapV3Router}`
+      );
+      expect(() => resolvePreset("erc20-approve", 100)).to.throw(
+        "Preset erc20-approve is not available on chain 100"
+      );
+    });
+
+    it("should throw if no contract of the preset is on the chain", async () => {
+      expect(() => resolvePreset("wrap-native", 31337)).to.throw(
+        "Preset wrap-native is not available on chain 31337"
+      );
+    });
+
+    it("should resolve the avatar", async () => {
+      expect(
+        resolvePreset("safe-owners", 31337, user2.address)[0].address
+      ).to.be.equals(user2.address);
+      expect(() => resolvePreset("safe-owners", 1)).to.throw(
+        "Preset safe-owners needs the address of the avatar"
+      );
+    });
+  });
+
+  describe("applyPresets()", async () => {
+    it("should combine the targets of several presets", async () => {
+      const { targets } = applyPresets(
+        {
+          avatar: user2.address,
+          presets: ["wrap-native", "safe-owners"],
+          targets: [],
+        },
+        1
+      );
+      expect(targets.map(({ address }) => address)).to.deep.equal([
+        mainnet.wrappedNative,
+        user2.address,
+      ]);
+    });
+
+    it("should merge targets shared by presets", async () => {
+      const { targets } = applyPresets(
+        { presets: ["erc20-approve", "wrap-native"], targets: [] },
+        1
+      );
+      const weth = targets.find(
+        ({ address }) => address === mainnet.wrappedNative
+      );
+      expect(weth?.functions).to.deep.equal([
+        "approve(address,uint256)",
+        "deposit()",
+        "withdraw(uint256)",
+      ]);
+      expect(weth?.valueAllowed).to.be.equals(true);
+      expect(weth?.conditions).to.have.length(1);
+      expect(targets).to.have.length(4);
+    });
+
+    it("should apply the targets of the config on top of the presets", async () => {
+      const { targets } = applyPresets(
+        {
+          presets: ["wrap-native"],
+          targets: [
+            {
+              address: mainnet.wrappedNative as string,
+              valueAllowed: false,
+              functions: ["transfer(address,uint256)"],
+            },
+            { address: user2.address, allowed: true },
+          ],
+        },
+        1
+      );
+      expect(targets).to.deep.equal([
+        {
+          address: mainnet.wrappedNative,
+          allowed: true,
+          scoped: true,
+          valueAllowed: false,
+          fallbackAllowed: false,
+          functions: [
+            "deposit()",
+            "withdraw(uint256)",
+            "transfer(address,uint256)",
+          ],
+          conditions: [],
+        },
+        { address: user2.address, allowed: true },
+      ]);
+    });
+
+    it("should list every preset that cannot be applied", async () => {
+      expect(() =>
+        applyPresets(
+          { presets: ["safe-owners", "wrap-native"], targets: [] },
+          31337
+        )
+      ).to.throw(
+        [
+          "Invalid guard presets:",
+          "  presets[0]: Preset safe-owners needs the address of the avatar",
+          "  presets[1]: Preset wrap-native is not available on chain 31337",
+        ].join("\n")
+      );
+    });
+
+    it("should need a chain id", async () => {
+      expect(() =>
+        applyPresets({ presets: ["wrap-native"], targets: [] })
+      ).to.throw("Presets need the chain id of the network");
+    });
+  });
+
+  describe("parseConfig()", async () => {
+    it("should resolve presets to selectors", async () => {
+      const { targets } = parseConfig(
+        JSON.stringify({ presets: ["wrap-native"], targets: [] }),
+        "json",
+        1
+      );
+      expect(targets[0].functions).to.deep.equal([withdraw, deposit]);
+    });
+
+    it("should reject unknown presets and invalid avatars", async () => {
+      try {
+        parseConfig(
+          JSON.stringify({ presets: ["weth"], avatar: "0x1234", targets: [] }),
+          "json",
+          1
+        );
+        expect.fail("config should be invalid");
+      } catch (e) {
+        expect(e).to.be.instanceOf(ConfigError);
+        expect((e as ConfigError).errors).to.deep.equal([
+          `presets[0] must be one of ${Object.keys(PRESETS).join(", ")}`,
+          "avatar must be an address",
+        ]);
+      }
+    });
+  });
+
+  describe("applyConfig", async () => {
+    it("should allow the functions of the presets of a config", async () => {
+      const { guard } = await setupTests();
+      const file = join(tmpdir(), "presets.yaml");
+      writeFileSync(
+        file,
+        [
+          `avatar: "${user2.address}"`,
+          "presets:",
+          "  - safe-owners",
+          "targets: []",
+        ].join("\n")
+      );
+
+      await hre.run("applyConfig", { guard: guard.address, file });
+
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(true);
+      expect(await guard.isScoped(user2.address)).to.be.equals(true);
+      expect(
+        await guard.getAllowedFunctions(user2.address, 0, 10)
+      ).to.have.members([
+        "0x0d582f13",
+        "0xf8dc5dd9",
+        "0xe318b52b",
+        "0x694e80c3",
+      ]);
+    });
+
+    it("should limit the recipients of the presets on the guard", async () => {
+      const { guard } = await setupTests();
+      const router = utils.getAddress(utils.hexlify(utils.randomBytes(20)));
+      const file = join(tmpdir(), "presets.yaml");
+      writeFileSync(
+        file,
+        [
+          `avatar: "${user2.address}"`,
+          "presets:",
+          "  - uniswap-v2-router",
+          "targets: []",
+        ].join("\n")
+      );
+
+      ADDRESS_BOOK[31337] = { uniswapV2Router: router };
+      try {
+        await hre.run("applyConfig", { guard: guard.address, file });
+      } finally {
+        delete ADDRESS_BOOK[31337];
+      }
+
+      // The recipient of swapExactTokensForTokens is its fourth word.
+      const swap = "0x38ed1739";
+      expect(await guard.isAllowedFunction(router, swap)).to.be.equals(true);
+      const [, , compValues] = await guard.getParameterCondition(
+        router,
+        swap,
+        3
+      );
+      expect(compValues).to.deep.equal([
+        utils.hexZeroPad(user2.address, 32).toLowerCase(),
+      ]);
+    });
+  });
+
+  describe("listPresets", async () => {
+    it("should list the names of the presets", async () => {
+      expect(await hre.run("listPresets")).to.deep.equal(Object.keys(PRESETS));
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { listAllowedFunctions, listAllowedTargets } from "../src/utils/state";
+
+describe("Registry", async () => {
+  const [user1, user2, user3, user4] = waffle.provider.getWallets();
+  const targets = [user2.address, user3.address, user4.address];
+  const selectors = [
+    "0x00000001",
+    "0x00000002",
+    "0x095ea7b3",
+    "0x12345678",
+    "0xa9059cbb",
+    "0xffffffff",
+  ];
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { guard };
+  });
+
+  // Deterministic pseudo-random numbers, so that failures can be replayed.
+  const random = (seed: number) => () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+  const pick = <T>(next: () => number, items: T[]): T =>
+    items[Math.floor(next() * items.length)];
+
+  describe("getAllowedTargets()", async () => {
+    it("should list the allowed targets by page", async () => {
+      const { guard } = await setupTests();
+      await guard.setTargetAllowed(user2.address, true);
+      await guard.setTargetAllowed(user3.address, true);
+      await guard.setTargetAllowed(user4.address, true);
+      await guard.setTargetAllowed(user3.address, false);
+
+      expect(await guard.getAllowedTargetCount()).to.be.equals(2);
+      const [first] = await guard.getAllowedTargets(0, 1);
+      const [second] = await guard.getAllowedTargets(1, 1);
+      expect([first, second]).to.have.members([user2.address, user4.address]);
+      expect(await guard.getAllowedTargets(1, 10)).to.have.length(1);
+      expect(await guard.getAllowedTargets(2, 10)).to.deep.equal([]);
+      expect(await guard.getAllowedTargets(0, 0)).to.deep.equal([]);
+    });
+  });
+
+  describe("getAllowedFunctions()", async () => {
+    it("should list the allowed functions of a target by page", async () => {
+      const { guard } = await setupTests();
+      await guard.setAllowedFunctions(user2.address, selectors, true);
+      await guard.setAllowedFunction(user2.address, selectors[0], false);
+
+      expect(await guard.getAllowedFunctionCount(user2.address)).to.be.equals(
+        selectors.length - 1
+      );
+      expect(await guard.getAllowedFunctionCount(user3.address)).to.be.equals(
+        0
+      );
+      const pages = [
+        ...(await guard.getAllowedFunctions(user2.address, 0, 2)),
+        ...(await guard.getAllowedFunctions(user2.address, 2, 2)),
+        ...(await guard.getAllowedFunctions(user2.address, 4, 2)),
+      ];
+      expect(pages).to.have.members(selectors.slice(1));
+    });
+  });
+
+  describe("consistency", async () => {
+    for (const seed of [1, 2, 3]) {
+      it(`should match isAllowedTarget and isAllowedFunction after random changes (seed ${seed})`, async () => {
+        const { guard } = await setupTests();
+        const next = random(seed);
+
+        for (let i = 0; i < 40; i++) {
+          const target = pick(next, targets);
+          const allow = next() < 0.6;
+          const action = next();
+          if (action < 0.2) {
+            await guard.setTargetAllowed(target, allow);
+          } else if (action < 0.3) {
+            await guard.setTargetsAllowed([
+              [target, allow],
+              [pick(next, targets), !allow],
+            ]);
+          } else if (action < 0.8) {
+            await guard.setAllowedFunction(
+              target,
+              pick(next, selectors),
+              allow
+            );
+          } else {
+            await guard.setAllowedFunctions(
+              target,
+              [pick(next, selectors), pick(next, selectors)],
+              allow
+            );
+          }
+        }
+
+        const allowedTargets = [];
+        for (const target of targets) {
+          if (await guard.isAllowedTarget(target)) {
+            allowedTargets.push(target);
+          }
+          const allowedFunctions = [];
+          for (const selector of selectors) {
+            if (await guard.isAllowedFunction(target, selector)) {
+              allowedFunctions.push(selector);
+            }
+          }
+          expect(await listAllowedFunctions(guard, target)).to.deep.equal(
+            allowedFunctions
+          );
+        }
+        const listed = await listAllowedTargets(guard);
+        expect(listed).to.have.length(allowedTargets.length);
+        expect(listed).to.have.members(allowedTargets);
+      });
+    }
+  });
+});
@@ -0,0 +1,176 @@
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import {
+  ScopeGuardClient,
+  allowFunctionCalls,
+  targetFlagCall,
+} from "../src/sdk";
+import { REVERT_REASONS } from "../src/utils/simulate";
+
+describe("ScopeGuardClient", async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets();
+  const target = user2.address;
+  const transfer = "0xa9059cbb";
+  const approve = "0x095ea7b3";
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const client = await ScopeGuardClient.deploy(user1.address, user1);
+    return { client };
+  });
+
+  describe("deploy", async () => {
+    it("should deploy a guard owned by the owner", async () => {
+      const { client } = await setupTests();
+      expect(await client.guard.owner()).to.be.equals(user1.address);
+    });
+  });
+
+  describe("deployViaFactory", async () => {
+    it("should deploy a proxy of the master copy set up for the owner", async () => {
+      const { client } = await setupTests();
+      const Factory = await hre.ethers.getContractFactory("ModuleProxyFactory");
+      const factory = await Factory.deploy();
+
+      const proxy = await ScopeGuardClient.deployViaFactory(
+        user2.address,
+        user1,
+        { factory: factory.address, masterCopy: client.address, saltNonce: "1" }
+      );
+
+      expect(proxy.address).to.not.be.equals(client.address);
+      expect(await proxy.guard.owner()).to.be.equals(user2.address);
+      expect(await client.guard.owner()).to.be.equals(user1.address);
+    });
+
+    it("should throw if the factory is not deployed", async () => {
+      const { client } = await setupTests();
+      try {
+        await ScopeGuardClient.deployViaFactory(user1.address, user1, {
+          masterCopy: client.address,
+        });
+        expect.fail("deployViaFactory should fail");
+      } catch (error) {
+        expect((error as Error).message).to.match(
+          /^No contract deployed at 0x/
+        );
+      }
+    });
+  });
+
+  describe("getTargetConfig", async () => {
+    it("should read the flags and functions of a target", async () => {
+      const { client } = await setupTests();
+      await client.setTargetFlag(target, "allowed", true);
+      await client.setTargetFlag(target, "scoped", true);
+      await client.allowFunctions(target, [
+        "approve(address,uint256)",
+        transfer,
+      ]);
+
+      expect(await client.getTargetConfig(target.toLowerCase())).to.deep.equal({
+        address: target,
+        allowed: true,
+        scoped: true,
+        delegateCallAllowed: false,
+        valueAllowed: false,
+        fallbackAllowed: false,
+        denyList: false,
+        functions: [approve, transfer],
+        deniedFunctions: [],
+        conditions: [],
+      });
+    });
+  });
+
+  describe("allowFunctions", async () => {
+    it("should allow and disallow functions on a target", async () => {
+      const { client } = await setupTests();
+      await client.allowFunctions(target, [transfer, approve]);
+      expect(await client.guard.isAllowedFunction(target, transfer)).to.be.true;
+      expect(await client.guard.isAllowedFunction(target, approve)).to.be.true;
+
+      await client.allowFunctions(target, [transfer], false);
+      expect(await client.guard.isAllowedFunction(target, transfer)).to.be
+        .false;
+      expect(await client.guard.isAllowedFunction(target, approve)).to.be.true;
+    });
+  });
+
+  describe("sendCalls", async () => {
+    it("should only log the executed calls to a logger", async () => {
+      const { client } = await setupTests();
+      const lines: string[] = [];
+      const logged = new ScopeGuardClient(client.guard, (line) =>
+        lines.push(line)
+      );
+      await client.setTargetFlag(target, "allowed", true);
+      expect(lines).to.be.empty;
+
+      await logged.sendCalls([targetFlagCall(target, "scoped", true)]);
+      expect(lines).to.deep.equal([`Executed setScoped(${target}, true)`]);
+    });
+  });
+
+  describe("encodeCalls", async () => {
+    it("should encode batched setter calls without sending them", async () => {
+      const { client } = await setupTests();
+      const transactions = await client.encodeCalls([
+        targetFlagCall(target, "allowed", true),
+        ...allowFunctionCalls(target, [transfer, approve]),
+      ]);
+
+      expect(transactions).to.have.length(2);
+      expect(transactions[1]).to.deep.equal({
+        to: client.address,
+        value: 0,
+        data: client.guard.interface.encodeFunctionData("setAllowedFunctions", [
+          target,
+          [transfer, approve],
+          true,
+        ]),
+        operation: 0,
+      });
+      expect(await client.guard.isAllowedTarget(target)).to.be.false;
+
+      for (const { to, data } of transactions) {
+        await user1.sendTransaction({ to, data });
+      }
+      expect(await client.guard.isAllowedTarget(target)).to.be.true;
+      expect(await client.guard.isAllowedFunction(target, approve)).to.be.true;
+    });
+  });
+
+  describe("decodeRevertReason", async () => {
+    it("should decode the revert reason of a failed transaction", async () => {
+      const { client } = await setupTests();
+      const other = ScopeGuardClient.connect(client.address, user3);
+      try {
+        await other.setTargetFlag(target, "allowed", true);
+        expect.fail("setTargetFlag should fail");
+      } catch (error) {
+        expect(ScopeGuardClient.decodeRevertReason(error)).to.be.equals(
+          "Ownable: caller is not the owner"
+        );
+      }
+    });
+  });
+
+  describe("checkTransaction", async () => {
+    it("should return the revert reason of the guard", async () => {
+      const { client } = await setupTests();
+      const transaction = { to: target, value: 0, data: "0x", operation: 0 };
+      expect(await client.checkTransaction(transaction)).to.deep.equal({
+        allowed: false,
+        reason: REVERT_REASONS.target,
+      });
+
+      await client.setTargetFlag(target, "allowed", true);
+      expect(await client.checkTransaction(transaction)).to.deep.equal({
+        allowed: true,
+      });
+    });
+  });
+});
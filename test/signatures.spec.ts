@@ -0,0 +1,81 @@
+import { expect } from "chai";
+
+import {
+  findCollisions,
+  formatSelector,
+  parseFunction,
+} from "../src/utils/signatures";
+
+describe("Signatures", async () => {
+  const balanceOf = {
+    selector: "0x70a08231",
+    signature: "balanceOf(address)",
+  };
+
+  describe("parseFunction()", async () => {
+    it("should normalize human-readable signatures", async () => {
+      expect(parseFunction("balanceOf(address)")).to.deep.equal(balanceOf);
+      expect(
+        parseFunction(
+          "function balanceOf(address owner) view returns (uint256)"
+        )
+      ).to.deep.equal(balanceOf);
+      expect(parseFunction(" balanceOf( address ) ")).to.deep.equal(balanceOf);
+    });
+
+    it("should normalize JSON ABI fragments", async () => {
+      const fragment = {
+        type: "function",
+        name: "balanceOf",
+        inputs: [{ name: "owner", type: "address" }],
+        outputs: [{ name: "", type: "uint256" }],
+        stateMutability: "view",
+      };
+      expect(parseFunction(JSON.stringify(fragment))).to.deep.equal(balanceOf);
+    });
+
+    it("should lowercase selectors and label known ones", async () => {
+      parseFunction("balanceOf(address)");
+      expect(parseFunction("0x70A08231")).to.deep.equal(balanceOf);
+      expect(parseFunction("0x12345678")).to.deep.equal({
+        selector: "0x12345678",
+        signature: undefined,
+      });
+    });
+
+    it("should throw on invalid input", async () => {
+      expect(() => parseFunction("balanceOf(address")).to.throw(
+        "Invalid function signature or selector: balanceOf(address"
+      );
+      expect(() => parseFunction("0x1234")).to.throw();
+    });
+  });
+
+  describe("formatSelector()", async () => {
+    it("should print the signature next to the selector", async () => {
+      parseFunction("balanceOf(address)");
+      expect(formatSelector("0x70a08231")).to.be.equals(
+        "0x70a08231 balanceOf(address)"
+      );
+      expect(formatSelector("0x87654321")).to.be.equals("0x87654321");
+    });
+  });
+
+  describe("findCollisions()", async () => {
+    it("should report signatures sharing a selector", async () => {
+      expect(
+        findCollisions([
+          "burn(uint256)",
+          "0x42966c68",
+          "function collate_propagate_storage(bytes16)",
+          "burn(uint256)",
+        ])
+      ).to.deep.equal([
+        "0x42966c68 is the selector of burn(uint256) and collate_propagate_storage(bytes16)",
+      ]);
+      expect(findCollisions(["burn(uint256)", "mint(uint256)"])).to.deep.equal(
+        []
+      );
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import { writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { AddressZero, HashZero } from "@ethersproject/constants";
+import { encodeMultiSend } from "@gnosis.pm/safe-contracts";
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { multiSendInterface } from "../src/utils/multisend";
+import {
+  REVERT_REASONS,
+  SimulatedTransaction,
+  callCheckTransaction,
+  evaluateTransaction,
+  listTargets,
+  readPauseState,
+} from "../src/utils/simulate";
+import { readPermissions } from "../src/utils/state";
+
+describe("Simulate", async () => {
+  const [user1, user2, user3, user4] = waffle.provider.getWallets();
+  const transfer = "0xa9059cbb";
+  const approve = "0x095ea7b3";
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    await guard.setTargetAllowed(user2.address, true);
+    await guard.setScoped(user2.address, true);
+    await guard.setAllowedFunction(user2.address, transfer, true);
+    await guard.setTargetAllowed(user3.address, true);
+    await guard.setDelegateCallAllowedOnTarget(user3.address, true);
+    await guard.setValueAllowedOnTarget(user3.address, true);
+    await guard.setDelegateCallAllowedOnTarget(user4.address, true);
+    return { guard };
+  });
+
+  const transaction = (
+    to: string,
+    overrides: Partial<SimulatedTransaction> = {}
+  ): SimulatedTransaction => ({
+    to,
+    value: 0,
+    data: "0x",
+    operation: 0,
+    ...overrides,
+  });
+
+  // Delegate call to the MultiSend batching the transactions.
+  const batch = (
+    multiSend: string,
+    transactions: SimulatedTransaction[]
+  ): SimulatedTransaction =>
+    transaction(multiSend, {
+      operation: 1,
+      data: multiSendInterface.encodeFunctionData("multiSend", [
+        encodeMultiSend(
+          transactions.map((tx) => ({ ...tx, value: tx.value.toString() }))
+        ),
+      ]),
+    });
+
+  const cases: [string, SimulatedTransaction, string | undefined][] = [
+    [
+      "a delegate call to a target without delegate calls",
+      transaction(user2.address, { operation: 1 }),
+      REVERT_REASONS.delegateCall,
+    ],
+    [
+      "a delegate call to a target that is not allowed",
+      transaction(user4.address, { operation: 1 }),
+      REVERT_REASONS.target,
+    ],
+    [
+      "a call to a target that is not allowed",
+      transaction(user1.address),
+      REVERT_REASONS.target,
+    ],
+    [
+      "a value transfer to a target without value",
+      transaction(user2.address, { value: 1, data: transfer }),
+      REVERT_REASONS.value,
+    ],
+    [
+      "a call to a function that is not allowed",
+      transaction(user2.address, { data: `${approve}00` }),
+      REVERT_REASONS.function,
+    ],
+    [
+      "a call with a truncated function signature",
+      transaction(user2.address, { data: "0xa9059c" }),
+      REVERT_REASONS.signature,
+    ],
+    [
+      "a fallback call to a scoped target",
+      transaction(user2.address),
+      REVERT_REASONS.fallback,
+    ],
+    [
+      "a call to an allowed function",
+      transaction(user2.address, { data: `${transfer}0000` }),
+      undefined,
+    ],
+    [
+      "a delegate call with value to an unscoped target",
+      transaction(user3.address, { value: 1, operation: 1, data: approve }),
+      undefined,
+    ],
+  ];
+
+  describe("callCheckTransaction()", async () => {
+    for (const [name, tx, reason] of cases) {
+      it(`should return the guard verdict on ${name}`, async () => {
+        const { guard } = await setupTests();
+        expect(await callCheckTransaction(guard, tx)).to.deep.equal(
+          reason ? { allowed: false, reason } : { allowed: true }
+        );
+      });
+    }
+  });
+
+  describe("callCheckTransaction() with allowances", async () => {
+    it("should check the allowance spending of the avatar", async () => {
+      const { guard } = await setupTests();
+      await guard.setAllowance(user3.address, 0, 100, 0);
+      const avatar = guard.connect(user4);
+      await avatar.checkTransaction(
+        user3.address,
+        100,
+        "0x",
+        0,
+        0,
+        0,
+        0,
+        AddressZero,
+        AddressZero,
+        "0x",
+        AddressZero
+      );
+      await avatar.checkAfterExecution(HashZero, true);
+
+      const tx = transaction(user3.address, { value: 1 });
+      expect(
+        await callCheckTransaction(guard, tx, user4.address)
+      ).to.deep.equal({
+        allowed: false,
+        reason: REVERT_REASONS.valueAllowance,
+      });
+      expect(await callCheckTransaction(guard, tx)).to.deep.equal({
+        allowed: true,
+      });
+    });
+  });
+
+  describe("evaluateTransaction()", async () => {
+    it("should match the guard verdict on every check", async () => {
+      const { guard } = await setupTests();
+      const permissions = await readPermissions(guard);
+      for (const [, tx] of cases) {
+        expect(evaluateTransaction(permissions, tx)).to.deep.equal(
+          await callCheckTransaction(guard, tx)
+        );
+      }
+    });
+
+    it("should match the guard verdict on deny lists", async () => {
+      const { guard } = await setupTests();
+      await guard.setDenyList(user3.address, true);
+      await guard.setDeniedFunction(user3.address, approve, true);
+      const permissions = await readPermissions(guard);
+      for (const tx of [
+        transaction(user3.address, { data: approve }),
+        transaction(user3.address, { data: transfer }),
+        transaction(user3.address),
+      ]) {
+        expect(evaluateTransaction(permissions, tx)).to.deep.equal(
+          await callCheckTransaction(guard, tx)
+        );
+      }
+    });
+
+    it("should match the guard verdict while it is paused", async () => {
+      const { guard } = await setupTests();
+      await guard.setRecoveryTarget(user3.address, true);
+      await guard.pause();
+      const permissions = await readPermissions(guard);
+      for (const tx of [
+        transaction(user2.address),
+        transaction(user3.address),
+      ]) {
+        expect(
+          evaluateTransaction(
+            permissions,
+            tx,
+            await readPauseState(guard, [tx.to])
+          )
+        ).to.deep.equal(await callCheckTransaction(guard, tx));
+      }
+    });
+  });
+
+  describe("evaluateTransaction() with MultiSend", async () => {
+    const allowed = [
+      transaction(user2.address, { data: `${transfer}0000` }),
+      transaction(user3.address, { value: 1 }),
+    ];
+
+    it("should match the guard verdict on the batches it unpacks", async () => {
+      const { guard } = await setupTests();
+      await guard.setMultiSend(user1.address);
+      const permissions = await readPermissions(guard);
+      for (const tx of [
+        batch(user1.address, allowed),
+        batch(user1.address, [
+          ...allowed,
+          transaction(user2.address, { data: approve }),
+        ]),
+        batch(user1.address, [batch(user1.address, allowed)]),
+        transaction(user1.address, { operation: 1, data: transfer }),
+        transaction(user1.address, {
+          operation: 1,
+          data: `${multiSendInterface.getSighash("multiSend")}00`,
+        }),
+        batch(user4.address, allowed),
+      ]) {
+        expect(evaluateTransaction(permissions, tx)).to.deep.equal(
+          await callCheckTransaction(guard, tx)
+        );
+      }
+      expect(
+        evaluateTransaction(permissions, batch(user1.address, allowed))
+      ).to.deep.equal({ allowed: true });
+    });
+
+    it("should check the pause against the targets of the batch", async () => {
+      const { guard } = await setupTests();
+      await guard.setMultiSend(user1.address);
+      await guard.setRecoveryTarget(user3.address, true);
+      await guard.pause();
+      const permissions = await readPermissions(guard);
+      expect(
+        listTargets(permissions, batch(user1.address, allowed))
+      ).to.deep.equal([user2.address, user3.address]);
+      for (const tx of [
+        batch(user1.address, [allowed[1]]),
+        batch(user1.address, allowed),
+      ]) {
+        expect(
+          evaluateTransaction(
+            permissions,
+            tx,
+            await readPauseState(guard, listTargets(permissions, tx))
+          )
+        ).to.deep.equal(await callCheckTransaction(guard, tx));
+      }
+    });
+  });
+
+  describe("simulate", async () => {
+    it("should call checkTransaction on the guard", async () => {
+      const { guard } = await setupTests();
+      const verdict = await hre.run("simulate", {
+        guard: guard.address,
+        to: user2.address,
+        data: approve,
+      });
+      expect(verdict).to.deep.equal({
+        allowed: false,
+        reason: REVERT_REASONS.function,
+      });
+    });
+
+    it("should check the restrictions of the sender", async () => {
+      const { guard } = await setupTests();
+      await guard.setSenderRestricted(user4.address, true);
+      await guard.setExecutorAllowed(user1.address, true);
+      const args = { guard: guard.address, to: user3.address };
+      expect(
+        await hre.run("simulate", { ...args, sender: user1.address })
+      ).to.deep.equal({ allowed: true });
+      expect(await hre.run("simulate", args)).to.deep.equal({
+        allowed: false,
+        reason: REVERT_REASONS.sender,
+      });
+      expect(
+        await hre.run("simulate", { ...args, sender: user4.address })
+      ).to.deep.equal({
+        allowed: false,
+        reason: REVERT_REASONS.senderTarget,
+      });
+    });
+
+    it("should evaluate the permissions from the guard events", async () => {
+      const { guard } = await setupTests();
+      const verdict = await hre.run("simulate", {
+        guard: guard.address,
+        to: user3.address,
+        value: "1000",
+        local: true,
+      });
+      expect(verdict).to.deep.equal({ allowed: true });
+    });
+
+    it("should evaluate the pause of the guard", async () => {
+      const { guard } = await setupTests();
+      await guard.pause();
+      const verdict = await hre.run("simulate", {
+        guard: guard.address,
+        to: user3.address,
+        local: true,
+      });
+      expect(verdict).to.deep.equal({
+        allowed: false,
+        reason: REVERT_REASONS.paused,
+      });
+    });
+
+    it("should evaluate the MultiSend batches of the guard", async () => {
+      const { guard } = await setupTests();
+      await guard.setMultiSend(user1.address);
+      const { data } = batch(user1.address, [
+        transaction(user2.address, { data: `${transfer}0000` }),
+        transaction(user3.address, { value: 1 }),
+      ]);
+      const verdict = await hre.run("simulate", {
+        guard: guard.address,
+        to: user1.address,
+        data,
+        operation: 1,
+        local: true,
+      });
+      expect(verdict).to.deep.equal({ allowed: true });
+    });
+
+    it("should evaluate the MultiSend of a permissions file", async () => {
+      const file = join(tmpdir(), "simulate-multisend.json");
+      writeFileSync(
+        file,
+        JSON.stringify({
+          multiSend: user1.address,
+          targets: [{ address: user2.address, allowed: true }],
+        })
+      );
+      const { data } = batch(user1.address, [transaction(user2.address)]);
+      const verdict = await hre.run("simulate", {
+        snapshot: file,
+        to: user1.address,
+        data,
+        operation: 1,
+      });
+      expect(verdict).to.deep.equal({ allowed: true });
+    });
+
+    it("should evaluate a permissions file", async () => {
+      const file = join(tmpdir(), "simulate.json");
+      writeFileSync(
+        file,
+        JSON.stringify({
+          targets: [{ address: user2.address, allowed: true }],
+        })
+      );
+      const verdict = await hre.run("simulate", {
+        snapshot: file,
+        to: user2.address,
+        value: "1",
+      });
+      expect(verdict).to.deep.equal({
+        allowed: false,
+        reason: REVERT_REASONS.value,
+      });
+    });
+  });
+});
@@ -0,0 +1,476 @@
+import { AddressZero, HashZero } from "@ethersproject/constants";
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+describe("Permission tasks", async () => {
+  const [user1, user2] = waffle.provider.getWallets();
+  const target = user2.address;
+  const sig = "0x12345678";
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { guard };
+  });
+
+  describe("setup", async () => {
+    it("should deploy a guard directly or through a factory", async () => {
+      const { guard } = await setupTests();
+      const Factory = await hre.ethers.getContractFactory("ModuleProxyFactory");
+      const factory = await Factory.deploy();
+
+      const direct = await hre.run("setup", { owner: user2.address });
+      const proxied = await hre.run("setup", {
+        owner: user2.address,
+        proxied: true,
+        factory: factory.address,
+        masterCopy: guard.address,
+      });
+
+      for (const address of [direct, proxied]) {
+        const deployed = await hre.ethers.getContractAt("ScopeGuard", address);
+        expect(await deployed.owner()).to.be.equals(user2.address);
+      }
+      expect(await guard.owner()).to.be.equals(user1.address);
+    });
+
+    it("should only deploy proxies of the compiled ScopeGuard", async () => {
+      const Factory = await hre.ethers.getContractFactory("ModuleProxyFactory");
+      const factory = await Factory.deploy();
+      const args = { owner: user2.address, proxied: true };
+
+      try {
+        await hre.run("setup", { ...args, factory: factory.address });
+        expect.fail("setup should fail");
+      } catch (e) {
+        expect((e as Error).message).to.be.equals(
+          "A master copy is required to deploy through a factory"
+        );
+      }
+      try {
+        await hre.run("setup", {
+          ...args,
+          factory: factory.address,
+          masterCopy: factory.address,
+        });
+        expect.fail("setup should fail");
+      } catch (e) {
+        expect((e as Error).message).to.be.equals(
+          `The code at ${factory.address} does not match the compiled ScopeGuard`
+        );
+      }
+    });
+  });
+
+  describe("allowTarget / disallowTarget", async () => {
+    it("should allow and disallow a target", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(await hre.run("allowTarget", args)).to.be.equals(true);
+      expect(await guard.isAllowedTarget(target)).to.be.equals(true);
+
+      expect(await hre.run("disallowTarget", args)).to.be.equals(false);
+      expect(await guard.isAllowedTarget(target)).to.be.equals(false);
+    });
+  });
+
+  describe("scopeTarget / unscopeTarget", async () => {
+    it("should scope and unscope a target", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(await hre.run("scopeTarget", args)).to.be.equals(true);
+      expect(await guard.isScoped(target)).to.be.equals(true);
+
+      expect(await hre.run("unscopeTarget", args)).to.be.equals(false);
+      expect(await guard.isScoped(target)).to.be.equals(false);
+    });
+  });
+
+  describe("toggleScoped", async () => {
+    it("should flip scoped for a target", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(await hre.run("toggleScoped", args)).to.be.equals(true);
+      expect(await guard.isScoped(target)).to.be.equals(true);
+
+      expect(await hre.run("toggleScoped", args)).to.be.equals(false);
+      expect(await guard.isScoped(target)).to.be.equals(false);
+    });
+  });
+
+  describe("allowDelegateCall / disallowDelegateCall", async () => {
+    it("should allow and disallow delegate calls to a target", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(await hre.run("allowDelegateCall", args)).to.be.equals(true);
+      expect(await guard.isAllowedToDelegateCall(target)).to.be.equals(true);
+
+      expect(await hre.run("disallowDelegateCall", args)).to.be.equals(false);
+      expect(await guard.isAllowedToDelegateCall(target)).to.be.equals(false);
+    });
+  });
+
+  describe("allowValue / disallowValue", async () => {
+    it("should allow and disallow sending value to a target", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(await hre.run("allowValue", args)).to.be.equals(true);
+      expect(await guard.isValueAllowed(target)).to.be.equals(true);
+
+      expect(await hre.run("disallowValue", args)).to.be.equals(false);
+      expect(await guard.isValueAllowed(target)).to.be.equals(false);
+    });
+  });
+
+  describe("allowFallback / disallowFallback", async () => {
+    it("should allow and disallow the fallback of a target", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(await hre.run("allowFallback", args)).to.be.equals(true);
+      expect(await guard.isfallbackAllowed(target)).to.be.equals(true);
+
+      expect(await hre.run("disallowFallback", args)).to.be.equals(false);
+      expect(await guard.isfallbackAllowed(target)).to.be.equals(false);
+    });
+  });
+
+  describe("allowFunction / disallowFunction", async () => {
+    it("should allow and disallow a function on a target", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target, sig };
+
+      expect(await hre.run("allowFunction", args)).to.be.equals(true);
+      expect(await guard.isAllowedFunction(target, sig)).to.be.equals(true);
+
+      expect(await hre.run("disallowFunction", args)).to.be.equals(false);
+      expect(await guard.isAllowedFunction(target, sig)).to.be.equals(false);
+    });
+
+    it("should accept human-readable signatures and ABI fragments", async () => {
+      const { guard } = await setupTests();
+      const transfer = "0xa9059cbb";
+
+      await hre.run("allowFunction", {
+        guard: guard.address,
+        target,
+        sig: "function transfer(address to, uint256 amount) returns (bool)",
+      });
+      expect(await guard.isAllowedFunction(target, transfer)).to.be.true;
+
+      await hre.run("disallowFunction", {
+        guard: guard.address,
+        target,
+        sig: JSON.stringify({
+          type: "function",
+          name: "transfer",
+          inputs: [
+            { name: "to", type: "address" },
+            { name: "amount", type: "uint256" },
+          ],
+          outputs: [{ name: "", type: "bool" }],
+          stateMutability: "nonpayable",
+        }),
+      });
+      expect(await guard.isAllowedFunction(target, transfer)).to.be.false;
+    });
+  });
+
+  describe("enableDenyList / denyFunction", async () => {
+    it("should deny functions on a target with a deny list", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(await hre.run("enableDenyList", args)).to.be.equals(true);
+      expect(await guard.isDenyList(target)).to.be.equals(true);
+      expect(
+        await hre.run("denyFunction", { ...args, sig: "upgradeTo(address)" })
+      ).to.be.equals(true);
+      expect(await guard.isDeniedFunction(target, "0x3659cfe6")).to.be.equals(
+        true
+      );
+
+      expect(
+        await hre.run("undenyFunction", { ...args, sig: "0x3659cfe6" })
+      ).to.be.equals(false);
+      expect(await guard.isDeniedFunction(target, "0x3659cfe6")).to.be.equals(
+        false
+      );
+      expect(await hre.run("disableDenyList", args)).to.be.equals(false);
+      expect(await guard.isDenyList(target)).to.be.equals(false);
+    });
+  });
+
+  describe("sender restrictions", async () => {
+    it("should restrict a sender to targets and functions", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, sender: user1.address };
+
+      expect(await hre.run("restrictSender", args)).to.be.equals(true);
+      expect(
+        await hre.run("allowTargetForSender", { ...args, target })
+      ).to.be.equals(true);
+      expect(
+        await hre.run("scopeTargetForSender", { ...args, target })
+      ).to.be.equals(true);
+      expect(
+        await hre.run("allowFunctionForSender", { ...args, target, sig })
+      ).to.be.equals(true);
+
+      expect(await guard.isRestrictedSender(user1.address)).to.be.equals(true);
+      expect(
+        await guard.isAllowedTargetForSender(user1.address, target)
+      ).to.be.equals(true);
+      expect(await guard.isScopedForSender(user1.address, target)).to.be.equals(
+        true
+      );
+      expect(
+        await guard.isAllowedFunctionForSender(user1.address, target, sig)
+      ).to.be.equals(true);
+
+      expect(
+        await hre.run("disallowFunctionForSender", { ...args, target, sig })
+      ).to.be.equals(false);
+      expect(
+        await hre.run("unscopeTargetForSender", { ...args, target })
+      ).to.be.equals(false);
+      expect(
+        await hre.run("disallowTargetForSender", { ...args, target })
+      ).to.be.equals(false);
+      expect(await hre.run("unrestrictSender", args)).to.be.equals(false);
+      expect(await guard.isRestrictedSender(user1.address)).to.be.equals(false);
+    });
+
+    it("should allow and disallow an executor", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, sender: user2.address };
+
+      expect(await hre.run("allowExecutor", args)).to.be.equals(true);
+      expect(await guard.isAllowedExecutor(user2.address)).to.be.equals(true);
+      expect(await hre.run("disallowExecutor", args)).to.be.equals(false);
+      expect(await guard.isAllowedExecutor(user2.address)).to.be.equals(false);
+    });
+  });
+
+  describe("setMaxValue", async () => {
+    it("should cap the value of a target or one of its functions", async () => {
+      const { guard } = await setupTests();
+
+      expect(
+        await hre.run("setMaxValue", {
+          guard: guard.address,
+          target,
+          maxValue: "1000000000000000000",
+        })
+      ).to.be.equals("1000000000000000000");
+      expect(
+        await hre.run("setMaxValue", {
+          guard: guard.address,
+          target,
+          maxValue: "1000",
+          sig: "deposit()",
+        })
+      ).to.be.equals("1000");
+
+      expect(await guard.getMaxValue(target)).to.be.equals(
+        "1000000000000000000"
+      );
+      expect(
+        await guard.getMaxValueOnFunction(target, "0xd0e30db0")
+      ).to.be.equals(1000);
+    });
+  });
+
+  describe("setAllowance / getAllowance / resetAllowance", async () => {
+    it("should set, inspect and reset an allowance", async () => {
+      const { guard } = await setupTests();
+      const args = { guard: guard.address, target };
+
+      expect(
+        await hre.run("setAllowance", {
+          ...args,
+          amount: "1000",
+          period: 86400,
+          kind: "token",
+        })
+      ).to.be.equals("1000");
+      await guard.setTargetAllowed(target, true);
+      await guard.checkTransaction(
+        target,
+        0,
+        new hre.ethers.utils.Interface([
+          "function transfer(address to, uint256 amount)",
+        ]).encodeFunctionData("transfer", [user1.address, 300]),
+        0,
+        0,
+        0,
+        0,
+        AddressZero,
+        AddressZero,
+        "0x",
+        user1.address
+      );
+      await guard.checkAfterExecution(HashZero, true);
+
+      const status = await hre.run("getAllowance", {
+        ...args,
+        avatar: user1.address,
+        kind: "token",
+      });
+      expect(status.amount).to.be.equals("1000");
+      expect(status.period).to.be.equals(86400);
+      expect(status.spent).to.be.equals("300");
+      expect(status.remaining).to.be.equals("700");
+      expect(status.resetsAt).to.be.greaterThan(0);
+
+      await hre.run("resetAllowance", {
+        ...args,
+        avatar: user1.address,
+        kind: "token",
+      });
+      const reset = await hre.run("getAllowance", {
+        ...args,
+        avatar: user1.address,
+        kind: "token",
+      });
+      expect(reset.remaining).to.be.equals("1000");
+      expect(reset.resetsAt).to.be.equals(undefined);
+    });
+
+    it("should reject unknown allowance kinds", async () => {
+      const { guard } = await setupTests();
+      try {
+        await hre.run("setAllowance", {
+          guard: guard.address,
+          target,
+          amount: "1",
+          kind: "nft",
+        });
+        expect.fail("setAllowance should fail");
+      } catch (e) {
+        expect((e as Error).message).to.be.equals(
+          "Invalid allowance kind: nft, expected value or token"
+        );
+      }
+    });
+  });
+
+  describe("setMultiSend", async () => {
+    it("should set the MultiSend checked transaction by transaction", async () => {
+      const { guard } = await setupTests();
+
+      expect(
+        await hre.run("setMultiSend", { guard: guard.address, address: target })
+      ).to.be.equals(target);
+      expect(await guard.multiSend()).to.be.equals(target);
+    });
+  });
+
+  describe("pause / unpause", async () => {
+    it("should set up and pause the guard, then unpause it", async () => {
+      const { guard } = await setupTests();
+
+      expect(
+        await hre.run("setGuardian", {
+          guard: guard.address,
+          guardian: user2.address,
+        })
+      ).to.be.equals(user2.address);
+      expect(
+        await hre.run("allowRecoveryTarget", { guard: guard.address, target })
+      ).to.be.equals(true);
+      expect(await guard.recoveryTargets(target)).to.be.equals(true);
+
+      expect(await hre.run("pause", { guard: guard.address })).to.be.equals(
+        true
+      );
+      expect(await guard.paused()).to.be.equals(true);
+      expect(await hre.run("unpause", { guard: guard.address })).to.be.equals(
+        false
+      );
+      expect(await guard.paused()).to.be.equals(false);
+    });
+  });
+
+  describe("setRefundRule / allowRefundReceiver / disallowRefundReceiver", async () => {
+    it("should limit refunds to a gas token and receivers", async () => {
+      const { guard } = await setupTests();
+
+      expect(
+        await hre.run("setRefundRule", {
+          guard: guard.address,
+          maxGasPrice: "1000000000",
+          maxBaseGas: "30000",
+        })
+      ).to.be.equals("1000000000");
+      const [maxGasPrice, maxBaseGas] = await guard.refundRules(AddressZero);
+      expect(maxGasPrice).to.be.equals(1000000000);
+      expect(maxBaseGas).to.be.equals(30000);
+
+      const args = { guard: guard.address, receiver: target };
+      expect(await hre.run("allowRefundReceiver", args)).to.be.equals(true);
+      expect(await guard.refundReceivers(target)).to.be.equals(true);
+      expect(await hre.run("disallowRefundReceiver", args)).to.be.equals(false);
+      expect(await guard.refundReceivers(target)).to.be.equals(false);
+    });
+  });
+
+  describe("addGuard / removeGuard / listGuards", async () => {
+    it("should add, list and remove guards called after the ScopeGuard", async () => {
+      const { guard } = await setupTests();
+      const testGuardFactory = await hre.ethers.getContractFactory("TestGuard");
+      const first = await testGuardFactory.deploy();
+      const second = await testGuardFactory.deploy();
+
+      await hre.run("addGuard", {
+        guard: guard.address,
+        downstream: first.address,
+      });
+      expect(
+        await hre.run("addGuard", {
+          guard: guard.address,
+          downstream: second.address,
+        })
+      ).to.deep.equal([first.address, second.address]);
+      expect(
+        await hre.run("listGuards", { guard: guard.address })
+      ).to.deep.equal([first.address, second.address]);
+
+      expect(
+        await hre.run("removeGuard", {
+          guard: guard.address,
+          downstream: first.address,
+        })
+      ).to.deep.equal([second.address]);
+    });
+  });
+
+  describe("getFunctionSignature", async () => {
+    it("should return the selector of a signature", async () => {
+      expect(
+        await hre.run("getFunctionSignature", {
+          function: "function balanceOf(address owner) view returns (uint256)",
+        })
+      ).to.be.equals("0x70a08231");
+    });
+  });
+
+  describe("transferOwnership", async () => {
+    it("should transfer ownership of the guard", async () => {
+      const { guard } = await setupTests();
+
+      await hre.run("transferOwnership", {
+        guard: guard.address,
+        newowner: user2.address,
+      });
+      expect(await guard.owner()).to.be.equals(user2.address);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+describe("Timelock tasks", async () => {
+  const [user1, user2] = waffle.provider.getWallets();
+  const target = user2.address;
+  const day = 86400;
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    await guard.setDelay(day);
+    return { guard };
+  });
+
+  const increaseTime = async (seconds: number) => {
+    await hre.network.provider.send("evm_increaseTime", [seconds]);
+    await hre.network.provider.send("evm_mine");
+  };
+
+  describe("setDelay", async () => {
+    it("should set the delay of a guard without delay", async () => {
+      const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+      const guard = await guardFactory.deploy(user1.address);
+
+      expect(
+        await hre.run("setDelay", { guard: guard.address, delay: day })
+      ).to.be.equals(day);
+    });
+  });
+
+  describe("queue / pendingChanges / executeChange", async () => {
+    it("should queue setter calls and execute them once due", async () => {
+      const { guard } = await setupTests();
+
+      const [queued] = await hre.run("allowTarget", {
+        guard: guard.address,
+        target,
+        queue: true,
+      });
+      expect(queued.call).to.deep.equal({
+        method: "setTargetAllowed",
+        args: [target, true],
+      });
+      expect(await guard.isAllowedTarget(target)).to.be.equals(false);
+
+      const pending = await hre.run("pendingChanges", {
+        guard: guard.address,
+      });
+      expect(pending).to.deep.equal([queued]);
+
+      try {
+        await hre.run("executeChange", { guard: guard.address, id: queued.id });
+        expect.fail("executeChange should fail");
+      } catch (e) {
+        expect((e as Error).message).to.contain(
+          `Change ${queued.id} is not executable until`
+        );
+      }
+
+      await increaseTime(day);
+      await hre.run("executeChange", { guard: guard.address, id: queued.id });
+      expect(await guard.isAllowedTarget(target)).to.be.equals(true);
+      expect(
+        await hre.run("pendingChanges", { guard: guard.address })
+      ).to.deep.equal([]);
+    });
+
+    it("should queue batches of calls", async () => {
+      const { guard } = await setupTests();
+
+      const queued = await hre.run("allowAbi", {
+        guard: guard.address,
+        target,
+        abi: "TestAvatar",
+        functions: "enableModule,setGuard",
+        queue: true,
+      });
+      expect(queued.output.map(({ call }: any) => call.method)).to.deep.equal([
+        "setScoped",
+        "setAllowedFunctions",
+      ]);
+    });
+  });
+
+  describe("cancelChange", async () => {
+    it("should cancel a queued change", async () => {
+      const { guard } = await setupTests();
+      const [queued] = await hre.run("allowTarget", {
+        guard: guard.address,
+        target,
+        queue: true,
+      });
+
+      await hre.run("cancelChange", { guard: guard.address, id: queued.id });
+      expect(
+        await hre.run("pendingChanges", { guard: guard.address })
+      ).to.deep.equal([]);
+      expect(await guard.changeEta(queued.id)).to.be.equals(0);
+    });
+
+    it("should throw for unknown changes", async () => {
+      const { guard } = await setupTests();
+      const id = hre.ethers.constants.HashZero;
+      try {
+        await hre.run("cancelChange", { guard: guard.address, id });
+        expect.fail("cancelChange should fail");
+      } catch (e) {
+        expect((e as Error).message).to.be.equals(
+          `No pending change ${id} on ${guard.address}`
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { expect } from "chai";
+import hre, { deployments, waffle } from "hardhat";
+import "@nomiclabs/hardhat-ethers";
+
+import { buildBatch, calculateChecksum } from "../src/utils/txBuilder";
+
+describe("Transaction Builder output", async () => {
+  const [user1, user2, user3] = waffle.provider.getWallets();
+  const batchFile = join(tmpdir(), "batch.json");
+  const output = "txbuilder";
+
+  const setupTests = deployments.createFixture(async ({ deployments }) => {
+    await deployments.fixture();
+    const guardFactory = await hre.ethers.getContractFactory("ScopeGuard");
+    const guard = await guardFactory.deploy(user1.address);
+    return { guard };
+  });
+
+  describe("buildBatch()", async () => {
+    it("should describe each setter call", async () => {
+      const { guard } = await setupTests();
+      const batch = buildBatch(
+        guard,
+        [
+          {
+            method: "setAllowedFunction",
+            args: [user2.address, "0xa9059cbb", true],
+          },
+        ],
+        { chainId: 4, safe: user3.address }
+      );
+
+      expect(batch.chainId).to.be.equals("4");
+      expect(batch.meta.createdFromSafeAddress).to.be.equals(user3.address);
+      expect(batch.transactions).to.deep.equal([
+        {
+          to: guard.address,
+          value: "0",
+          data: null,
+          contractMethod: {
+            inputs: [
+              { internalType: "address", name: "target", type: "address" },
+              { internalType: "bytes4", name: "functionSig", type: "bytes4" },
+              { internalType: "bool", name: "allow", type: "bool" },
+            ],
+            name: "setAllowedFunction",
+            payable: false,
+          },
+          contractInputsValues: {
+            target: user2.address,
+            functionSig: "0xa9059cbb",
+            allow: "true",
+          },
+        },
+      ]);
+    });
+
+    it("should keep booleans inside tuples native", async () => {
+      const { guard } = await setupTests();
+      await guard.setTargetsAllowed([
+        [user2.address, true],
+        [user3.address, true],
+      ]);
+      const targets = [
+        [user2.address, false],
+        [user3.address, false],
+      ];
+      const batch = buildBatch(
+        guard,
+        [{ method: "setTargetsAllowed", args: [targets] }],
+        { chainId: 4 }
+      );
+
+      const values = batch.transactions[0].contractInputsValues;
+      expect(JSON.parse(values.targets)).to.deep.equal(targets);
+      await guard.setTargetsAllowed(JSON.parse(values.targets));
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(false);
+      expect(await guard.isAllowedTarget(user3.address)).to.be.equals(false);
+    });
+
+    it("should checksum the batch without its name", async () => {
+      const { guard } = await setupTests();
+      const calls = [{ method: "setScoped", args: [user2.address, true] }];
+      const batch = buildBatch(guard, calls, { chainId: 4 });
+      const { checksum, ...meta } = batch.meta;
+
+      expect(checksum).to.match(/^0x[0-9a-f]{64}$/);
+      expect(calculateChecksum({ ...batch, meta })).to.be.equals(checksum);
+      expect(
+        calculateChecksum({ ...batch, meta: { ...meta, name: "renamed" } })
+      ).to.be.equals(checksum);
+      expect(
+        calculateChecksum({ ...batch, meta: { ...meta, description: "x" } })
+      ).to.not.be.equals(checksum);
+    });
+  });
+
+  describe("setter tasks", async () => {
+    it("should write a batch file instead of sending", async () => {
+      const { guard } = await setupTests();
+
+      const batch = await hre.run("allowTarget", {
+        guard: guard.address,
+        target: user2.address,
+        output,
+        batchFile,
+      });
+
+      expect(JSON.parse(readFileSync(batchFile, "utf8"))).to.deep.equal(batch);
+      expect(batch.transactions[0].contractMethod.name).to.be.equals(
+        "setTargetAllowed"
+      );
+      expect(batch.transactions[0].contractInputsValues).to.deep.equal({
+        target: user2.address,
+        allow: "true",
+      });
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(false);
+    });
+
+    it("should not require the signer to own the guard", async () => {
+      const { guard } = await setupTests();
+      await guard.transferOwnership(user3.address);
+
+      const batch = await hre.run("transferOwnership", {
+        guard: guard.address,
+        newowner: user2.address,
+        output,
+        batchFile,
+        safe: user3.address,
+      });
+
+      expect(batch.meta.createdFromSafeAddress).to.be.equals(user3.address);
+      expect(batch.transactions[0].contractInputsValues).to.deep.equal({
+        newOwner: user2.address,
+      });
+      expect(await guard.owner()).to.be.equals(user3.address);
+    });
+
+    it("should reject unknown output modes", async () => {
+      const { guard } = await setupTests();
+      try {
+        await hre.run("allowTarget", {
+          guard: guard.address,
+          target: user2.address,
+          output: "email",
+        });
+        expect.fail("task should fail");
+      } catch (e) {
+        expect((e as Error).message).to.be.equals("Unknown output mode: email");
+      }
+    });
+  });
+
+  describe("applyConfig", async () => {
+    it("should write the whole plan to one batch file", async () => {
+      const { guard } = await setupTests();
+      const file = join(tmpdir(), "batch-config.json");
+      writeFileSync(
+        file,
+        JSON.stringify({
+          targets: [
+            { address: user2.address, allowed: true, valueAllowed: true },
+          ],
+        })
+      );
+
+      const { output: batch } = await hre.run("applyConfig", {
+        guard: guard.address,
+        file,
+        output,
+        batchFile,
+      });
+
+      expect(
+        batch.transactions.map((tx: any) => tx.contractMethod.name)
+      ).to.deep.equal(["setValueAllowedOnTarget", "setTargetAllowed"]);
+      expect(await guard.isAllowedTarget(user2.address)).to.be.equals(false);
+    });
+
+    it("should merge runs of calls to the same setter into batch setters", async () => {
+      const { guard } = await setupTests();
+      const file = join(tmpdir(), "batch-setters.json");
+      writeFileSync(
+        file,
+        JSON.stringify({
+          targets: [
+            {
+              address: user2.address,
+              allowed: true,
+              scoped: true,
+              functions: ["0x12345678", "0x87654321"],
+            },
+            { address: user3.address, allowed: true },
+          ],
+        })
+      );
+
+      const { calls, output: batch } = await hre.run("applyConfig", {
+        guard: guard.address,
+        file,
+        output,
+        batchFile,
+      });
+
+      expect(calls).to.have.length(5);
+      expect(
+        batch.transactions.map((tx: any) => tx.contractMethod.name)
+      ).to.deep.equal([
+        "setScoped",
+        "setAllowedFunctions",
+        "setTargetsAllowed",
+      ]);
+      expect(batch.transactions[1].contractInputsValues).to.deep.equal({
+        target: user2.address,
+        functionSigs: '["0x12345678","0x87654321"]',
+        allow: "true",
+      });
+      expect(batch.transactions[2].contractInputsValues).to.deep.equal({
+        targets: JSON.stringify([
+          [user2.address, true],
+          [user3.address, true],
+        ]),
+      });
+    });
+  });
+});